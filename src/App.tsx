@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Terminal, ChevronLeft, ChevronRight, Search, X } from 'lucide-react';
 import { newsService } from './services/newsService';
 import { NewsCard } from './components/NewsCard';
@@ -6,69 +6,92 @@ import { TradingPanel } from './components/TradingPanel';
 import { ConnectionStatus } from './components/ConnectionStatus';
 import { SEO } from './components/SEO';
 import { SettingsMenu } from './components/SettingsMenu';
-import { SettingsProvider, useSettings } from './context/SettingsContext';
+import { SettingsProvider, useSettings, getSymbolTradeButtons, getProtectionLevels } from './context/SettingsContext';
 import { ToastProvider } from './context/ToastContext';
 import { ToastListener } from './components/ToastListener';
-import { binanceService } from './services/binanceService';
+import { binanceService, showToast, DuplicateOrderError } from './services/binanceService';
 import { PositionHeader } from './components/PositionHeader';
+import { OpenOrdersPanel } from './components/OpenOrdersPanel';
+import { AutoTradingSwitch } from './components/AutoTradingSwitch';
+import { KillSwitchButton } from './components/KillSwitchButton';
+import { ProfileSwitcher } from './components/ProfileSwitcher';
+import { NewsFilterMenu } from './components/NewsFilterMenu';
 import type { NewsItem, Position } from './types';
-import { websocketConfig } from './config/websocket';
 import { Spotlight } from './components/Spotlight';
 import { chartSymbolUpdateEvent } from './components/TradingPanel';
+import type { SpotlightCommand } from './utils/commandParser';
+import { parseNewsQuery, createNewsFilter, getUrlNewsQuery, getNewsQueryUrl } from './utils/newsQuery';
+
+// A shared link opens with its filter, a broken one opens unfiltered
+const getInitialNewsQuery = () => {
+  const query = getUrlNewsQuery().trim();
+  const result = parseNewsQuery(query);
+  if (!result.ok) {
+    console.warn(`Ignoring news filter from the URL: ${result.error}`);
+    return '';
+  }
+  return query;
+};
 
 // Inner component - can use useSettings hook
 function AppContent() {
-  const { positionMode } = useSettings();
+  const { positionMode, tradeButtons, globalTradeButtons } = useSettings();
   const [positions, setPositions] = useState<Position[]>([]);
   const [news, setNews] = useState<NewsItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [showSpotlight, setShowSpotlight] = useState(false);
-  const [filteredSymbol, setFilteredSymbol] = useState<string | null>(null);
+  const [newsQuery, setNewsQuery] = useState(getInitialNewsQuery);
   const [initialSpotlightValue, setInitialSpotlightValue] = useState<string>('');
-  const [showFilterMessage, setShowFilterMessage] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
 
-  const fetchInitialNews = useCallback(async () => {
-    try {
-      console.log('[App] Fetching initial news via HTTP GET...');
-      const response = await fetch(`${websocketConfig.baseUrls.news}/news?limit=1000`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch initial news');
-      }
-      const newsData: NewsItem[] = await response.json();
-      console.log(`[App] Received ${newsData.length} initial news items.`);
-      
-      newsService.addInitialNews(newsData);
-    } catch (error) {
-      console.error('Error fetching initial news:', error);
-    } finally {
-      setLoading(false);
-    }
+  const newsFilter = useMemo(() => createNewsFilter(newsQuery), [newsQuery]);
+
+  // Queries are validated by the caller, an empty one clears the filter
+  const applyNewsQuery = useCallback((query: string) => {
+    setNewsQuery(query.trim());
+    setCurrentPage(1);
   }, []);
 
+  // Keep the address bar shareable
+  useEffect(() => {
+    window.history.replaceState(window.history.state, '', getNewsQueryUrl(newsQuery));
+  }, [newsQuery]);
+
   useEffect(() => {
-    fetchInitialNews();
+    // Stored news first, then whatever was published since
+    newsService.loadInitialNews()
+      .catch(error => {
+        console.error('Error fetching initial news:', error);
+      })
+      .finally(() => setLoading(false));
     newsService.connect();
     
     return () => {
       newsService.terminateWorker();
     };
-  }, [fetchInitialNews]);
+  }, []);
+
+  const handleLoadOlder = async () => {
+    setLoadingOlder(true);
+    try {
+      const added = await newsService.loadOlderNews();
+      if (added === 0) {
+        showToast('No older news available', 'warning');
+      }
+    } catch (error) {
+      showToast(`Failed to load older news: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
 
   useEffect(() => {
     const handleNewsUpdate = () => {
       const allNews = newsService.getAllNews();
       
-      const filteredResults = filteredSymbol
-        ? allNews.filter(item => {
-            const symbols = (item.symbol || '').split(',').map(s => s.trim().toUpperCase());
-            const titleMatch = (item.title || '').toUpperCase().includes(filteredSymbol);
-            const descriptionMatch = (item.description || '').toUpperCase().includes(filteredSymbol);
-            const symbolMatch = symbols.includes(filteredSymbol);
-            return symbolMatch || titleMatch || descriptionMatch;
-          })
-        : allNews;
+      const filteredResults = allNews.filter(item => newsFilter(item));
       
       const newTotalPages = Math.ceil(filteredResults.length / 20);
       setTotalPages(newTotalPages);
@@ -88,7 +111,7 @@ function AppContent() {
     handleNewsUpdate();
     
     return () => unsubscribe();
-  }, [filteredSymbol, currentPage]);
+  }, [newsFilter, currentPage]);
 
   useEffect(() => {
     const unsubscribe = binanceService.onPositionUpdate((newPositions) => {
@@ -111,15 +134,9 @@ function AppContent() {
       }
 
       // Clear filter when ESC is pressed
-      if (e.key === 'Escape' && filteredSymbol) {
+      if (e.key === 'Escape' && newsQuery) {
         e.preventDefault();
-        setFilteredSymbol(null);
-        setShowFilterMessage(false);
-        // Reset news to original state
-        const allNews = newsService.getAllNews();
-        setNews(allNews.slice(0, 20));
-        setCurrentPage(1);
-        setTotalPages(Math.ceil(allNews.length / 20));
+        applyNewsQuery('');
         return;
       }
 
@@ -135,66 +152,105 @@ function AppContent() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [showSpotlight, filteredSymbol]);
+  }, [showSpotlight, newsQuery, applyNewsQuery]);
 
-  const handleSpotlightSearch = useCallback((query: string) => {
-    if (query.trim()) {
-      const processedQuery = query.trim().toUpperCase();
-      
-      // Check for opening position commands (3 words)
-      const words = processedQuery.split(/\s+/);
-      if (words.length === 3) {
-        const [side, symbol, amount] = words;
-        
-        // Check for LONG or SHORT (case insensitive)
-        if (side === 'LONG' || side === 'SHORT') {
-          const processedSymbol = symbol.includes('USDT') ? symbol : `${symbol}USDT`;
-          const notionalValue = amount.endsWith('K') ? parseInt(amount) * 1000 : parseInt(amount);
-          
-          // Open position
-          binanceService.placeOrder({
-            symbol: processedSymbol,
-            side: side === 'LONG' ? 'BUY' : 'SELL',
-            positionMode: positionMode,
-            type: 'MARKET',
-            leverage: notionalValue.toString()
-          }).catch(error => {
-            console.error('Order placement error:', error);
-            alert(`Could not place order: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          });
-          
-          setShowSpotlight(false);
-          return;
+  // A bare symbol matches it in the symbols, title or description
+  const applySymbolFilter = useCallback((searchSymbol: string) => {
+    applyNewsQuery(searchSymbol);
+
+    // Update TradingView chart
+    chartSymbolUpdateEvent.dispatchEvent(
+      new CustomEvent('symbolChange', { detail: searchSymbol })
+    );
+  }, [applyNewsQuery]);
+
+  const runSpotlightCommand = useCallback(async (command: SpotlightCommand) => {
+    switch (command.type) {
+      case 'search':
+        applySymbolFilter(command.symbol);
+        return;
+
+      case 'filter':
+        applyNewsQuery(command.query);
+        return;
+
+      case 'open': {
+        // Explicit SL/TP win over the symbol's trade button defaults
+        const defaults = getProtectionLevels(getSymbolTradeButtons(tradeButtons, globalTradeButtons, command.symbol));
+        const sendOrder = (confirmDuplicate: boolean) => binanceService.placeOrder({
+          symbol: command.symbol,
+          side: command.side,
+          positionMode: positionMode,
+          type: command.price ? 'LIMIT' : 'MARKET',
+          price: command.price?.toString(),
+          leverage: Math.round(command.notional).toString(),
+          stopLoss: command.stopLoss || defaults.stopLoss,
+          takeProfit: command.takeProfit || defaults.takeProfit,
+          confirmDuplicate
+        });
+
+        let result;
+        try {
+          result = await sendOrder(false);
+        } catch (error) {
+          if (!(error instanceof DuplicateOrderError)) throw error;
+          if (!confirm(`${error.message}. Send it again?`)) return;
+          result = await sendOrder(true);
+        }
+        if (result) {
+          showToast(`${command.side === 'BUY' ? 'LONG' : 'SHORT'} ${command.symbol} sent (${result.clientOrderId})`, 'success');
         }
+        return;
       }
-      
-      // Normal symbol search
-      const searchSymbol = processedQuery.includes('USDT') ? processedQuery : `${processedQuery}USDT`;
-      setFilteredSymbol(searchSymbol);
-      setShowFilterMessage(true);
-      setShowSpotlight(false);
-      
-      // Get all news and filter
-      const allNews = newsService.getAllNews();
-      const filteredNews = allNews.filter(item => {
-        const symbols = (item.symbol || '').split(',').map(s => s.trim().toUpperCase());
-        const titleMatch = (item.title || '').toUpperCase().includes(searchSymbol);
-        const descriptionMatch = (item.description || '').toUpperCase().includes(searchSymbol);
-        const symbolMatch = symbols.includes(searchSymbol);
-        
-        return symbolMatch || titleMatch || descriptionMatch;
-      });
-      
-      setNews(filteredNews);
-      setCurrentPage(1);
-      setTotalPages(Math.ceil(filteredNews.length / 20));
-
-      // Update TradingView chart
-      chartSymbolUpdateEvent.dispatchEvent(
-        new CustomEvent('symbolChange', { detail: searchSymbol })
-      );
+
+      case 'close': {
+        const symbolPositions = positions.filter(p => p.symbol === command.symbol);
+        if (symbolPositions.length === 0) {
+          throw new Error(`No open position on ${command.symbol}`);
+        }
+        await Promise.all(symbolPositions.map(position =>
+          binanceService.closePosition(position.id, 'MARKET', undefined, (position.size * command.percent) / 100)
+        ));
+        return;
+      }
+
+      case 'closeAll':
+        await binanceService.closeAllPositions();
+        return;
+
+      case 'leverage':
+        await binanceService.updateLeverage(command.symbol, command.leverage);
+        showToast(`${command.symbol} leverage set to ${command.leverage}x`, 'success');
+        return;
+
+      case 'margin':
+        await binanceService.updateMarginType(command.symbol, command.marginType);
+        showToast(`${command.symbol} margin set to ${command.marginType === 'ISOLATED' ? 'Isolated' : 'Cross'}`, 'success');
+        return;
+
+      case 'cancel':
+        await binanceService.cancelAllOrders(command.symbol);
+        showToast(`Open orders on ${command.symbol} cancelled`, 'success');
+        return;
     }
-  }, [positionMode]);
+  }, [applySymbolFilter, applyNewsQuery, positions, positionMode, tradeButtons, globalTradeButtons]);
+
+  const handleSpotlightCommand = useCallback((command: SpotlightCommand) => {
+    setShowSpotlight(false);
+    runSpotlightCommand(command).catch(error => {
+      console.error('Spotlight command failed:', error);
+      alert(`Could not run command: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }, [runSpotlightCommand]);
+
+  // Opens Spotlight with a limit order at a clicked order book price, sized
+  // like the symbol's first trade button so only the amount needs a look
+  const handleLimitOrderPrefill = useCallback((symbol: string, side: 'BUY' | 'SELL', price: string) => {
+    const buttons = getSymbolTradeButtons(tradeButtons, globalTradeButtons, symbol);
+    const notional = (side === 'BUY' ? buttons.long : buttons.short)[0] || '1K';
+    setInitialSpotlightValue(`${side === 'BUY' ? 'LONG' : 'SHORT'} ${symbol.replace(/USDT$/, '')} ${notional} @ ${price}`);
+    setShowSpotlight(true);
+  }, [tradeButtons, globalTradeButtons]);
 
   const handleSpotlightClose = useCallback(() => {
     setShowSpotlight(false);
@@ -222,32 +278,7 @@ function AppContent() {
     }
   }, [currentPage, news, loading]);
 
-  // Filter news based on symbol
-  const filteredNews = filteredSymbol
-    ? news.filter(item => {
-        // Split the symbol field by comma and convert to array
-        const symbols = (item.symbol || '').split(',').map(s => s.trim().toUpperCase());
-        
-        // Check for exact match in title and description
-        const titleMatch = (item.title || '').toUpperCase().includes(filteredSymbol);
-        const descriptionMatch = (item.description || '').toUpperCase().includes(filteredSymbol);
-        const symbolMatch = symbols.includes(filteredSymbol);
-        
-        // Show news if there's an exact match in any of these
-        return symbolMatch || titleMatch || descriptionMatch;
-      })
-    : news;
-
-  // Filter temizleme fonksiyonunu ekleyelim
-  const clearFilter = useCallback(() => {
-    setFilteredSymbol(null);
-    setShowFilterMessage(false);
-    // Reset news to original state
-    const allNews = newsService.getAllNews();
-    setNews(allNews.slice(0, 20));
-    setCurrentPage(1);
-    setTotalPages(Math.ceil(allNews.length / 20));
-  }, []);
+  const clearFilter = useCallback(() => applyNewsQuery(''), [applyNewsQuery]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-binance-black via-binance-darkgray to-binance-gray relative z-0">
@@ -263,7 +294,11 @@ function AppContent() {
               </h1>
             </div>
             <div className="flex items-center gap-3">
+              <NewsFilterMenu query={newsQuery} onApply={applyNewsQuery} />
+              <ProfileSwitcher />
               <ConnectionStatus />
+              <AutoTradingSwitch />
+              <KillSwitchButton />
               <button
                 onClick={() => setShowSpotlight(true)}
                 className="p-2 rounded-lg bg-binance-gray hover:bg-binance-lightgray transition-all transform hover:-translate-y-1 duration-200"
@@ -280,6 +315,9 @@ function AppContent() {
       {/* Position Header - same reduced padding */}
       <PositionHeader positions={positions} />
 
+      {/* Open Orders - resting limit and conditional orders */}
+      <OpenOrdersPanel />
+
       {/* Main Content - balanced padding and gap */}
       <main className="max-w-7xl mx-auto px-2 py-6 relative z-10">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -292,7 +330,7 @@ function AppContent() {
                 </div>
               ) : (
                 <>
-                  {filteredNews.map(item => (
+                  {news.map(item => (
                     <NewsCard 
                       key={item.id} 
                       news={item}
@@ -354,6 +392,19 @@ function AppContent() {
                       </button>
                     </div>
                   )}
+
+                  {/* Older history, paged in from the news API */}
+                  {currentPage >= totalPages && !newsQuery && (
+                    <div className="flex justify-center">
+                      <button
+                        onClick={handleLoadOlder}
+                        disabled={loadingOlder}
+                        className="px-3 py-1 rounded-lg text-sm bg-binance-black/50 text-binance-yellow hover:bg-binance-black/70 disabled:opacity-50 disabled:cursor-wait transition-colors"
+                      >
+                        {loadingOlder ? 'Loading...' : 'Load older news'}
+                      </button>
+                    </div>
+                  )}
                 </>
               )}
             </div>
@@ -361,18 +412,18 @@ function AppContent() {
           
           {/* Trading Panel */}
           <div className="lg:sticky lg:top-[calc(64px+var(--position-header-height,0px))] lg:h-[calc(100vh-7rem)] relative z-30">
-            <TradingPanel />
+            <TradingPanel onLimitOrderPrefill={handleLimitOrderPrefill} />
           </div>
         </div>
       </main>
 
       {/* Filter Message - Moved outside of the news feed container */}
-      {showFilterMessage && filteredSymbol && (
+      {newsQuery && (
         <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 z-[100]">
           <div className="bg-binance-black/90 backdrop-blur-sm border border-binance-yellow/20 rounded-lg px-4 py-2 shadow-lg">
             <div className="flex items-center gap-2 text-sm">
               <span className="text-binance-yellow">Filter:</span>
-              <span className="text-white">{filteredSymbol}</span>
+              <span className="text-white">{newsQuery}</span>
               <span className="hidden md:inline text-gray-400 text-xs">(Press ESC to clear)</span>
               <button
                 onClick={clearFilter}
@@ -390,7 +441,7 @@ function AppContent() {
       {showSpotlight && (
         <Spotlight
           initialValue={initialSpotlightValue}
-          onSearch={handleSpotlightSearch}
+          onCommand={handleSpotlightCommand}
           onClose={handleSpotlightClose}
         />
       )}
@@ -0,0 +1,387 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Plus, Pencil, Trash2 } from 'lucide-react';
+import { autoTradingService } from '../services/autoTradingService';
+import type { AutoTradeRule, AutoTradeLogEntry, NewsContentType } from '../types';
+
+interface AutoTradingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Rule as edited in the form, list fields are comma separated text
+interface RuleDraft {
+  rule: AutoTradeRule;
+  sources: string;
+  sourceNames: string;
+  symbols: string;
+  keywords: string;
+  notional: string;
+  maxNotional: string;
+  cooldownSeconds: string;
+  stopLossPercent: string;
+  takeProfitPercent: string;
+}
+
+const CONTENT_TYPES: NewsContentType[] = ['post', 'quote', 'retweet', 'reply'];
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const toDraft = (rule: AutoTradeRule): RuleDraft => ({
+  rule,
+  sources: rule.sources.join(', '),
+  sourceNames: rule.sourceNames.join(', '),
+  symbols: rule.symbols.join(', '),
+  keywords: rule.keywords.join(', '),
+  notional: rule.notional.toString(),
+  maxNotional: rule.maxNotional.toString(),
+  cooldownSeconds: rule.cooldownSeconds.toString(),
+  stopLossPercent: rule.stopLossPercent?.toString() || '',
+  takeProfitPercent: rule.takeProfitPercent?.toString() || ''
+});
+
+const inputClass = 'w-full bg-binance-gray text-white text-xs rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-binance-yellow';
+
+export function AutoTradingModal({
+  isOpen,
+  onClose
+}: AutoTradingModalProps) {
+  const [portalElement, setPortalElement] = useState<HTMLElement | null>(null);
+  const [rules, setRules] = useState<AutoTradeRule[]>(autoTradingService.getRules());
+  const [log, setLog] = useState<AutoTradeLogEntry[]>(autoTradingService.getLog());
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  // Create portal element on mount
+  useEffect(() => {
+    let element = document.getElementById('modal-root');
+    if (!element) {
+      element = document.createElement('div');
+      element.id = 'modal-root';
+      document.body.appendChild(element);
+    }
+    setPortalElement(element);
+
+    return () => {
+      if (element && element.parentNode && element.childNodes.length === 0) {
+        element.parentNode.removeChild(element);
+      }
+    };
+  }, []);
+
+  // Handle body scroll locking
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = '';
+    }
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    const unsubscribe = autoTradingService.onStateChange(() => {
+      setRules(autoTradingService.getRules());
+      setLog(autoTradingService.getLog());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    const notional = parseFloat(draft.notional);
+    const maxNotional = parseFloat(draft.maxNotional);
+    const cooldownSeconds = parseInt(draft.cooldownSeconds, 10);
+    const stopLossPercent = draft.stopLossPercent ? parseFloat(draft.stopLossPercent) : undefined;
+    const takeProfitPercent = draft.takeProfitPercent ? parseFloat(draft.takeProfitPercent) : undefined;
+
+    if (!draft.rule.name.trim()) {
+      alert('Please enter a rule name');
+      return;
+    }
+    if (!Number.isFinite(notional) || notional <= 0 || !Number.isFinite(maxNotional) || maxNotional < notional) {
+      alert('Notional must be positive and not exceed the 24h max notional');
+      return;
+    }
+    if (!Number.isFinite(cooldownSeconds) || cooldownSeconds < 0) {
+      alert('Please enter a valid cooldown');
+      return;
+    }
+    if ((stopLossPercent !== undefined && !(stopLossPercent > 0)) || (takeProfitPercent !== undefined && !(takeProfitPercent > 0))) {
+      alert('Stop-loss and take-profit must be positive percentages');
+      return;
+    }
+    if (draft.rule.regex) {
+      try {
+        new RegExp(draft.rule.regex, 'i');
+      } catch {
+        alert('Invalid regular expression');
+        return;
+      }
+    }
+
+    autoTradingService.saveRule({
+      ...draft.rule,
+      name: draft.rule.name.trim(),
+      regex: draft.rule.regex?.trim() || undefined,
+      sources: splitList(draft.sources),
+      sourceNames: splitList(draft.sourceNames),
+      symbols: splitList(draft.symbols).map(symbol => symbol.toUpperCase()),
+      keywords: splitList(draft.keywords),
+      notional,
+      maxNotional,
+      cooldownSeconds,
+      stopLossPercent,
+      takeProfitPercent
+    });
+    setDraft(null);
+  };
+
+  const handleDelete = (rule: AutoTradeRule) => {
+    if (confirm(`Delete rule "${rule.name}"?`)) {
+      autoTradingService.deleteRule(rule.id);
+    }
+  };
+
+  const toggleContentType = (type: NewsContentType) => {
+    if (!draft) return;
+    const contentTypes = draft.rule.contentTypes.includes(type)
+      ? draft.rule.contentTypes.filter(t => t !== type)
+      : [...draft.rule.contentTypes, type];
+    setDraft({ ...draft, rule: { ...draft.rule, contentTypes } });
+  };
+
+  const renderField = (label: string, key: Exclude<keyof RuleDraft, 'rule'>, placeholder?: string) => (
+    <label className="block">
+      <span className="text-xs text-gray-400">{label}</span>
+      <input
+        type="text"
+        value={draft ? draft[key] : ''}
+        placeholder={placeholder}
+        onChange={(e) => draft && setDraft({ ...draft, [key]: e.target.value })}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  if (!isOpen || !portalElement) return null;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center overflow-y-auto bg-black/50 backdrop-blur-md"
+    >
+      <div
+        className="fixed inset-0"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <div className="relative w-full max-w-2xl mx-auto p-2">
+        <div
+          className="relative bg-gradient-to-br from-binance-darkgray to-binance-black rounded-xl shadow-binance-card border border-binance-lightgray/20 z-[10000] overflow-hidden"
+          onClick={e => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="p-3 border-b border-binance-lightgray/20">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold text-white">Auto-Trading Rules</h2>
+              <button
+                onClick={onClose}
+                className="p-1 rounded-lg hover:bg-binance-gray transition-colors"
+              >
+                <X className="h-4 w-4 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+
+          <div className="p-4 max-h-[75vh] overflow-y-auto">
+            {draft ? (
+              <div className="space-y-3">
+                <label className="block">
+                  <span className="text-xs text-gray-400">Name</span>
+                  <input
+                    type="text"
+                    value={draft.rule.name}
+                    onChange={(e) => setDraft({ ...draft, rule: { ...draft.rule, name: e.target.value } })}
+                    className={inputClass}
+                  />
+                </label>
+
+                <div className="grid grid-cols-2 gap-3">
+                  {renderField('Sources', 'sources', 'Any source')}
+                  {renderField('Source names', 'sourceNames', 'Any account')}
+                  {renderField('Symbols', 'symbols', 'Any symbol in the news, e.g. BTC, ETH')}
+                  {renderField('Keywords', 'keywords', 'Any text, e.g. listing, etf')}
+                </div>
+
+                <label className="block">
+                  <span className="text-xs text-gray-400">Regex (case-insensitive)</span>
+                  <input
+                    type="text"
+                    value={draft.rule.regex || ''}
+                    onChange={(e) => setDraft({ ...draft, rule: { ...draft.rule, regex: e.target.value } })}
+                    className={inputClass}
+                  />
+                </label>
+
+                <div>
+                  <span className="text-xs text-gray-400">Content types</span>
+                  <div className="flex gap-2 mt-1">
+                    {CONTENT_TYPES.map(type => (
+                      <button
+                        key={type}
+                        onClick={() => toggleContentType(type)}
+                        className={`px-3 py-1 text-xs font-bold rounded-lg transition capitalize ${
+                          draft.rule.contentTypes.includes(type)
+                            ? 'bg-binance-yellow text-binance-black'
+                            : 'bg-binance-gray text-gray-300 hover:bg-binance-lightgray'
+                        }`}
+                      >
+                        {type}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1 italic">None selected matches every type.</p>
+                </div>
+
+                <div className="flex items-center gap-3 bg-binance-gray p-2 rounded-lg">
+                  {(['BUY', 'SELL'] as const).map(side => (
+                    <button
+                      key={side}
+                      onClick={() => setDraft({ ...draft, rule: { ...draft.rule, side } })}
+                      className={`flex-1 px-3 py-1.5 text-xs font-bold rounded-lg transition ${
+                        draft.rule.side === side
+                          ? side === 'BUY' ? 'bg-binance-green text-white' : 'bg-binance-red text-white'
+                          : 'bg-binance-darkgray text-gray-300 hover:bg-binance-lightgray'
+                      }`}
+                    >
+                      {side === 'BUY' ? 'Long' : 'Short'}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  {renderField('Notional (USDT)', 'notional')}
+                  {renderField('Max per 24h (USDT)', 'maxNotional')}
+                  {renderField('Cooldown (s)', 'cooldownSeconds')}
+                  {renderField('Stop-loss %', 'stopLossPercent', 'None')}
+                  {renderField('Take-profit %', 'takeProfitPercent', 'None')}
+                </div>
+
+                <div className="flex justify-end gap-2 pt-2">
+                  <button
+                    onClick={() => setDraft(null)}
+                    className="px-3 py-1.5 text-xs font-bold rounded-lg bg-binance-gray text-gray-300 hover:bg-binance-lightgray"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    className="px-3 py-1.5 text-xs font-bold rounded-lg bg-binance-yellow text-binance-black hover:bg-binance-yellow/90"
+                  >
+                    Save Rule
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <div className="mb-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-medium text-gray-400">Rules</h3>
+                    <button
+                      onClick={() => setDraft(toDraft(autoTradingService.createRule()))}
+                      className="flex items-center gap-1 px-2 py-1 text-xs font-bold rounded-lg bg-binance-yellow text-binance-black hover:bg-binance-yellow/90"
+                    >
+                      <Plus className="w-3 h-3" /> Add Rule
+                    </button>
+                  </div>
+
+                  {rules.length === 0 ? (
+                    <p className="text-xs text-gray-500 italic">No rules yet.</p>
+                  ) : (
+                    <div className="space-y-1.5">
+                      {rules.map(rule => (
+                        <div key={rule.id} className="flex items-center gap-2 bg-binance-gray/60 rounded-lg px-2 py-1.5">
+                          <input
+                            type="checkbox"
+                            checked={rule.enabled}
+                            onChange={(e) => autoTradingService.setRuleEnabled(rule.id, e.target.checked)}
+                            className="accent-binance-yellow"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <div className="text-xs font-medium text-white truncate">{rule.name}</div>
+                            <div className="text-xs text-gray-400 truncate">
+                              <span className={rule.side === 'BUY' ? 'text-binance-green' : 'text-binance-red'}>
+                                {rule.side === 'BUY' ? 'LONG' : 'SHORT'}
+                              </span>
+                              {' '}{rule.notional} USDT · {rule.symbols.length > 0 ? rule.symbols.join(', ') : 'any symbol'}
+                              {rule.keywords.length > 0 && ` · ${rule.keywords.join(', ')}`}
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => setDraft(toDraft(rule))}
+                            className="p-1 rounded bg-binance-gray text-gray-300 hover:text-binance-yellow"
+                            title="Edit"
+                          >
+                            <Pencil className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(rule)}
+                            className="p-1 rounded bg-binance-gray text-gray-300 hover:text-binance-red"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-medium text-gray-400">Activity</h3>
+                    {log.length > 0 && (
+                      <button
+                        onClick={() => autoTradingService.clearLog()}
+                        className="text-xs text-gray-400 hover:text-binance-red"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+
+                  {log.length === 0 ? (
+                    <p className="text-xs text-gray-500 italic">Nothing fired yet.</p>
+                  ) : (
+                    <div className="space-y-1 max-h-[30vh] overflow-y-auto">
+                      {log.map(entry => (
+                        <div key={entry.id} className="text-xs bg-binance-gray/40 rounded px-2 py-1">
+                          <div className="flex items-center gap-2">
+                            <span className="text-gray-500">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                            <span className={
+                              entry.status === 'placed' ? 'text-binance-green' : entry.status === 'failed' ? 'text-binance-red' : 'text-gray-400'
+                            }>
+                              {entry.status.toUpperCase()}
+                            </span>
+                            <span className="text-white">{entry.side === 'BUY' ? 'LONG' : 'SHORT'} {entry.symbol} {entry.notional} USDT</span>
+                            <span className="text-gray-400 truncate">{entry.ruleName}</span>
+                          </div>
+                          <div className="text-gray-400 truncate">{entry.newsTitle}</div>
+                          {entry.message && <div className="text-gray-500 truncate">{entry.message}</div>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>,
+    portalElement
+  );
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { Zap, Settings2 } from 'lucide-react';
+import { autoTradingService } from '../services/autoTradingService';
+import { useSettings } from '../context/SettingsContext';
+import { AutoTradingModal } from './AutoTradingModal';
+
+export function AutoTradingSwitch() {
+  const { canTrade, isPaperTrading } = useSettings();
+  const [armed, setArmed] = useState(autoTradingService.isArmed());
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = autoTradingService.onStateChange(() => {
+      setArmed(autoTradingService.isArmed());
+    });
+    return () => unsubscribe();
+  }, []);
+
+  // Never keep firing once the account goes away
+  useEffect(() => {
+    if (!canTrade) {
+      autoTradingService.disarm();
+    }
+  }, [canTrade]);
+
+  const handleToggle = () => {
+    if (armed) {
+      autoTradingService.disarm();
+      return;
+    }
+
+    const enabledRules = autoTradingService.getRules().filter(rule => rule.enabled).length;
+    if (enabledRules === 0) {
+      alert('Enable at least one auto-trading rule first');
+      setShowModal(true);
+      return;
+    }
+
+    const account = isPaperTrading ? 'the paper account' : 'your LIVE Binance account';
+    if (confirm(`Arm auto-trading? ${enabledRules} enabled rule(s) will place orders on ${account} without confirmation.`)) {
+      autoTradingService.arm();
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center rounded-lg bg-binance-gray overflow-hidden">
+        <button
+          onClick={handleToggle}
+          disabled={!canTrade}
+          className={`flex items-center gap-1 px-2 py-2 text-xs font-bold transition disabled:opacity-50 disabled:cursor-not-allowed ${
+            armed ? 'bg-binance-yellow text-binance-black' : 'text-gray-300 hover:bg-binance-lightgray'
+          }`}
+          title={armed ? 'Disarm auto-trading' : 'Arm auto-trading'}
+        >
+          <Zap className={`h-4 w-4 ${armed ? 'animate-pulse' : 'text-binance-yellow'}`} />
+          <span className="hidden md:inline">{armed ? 'Armed' : 'Auto'}</span>
+        </button>
+        <button
+          onClick={() => setShowModal(true)}
+          className="px-1.5 py-2 text-gray-400 hover:text-white hover:bg-binance-lightgray transition"
+          aria-label="Auto-trading rules"
+        >
+          <Settings2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      <AutoTradingModal isOpen={showModal} onClose={() => setShowModal(false)} />
+    </>
+  );
+}
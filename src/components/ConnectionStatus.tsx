@@ -1,16 +1,33 @@
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState } from 'react';
 import { Wifi, WifiOff, BookOpen, Rss } from 'lucide-react';
 import { binanceService } from '../services/binanceService';
 import { useSettings } from '../context/SettingsContext';
 import { newsService } from '../services/newsService';
+import { websocketConfig } from '../config/websocket';
+import type { ClockSkew, NewsOutage, RateLimitState, RateLimitUsage, RequestActivity } from '../types';
+
+// Drift is corrected on every signed request, a large one still hints at an unstable clock
+const CLOCK_DRIFT_WARNING_MS = 1000;
+
+const getUsageRatio = (usage: RateLimitUsage) => (usage.limit > 0 ? usage.count / usage.limit : 0);
+
+const getUsageColor = (ratio: number) => {
+  if (ratio >= websocketConfig.rateLimits.queueThreshold) return 'bg-binance-red';
+  if (ratio >= websocketConfig.rateLimits.shedThreshold) return 'bg-binance-yellow';
+  return 'bg-binance-green';
+};
 
 export function ConnectionStatus() {
   const [binanceStatus, setBinanceStatus] = useState<'connecting' | 'connected' | 'disconnected'>('disconnected');
   const [newsStatus, setNewsStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
   const [showBinanceFull, setShowBinanceFull] = useState(false);
   const [showNewsFull, setShowNewsFull] = useState(false);
-  const lastResponseTime = useRef<number>(0);
-  const { apiKey, apiSecret } = useSettings();
+  const [clockSkew, setClockSkew] = useState<ClockSkew | null>(null);
+  const [requestActivity, setRequestActivity] = useState<RequestActivity>({ inFlight: 0, unknownOrders: 0 });
+  const [rateLimits, setRateLimits] = useState<RateLimitState | null>(null);
+  const [showRateLimits, setShowRateLimits] = useState(false);
+  const [lastNewsOutage, setLastNewsOutage] = useState<NewsOutage | null>(null);
+  const { apiKey, apiSecret, canTrade, isPaperTrading } = useSettings();
   
   // Binance tam metin gösterildikten 2 saniye sonra otomatik kapanma
   useEffect(() => {
@@ -43,29 +60,31 @@ export function ConnectionStatus() {
   }, [showNewsFull]);
   
   useEffect(() => {
-    // Monitor Binance WebSocket connection status
+    // Monitor Binance WebSocket connection status. Balance updates are now
+    // pushed only when the account changes, so silence does not mean a drop.
     const unsubscribe = binanceService.onConnectionStatusChange(setBinanceStatus);
     
-    // Set up a heartbeat check to verify actual active communication
-    const heartbeatInterval = setInterval(() => {
-      const now = Date.now();
-      // If we haven't received a response in 10 seconds, consider disconnected
-      if (lastResponseTime.current && now - lastResponseTime.current > 10000) {
-        setBinanceStatus('disconnected');
-      }
-    }, 2000);
-    
     return () => {
       unsubscribe();
-      clearInterval(heartbeatInterval);
     };
   }, []);
 
+  useEffect(() => {
+    return binanceService.onClockSkewChange(setClockSkew);
+  }, []);
+
+  useEffect(() => {
+    return binanceService.onRequestActivityChange(setRequestActivity);
+  }, []);
+
+  useEffect(() => {
+    return binanceService.onRateLimitChange(setRateLimits);
+  }, []);
+
   useEffect(() => {
     // Track successful API responses to confirm connection is working
     const unsubscribe = binanceService.onBalanceUpdate((balances) => {
       if (balances) {
-        lastResponseTime.current = Date.now();
         setBinanceStatus('connected');
       }
     });
@@ -75,11 +94,10 @@ export function ConnectionStatus() {
   
   // When credentials change, update connection status
   useEffect(() => {
-    if (apiKey && apiSecret) {
+    if (canTrade) {
       setBinanceStatus('connecting');
       binanceService.fetchBalance()
         .then(() => {
-          lastResponseTime.current = Date.now();
           setBinanceStatus('connected');
         })
         .catch(() => {
@@ -88,29 +106,37 @@ export function ConnectionStatus() {
     } else {
       setBinanceStatus('disconnected');
     }
-  }, [apiKey, apiSecret]);
+  }, [canTrade, isPaperTrading]);
 
   // Monitor News WebSocket connection status
   useEffect(() => {
     // Regularly check news service connection status
     const interval = setInterval(() => {
       setNewsStatus(newsService.getConnectionStatus());
+      setLastNewsOutage(newsService.getOutages()[0] ?? null);
     }, 2000);
     
     // Initial status check
     setNewsStatus(newsService.getConnectionStatus());
+    setLastNewsOutage(newsService.getOutages()[0] ?? null);
     
     return () => clearInterval(interval);
   }, []);
 
   const hasCredentials = !!(apiKey && apiSecret);
+  const weightRatio = Math.max(0, ...(rateLimits?.windows ?? [])
+    .filter(usage => usage.type === 'REQUEST_WEIGHT')
+    .map(getUsageRatio));
+  const isRateLimited = weightRatio >= websocketConfig.rateLimits.shedThreshold || !!rateLimits?.blockedUntil;
 
   return (
     <div className="bg-binance-black/80 backdrop-blur-sm rounded-full py-1.5 px-3 flex items-center gap-2 border border-binance-lightgray/20">
       {/* Binance WebSocket Status */}
       <div 
-        className="flex items-center gap-1 cursor-pointer"
+        className="relative flex items-center gap-1 cursor-pointer"
         onClick={() => setShowBinanceFull(prev => !prev)}
+        onMouseEnter={() => setShowRateLimits(true)}
+        onMouseLeave={() => setShowRateLimits(false)}
       >
         {binanceStatus === 'connected' ? (
           <div className="relative">
@@ -129,20 +155,91 @@ export function ConnectionStatus() {
               ? 'text-binance-yellow' 
               : 'text-binance-red'
         }`}>
-          {showBinanceFull ? 'Binance' : (
+          {showBinanceFull ? (isPaperTrading ? 'Paper' : 'Binance') : (
             <>
-              <span className="md:hidden">B</span>
-              <span className="hidden md:inline">Binance</span>
+              <span className="md:hidden">{isPaperTrading ? 'P' : 'B'}</span>
+              <span className="hidden md:inline">{isPaperTrading ? 'Paper' : 'Binance'}</span>
             </>
           )}
           {binanceStatus === 'connecting' && '...'}
         </span>
+        {clockSkew && !isPaperTrading && (
+          <span
+            className={`hidden md:inline text-[10px] ${
+              Math.abs(clockSkew.offsetMs) > CLOCK_DRIFT_WARNING_MS ? 'text-binance-red' : 'text-gray-500'
+            }`}
+            title={`Local clock is ${Math.abs(clockSkew.offsetMs)}ms ${clockSkew.offsetMs >= 0 ? 'ahead of' : 'behind'} Binance server time (RTT ${clockSkew.rttMs}ms). Signed requests are corrected for it.`}
+          >
+            {clockSkew.offsetMs > 0 ? '+' : ''}{clockSkew.offsetMs}ms
+          </span>
+        )}
+        {requestActivity.inFlight > 0 && (
+          <span
+            className="text-[10px] text-binance-yellow"
+            title={`${requestActivity.inFlight} request(s) waiting for Binance to respond`}
+          >
+            {requestActivity.inFlight}↻
+          </span>
+        )}
+        {requestActivity.unknownOrders > 0 && (
+          <span
+            className="text-[10px] text-binance-red"
+            title={`${requestActivity.unknownOrders} order(s) got no response, they are looked up once the connection is back`}
+          >
+            {requestActivity.unknownOrders}?
+          </span>
+        )}
+        {isRateLimited && !isPaperTrading && (
+          <span
+            className={`text-[10px] ${weightRatio >= websocketConfig.rateLimits.queueThreshold || rateLimits?.blockedUntil ? 'text-binance-red' : 'text-binance-yellow'}`}
+            title="Request weight used in the current Binance rate limit window"
+          >
+            {rateLimits?.blockedUntil ? '429' : `${Math.round(weightRatio * 100)}%`}
+          </span>
+        )}
+
+        {/* Rate limit usage */}
+        {(showRateLimits || showBinanceFull) && rateLimits && !isPaperTrading && (
+          <div className="absolute top-full left-0 mt-2 w-56 p-2 rounded-lg bg-binance-darkgray border border-binance-lightgray/20 shadow-binance-card z-50 cursor-default">
+            <div className="text-[10px] text-gray-400 mb-1">Binance rate limits</div>
+            {rateLimits.windows.map(usage => {
+              const ratio = getUsageRatio(usage);
+              return (
+                <div key={`${usage.type}-${usage.window}`} className="mb-1">
+                  <div className="flex justify-between text-[10px]">
+                    <span className="text-gray-300">{usage.type === 'REQUEST_WEIGHT' ? 'Weight' : 'Orders'} / {usage.window}</span>
+                    <span className="text-white">{usage.count} / {usage.limit}</span>
+                  </div>
+                  <div className="h-1 rounded-full bg-binance-gray overflow-hidden">
+                    <div
+                      className={`h-full ${getUsageColor(ratio)}`}
+                      style={{ width: `${Math.min(ratio * 100, 100)}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+            {rateLimits.blockedUntil && (
+              <div className="text-[10px] text-binance-red">
+                Backing off until {new Date(rateLimits.blockedUntil).toLocaleTimeString()}
+              </div>
+            )}
+            {(rateLimits.queued > 0 || rateLimits.shed > 0) && (
+              <div className="text-[10px] text-gray-400">
+                {rateLimits.queued} queued, {rateLimits.shed} polls skipped
+              </div>
+            )}
+          </div>
+        )}
       </div>
       
       {/* News WebSocket Status */}
       <div 
         className="flex items-center gap-1 cursor-pointer"
         onClick={() => setShowNewsFull(prev => !prev)}
+        title={lastNewsOutage
+          ? `Last outage ${new Date(lastNewsOutage.start).toLocaleTimeString()} – ${new Date(lastNewsOutage.end).toLocaleTimeString()}, ${lastNewsOutage.backfilled} item(s) backfilled`
+          : undefined}
       >
         {newsStatus === 'connected' ? (
           <div className="relative">
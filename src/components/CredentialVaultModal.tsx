@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Lock, X } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+
+export type VaultModalMode = 'unlock' | 'migrate' | 'change';
+
+interface CredentialVaultModalProps {
+  isOpen: boolean;
+  mode: VaultModalMode;
+  onClose: () => void;
+}
+
+const TITLES: Record<VaultModalMode, string> = {
+  unlock: 'Unlock Saved API Keys',
+  migrate: 'Protect Saved API Keys',
+  change: 'Change Vault Passphrase'
+};
+
+const inputClassName = 'w-full px-3 py-1.5 text-xs rounded bg-binance-gray text-white outline-none focus:ring-1 focus:ring-binance-yellow';
+
+export function CredentialVaultModal({
+  isOpen,
+  mode,
+  onClose
+}: CredentialVaultModalProps) {
+  const {
+    apiKey,
+    apiSecret,
+    keyType,
+    network,
+    unlockVault,
+    changeVaultPassphrase,
+    setApiCredentials,
+    clearCachedCredentials
+  } = useSettings();
+  const [portalElement, setPortalElement] = useState<HTMLElement | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  // Create portal element on mount
+  useEffect(() => {
+    let element = document.getElementById('modal-root');
+    if (!element) {
+      element = document.createElement('div');
+      element.id = 'modal-root';
+      document.body.appendChild(element);
+    }
+    setPortalElement(element);
+
+    return () => {
+      if (element && element.parentNode && element.childNodes.length === 0) {
+        element.parentNode.removeChild(element);
+      }
+    };
+  }, []);
+
+  // Never keep a typed passphrase around once the modal closes
+  useEffect(() => {
+    if (!isOpen) {
+      setPassphrase('');
+      setNewPassphrase('');
+      setConfirmPassphrase('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const needsNewPassphrase = mode !== 'unlock';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (needsNewPassphrase && newPassphrase !== confirmPassphrase) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      setError(null);
+      if (mode === 'unlock') {
+        await unlockVault(passphrase);
+      } else if (mode === 'migrate') {
+        await setApiCredentials(apiKey, apiSecret, network, keyType, newPassphrase);
+      } else {
+        await changeVaultPassphrase(passphrase, newPassphrase);
+      }
+      onClose();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleForget = () => {
+    if (confirm('Delete the saved API keys from this browser? You will need to enter them again.')) {
+      clearCachedCredentials();
+      onClose();
+    }
+  };
+
+  if (!isOpen || !portalElement) return null;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center overflow-y-auto bg-black/50 backdrop-blur-md"
+    >
+      <div
+        className="fixed inset-0"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <div className="relative w-full max-w-sm mx-auto p-2">
+        <div
+          className="relative bg-gradient-to-br from-binance-darkgray to-binance-black rounded-xl shadow-binance-card border border-binance-lightgray/20 z-[10000] overflow-hidden"
+          onClick={e => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="p-3 border-b border-binance-lightgray/20">
+            <div className="flex items-center justify-between">
+              <h2 className="flex items-center gap-2 text-lg font-bold text-white">
+                <Lock className="h-4 w-4 text-binance-yellow" />
+                {TITLES[mode]}
+              </h2>
+              <button
+                onClick={onClose}
+                className="p-1 rounded-lg hover:bg-binance-gray transition-colors"
+              >
+                <X className="h-4 w-4 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-4 space-y-3">
+            <p className="text-xs text-gray-400">
+              {mode === 'unlock' && 'Your API keys are encrypted with your passphrase. Unlock them to connect to Binance.'}
+              {mode === 'migrate' && 'Your API keys were saved with a built-in key anyone with access to this browser can read. Choose a passphrase to encrypt them.'}
+              {mode === 'change' && 'Your API keys will be encrypted again under the new passphrase.'}
+            </p>
+
+            {mode !== 'migrate' && (
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                className={inputClassName}
+                placeholder={mode === 'change' ? 'Current passphrase' : 'Passphrase'}
+                autoFocus
+              />
+            )}
+            {needsNewPassphrase && (
+              <>
+                <input
+                  type="password"
+                  value={newPassphrase}
+                  onChange={(e) => setNewPassphrase(e.target.value)}
+                  className={inputClassName}
+                  placeholder="New passphrase"
+                  autoFocus={mode === 'migrate'}
+                />
+                <input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  className={inputClassName}
+                  placeholder="Confirm new passphrase"
+                />
+              </>
+            )}
+
+            {error && <div className="text-xs text-binance-red">{error}</div>}
+
+            <button
+              type="submit"
+              disabled={isBusy || (mode === 'migrate' ? !newPassphrase : !passphrase)}
+              className="w-full px-3 py-2 text-sm font-bold rounded-lg bg-binance-yellow text-binance-black hover:bg-binance-yellow/90 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isBusy ? 'Working...' : mode === 'unlock' ? 'Unlock' : mode === 'migrate' ? 'Encrypt Keys' : 'Change Passphrase'}
+            </button>
+
+            {mode !== 'change' && (
+              <button
+                type="button"
+                onClick={handleForget}
+                className="w-full text-xs text-gray-500 hover:text-binance-red transition-colors"
+              >
+                {mode === 'unlock' ? 'Forgot passphrase? Delete saved keys' : 'Delete saved keys instead'}
+              </button>
+            )}
+          </form>
+        </div>
+      </div>
+    </div>,
+    portalElement
+  );
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { AlertOctagon } from 'lucide-react';
+import { binanceService } from '../services/binanceService';
+import { useSettings } from '../context/SettingsContext';
+import { RiskConfigModal } from './RiskConfigModal';
+
+// Header button that opens risk management, red while the kill switch is tripped
+export function KillSwitchButton() {
+  const { canTrade } = useSettings();
+  const [killSwitchActive, setKillSwitchActive] = useState(() => binanceService.getRiskState().killSwitchActive);
+  const [showModal, setShowModal] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = binanceService.onRiskStateChange(state => {
+      setKillSwitchActive(state.killSwitchActive);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  if (!canTrade && !killSwitchActive) return null;
+
+  return (
+    <>
+      <button
+        onClick={() => setShowModal(true)}
+        className={`flex items-center gap-1 p-2 rounded-lg transition ${
+          killSwitchActive
+            ? 'bg-binance-red text-white animate-pulse'
+            : 'bg-binance-gray text-binance-red hover:bg-binance-lightgray'
+        }`}
+        title={killSwitchActive ? 'Kill switch active' : 'Risk management and kill switch'}
+      >
+        <AlertOctagon className="h-4 w-4" />
+        {killSwitchActive && <span className="hidden md:inline text-xs font-bold">Halted</span>}
+      </button>
+
+      <RiskConfigModal isOpen={showModal} onClose={() => setShowModal(false)} />
+    </>
+  );
+}
@@ -0,0 +1,221 @@
+import { useCallback, useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, RefreshCw } from 'lucide-react';
+import { latencyMonitor, getLatencySegments, LATENCY_SEGMENTS } from '../services/latencyMonitor';
+import { binanceService } from '../services/binanceService';
+import type { ClockSkew, LatencySegment, LatencyStats, NewsLatencySample } from '../types';
+
+interface LatencyDiagnosticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SEGMENT_LABELS: Record<LatencySegment, string> = {
+  receipt: 'Publish → receipt',
+  render: 'Receipt → render',
+  reaction: 'Render → click',
+  dispatch: 'Click → order sent',
+  exchange: 'Sent → exchange ack',
+  total: 'Publish → ack'
+};
+
+const formatMs = (ms: number | undefined) => {
+  if (ms === undefined) return '—';
+  return Math.abs(ms) < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+};
+
+export function LatencyDiagnosticsModal({
+  isOpen,
+  onClose
+}: LatencyDiagnosticsModalProps) {
+  const [portalElement, setPortalElement] = useState<HTMLElement | null>(null);
+  const [samples, setSamples] = useState<NewsLatencySample[]>([]);
+  const [stats, setStats] = useState<Record<LatencySegment, LatencyStats | null> | null>(null);
+  const [clockSkew, setClockSkew] = useState<ClockSkew | null>(() => binanceService.getClockSkew());
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [skewError, setSkewError] = useState<string | null>(null);
+
+  // Create portal element on mount
+  useEffect(() => {
+    let element = document.getElementById('modal-root');
+    if (!element) {
+      element = document.createElement('div');
+      element.id = 'modal-root';
+      document.body.appendChild(element);
+    }
+    setPortalElement(element);
+
+    return () => {
+      if (element && element.parentNode && element.childNodes.length === 0) {
+        element.parentNode.removeChild(element);
+      }
+    };
+  }, []);
+
+  // Handle body scroll locking
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = '';
+    }
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  const measureClockSkew = useCallback(async () => {
+    try {
+      setIsMeasuring(true);
+      setSkewError(null);
+      await binanceService.syncServerTime();
+    } catch (error) {
+      setSkewError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsMeasuring(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const update = () => {
+      setSamples(latencyMonitor.getSamples());
+      setStats(latencyMonitor.getStats());
+    };
+    update();
+    measureClockSkew();
+    const unsubscribe = latencyMonitor.onChange(update);
+    const unsubscribeClockSkew = binanceService.onClockSkewChange(setClockSkew);
+    return () => {
+      unsubscribe();
+      unsubscribeClockSkew();
+    };
+  }, [isOpen, measureClockSkew]);
+
+  if (!isOpen || !portalElement) return null;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center overflow-y-auto bg-black/50 backdrop-blur-md"
+    >
+      <div
+        className="fixed inset-0"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <div className="relative w-full max-w-3xl mx-auto p-2">
+        <div
+          className="relative bg-gradient-to-br from-binance-darkgray to-binance-black rounded-xl shadow-binance-card border border-binance-lightgray/20 z-[10000] overflow-hidden"
+          onClick={e => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="p-3 border-b border-binance-lightgray/20">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold text-white">Latency Diagnostics</h2>
+              <button
+                onClick={onClose}
+                className="p-1 rounded-lg hover:bg-binance-gray transition-colors"
+              >
+                <X className="h-4 w-4 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+
+          <div className="p-4 max-h-[75vh] overflow-y-auto space-y-4">
+            {/* Clock skew */}
+            <div className="flex items-center justify-between text-xs bg-binance-gray/40 rounded px-2 py-1.5">
+              <div className="text-gray-400">
+                Clock skew vs Binance:{' '}
+                {skewError ? (
+                  <span className="text-binance-red">{skewError}</span>
+                ) : clockSkew ? (
+                  <>
+                    <span className={Math.abs(clockSkew.offsetMs) > 500 ? 'text-binance-red' : 'text-white'}>
+                      local clock {formatMs(Math.abs(clockSkew.offsetMs))} {clockSkew.offsetMs >= 0 ? 'ahead' : 'behind'}
+                    </span>
+                    <span className="text-gray-500"> (±{formatMs(clockSkew.rttMs / 2)}, RTT {formatMs(clockSkew.rttMs)})</span>
+                  </>
+                ) : (
+                  <span className="text-gray-500">not measured</span>
+                )}
+              </div>
+              <button
+                onClick={measureClockSkew}
+                disabled={isMeasuring}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-50"
+                title="Measure again"
+              >
+                <RefreshCw className={`w-3 h-3 ${isMeasuring ? 'animate-spin' : ''}`} />
+              </button>
+            </div>
+
+            {/* Rolling statistics */}
+            <div>
+              <h3 className="text-sm font-medium text-white mb-2">
+                Last {samples.length} live news items
+              </h3>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="font-normal py-1">Stage</th>
+                    <th className="font-normal py-1 text-right">Median</th>
+                    <th className="font-normal py-1 text-right">p95</th>
+                    <th className="font-normal py-1 text-right">Samples</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {LATENCY_SEGMENTS.map(segment => {
+                    const segmentStats = stats?.[segment];
+                    return (
+                      <tr key={segment} className={`border-t border-binance-lightgray/10 ${segment === 'total' ? 'font-bold' : ''}`}>
+                        <td className="py-1 text-gray-300">{SEGMENT_LABELS[segment]}</td>
+                        <td className="py-1 text-right text-white">{formatMs(segmentStats?.median)}</td>
+                        <td className="py-1 text-right text-white">{formatMs(segmentStats?.p95)}</td>
+                        <td className="py-1 text-right text-gray-400">{segmentStats?.count ?? 0}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="text-[10px] text-gray-500 mt-1">
+                Publish times come from the news server's clock, receipt and later stages from this machine's. Auto-trading rules react to the receipt instead of the render.
+              </p>
+            </div>
+
+            {/* Per-item timelines */}
+            {samples.length === 0 ? (
+              <p className="text-xs text-gray-500 italic">
+                Waiting for live news. Items loaded from history are not timed.
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {samples.map(sample => {
+                  const segments = getLatencySegments(sample);
+                  return (
+                    <div key={sample.newsId} className="text-xs bg-binance-gray/40 rounded px-2 py-1">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="text-gray-500 flex-shrink-0">{new Date(sample.receivedAt).toLocaleTimeString()}</span>
+                        <span className="px-1.5 rounded-full bg-binance-yellow/10 text-binance-yellow flex-shrink-0">{sample.source}</span>
+                        <span className="text-gray-300 truncate">{sample.title}</span>
+                      </div>
+                      <div className="flex flex-wrap gap-x-3 text-gray-400">
+                        {LATENCY_SEGMENTS.map(segment => segments[segment] !== undefined && (
+                          <span key={segment}>
+                            {SEGMENT_LABELS[segment]} <span className="text-white">{formatMs(segments[segment])}</span>
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>,
+    portalElement
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { newsImpactService, buildImpactLeaderboard } from '../services/newsImpact';
+import { newsService } from '../services/newsService';
+import { websocketConfig } from '../config/websocket';
+import type { ImpactLeaderboardGrouping, ImpactLeaderboardRow, NewsImpactRecord } from '../types';
+
+interface NewsAnalyticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type SortKey = keyof Pick<ImpactLeaderboardRow, 'meanMove' | 'medianMove' | 'hitRate' | 'samples'>;
+
+const inputClass = 'bg-binance-gray text-white text-xs rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-binance-yellow';
+
+const GROUPINGS: { value: ImpactLeaderboardGrouping; label: string }[] = [
+  { value: 'source', label: 'By source' },
+  { value: 'sourceName', label: 'By account' },
+  { value: 'symbol', label: 'By symbol' }
+];
+
+const SORT_KEYS: { value: SortKey; label: string }[] = [
+  { value: 'medianMove', label: 'Median move' },
+  { value: 'meanMove', label: 'Mean move' },
+  { value: 'hitRate', label: 'Hit rate' },
+  { value: 'samples', label: 'Samples' }
+];
+
+const formatHorizon = (minutes: number) => (minutes >= 60 ? `+${minutes / 60}h` : `+${minutes}m`);
+
+export function NewsAnalyticsModal({
+  isOpen,
+  onClose
+}: NewsAnalyticsModalProps) {
+  const [portalElement, setPortalElement] = useState<HTMLElement | null>(null);
+  const [records, setRecords] = useState<NewsImpactRecord[]>(() => newsImpactService.getRecords());
+  const [grouping, setGrouping] = useState<ImpactLeaderboardGrouping>('source');
+  const [horizon, setHorizon] = useState(websocketConfig.newsImpact.horizons[1] ?? websocketConfig.newsImpact.horizons[0]);
+  const [threshold, setThreshold] = useState(websocketConfig.newsImpact.hitThreshold);
+  const [sortKey, setSortKey] = useState<SortKey>('medianMove');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  // Only the latest run may report its end, an older one ends when it starts
+  const backfillRunRef = useRef(0);
+
+  // Create portal element on mount
+  useEffect(() => {
+    let element = document.getElementById('modal-root');
+    if (!element) {
+      element = document.createElement('div');
+      element.id = 'modal-root';
+      document.body.appendChild(element);
+    }
+    setPortalElement(element);
+
+    return () => {
+      if (element && element.parentNode && element.childNodes.length === 0) {
+        element.parentNode.removeChild(element);
+      }
+    };
+  }, []);
+
+  // Handle body scroll locking
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = '';
+    }
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRecords(newsImpactService.getRecords());
+    const unsubscribe = newsImpactService.onRecordsChange(setRecords);
+    return () => {
+      unsubscribe();
+      // Nobody is watching the progress any more
+      newsImpactService.stopBackfill();
+    };
+  }, [isOpen]);
+
+  const rows = useMemo(
+    () => buildImpactLeaderboard(records, grouping, horizon, threshold).sort((a, b) => b[sortKey] - a[sortKey]),
+    [records, grouping, horizon, threshold, sortKey]
+  );
+
+  const measured = useMemo(() => records.filter(record => record.impact).length, [records]);
+
+  const startBackfill = () => {
+    const run = ++backfillRunRef.current;
+    setIsBackfilling(true);
+    newsImpactService.backfill(newsService.getAllNews(), (done, total) => setProgress({ done, total }))
+      .catch(error => {
+        if (run !== backfillRunRef.current) return;
+        alert(`Backfill stopped: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      })
+      .finally(() => {
+        if (run === backfillRunRef.current) setIsBackfilling(false);
+      });
+  };
+
+  if (!isOpen || !portalElement) return null;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center overflow-y-auto bg-black/50 backdrop-blur-md"
+    >
+      <div
+        className="fixed inset-0"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <div className="relative w-full max-w-3xl mx-auto p-2">
+        <div
+          className="relative bg-gradient-to-br from-binance-darkgray to-binance-black rounded-xl shadow-binance-card border border-binance-lightgray/20 z-[10000] overflow-hidden"
+          onClick={e => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="p-3 border-b border-binance-lightgray/20">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold text-white">News Analytics</h2>
+              <button
+                onClick={onClose}
+                className="p-1 rounded-lg hover:bg-binance-gray transition-colors"
+              >
+                <X className="h-4 w-4 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+
+          <div className="p-4 max-h-[75vh] overflow-y-auto">
+            {/* Controls */}
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <select
+                value={grouping}
+                onChange={(e) => setGrouping(e.target.value as ImpactLeaderboardGrouping)}
+                className={inputClass}
+              >
+                {GROUPINGS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <select
+                value={horizon}
+                onChange={(e) => setHorizon(Number(e.target.value))}
+                className={inputClass}
+              >
+                {websocketConfig.newsImpact.horizons.map(minutes => (
+                  <option key={minutes} value={minutes}>{formatHorizon(minutes)}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 text-xs text-gray-400">
+                Hit ≥
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={threshold}
+                  onChange={(e) => setThreshold(Math.max(parseFloat(e.target.value) || 0, 0))}
+                  className={`${inputClass} w-[64px]`}
+                />
+                %
+              </label>
+              <select
+                value={sortKey}
+                onChange={(e) => setSortKey(e.target.value as SortKey)}
+                className={inputClass}
+              >
+                {SORT_KEYS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <div className="ml-auto flex items-center gap-2">
+                {isBackfilling ? (
+                  <>
+                    <span className="text-xs text-gray-400">
+                      Measuring {progress?.done ?? 0} / {progress?.total ?? 0}
+                    </span>
+                    <button
+                      onClick={() => newsImpactService.stopBackfill()}
+                      className="px-2 py-1.5 text-xs rounded bg-binance-gray text-white hover:bg-binance-lightgray"
+                    >
+                      Stop
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={startBackfill}
+                    className="px-2 py-1.5 text-xs rounded bg-binance-yellow text-binance-black font-bold"
+                    title="Fetch 1m klines for cached news that has not been measured yet"
+                  >
+                    Measure cached news
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <p className="text-[10px] text-gray-500 mb-2">
+              {measured} headline/symbol pairs measured. Moves are absolute, from the open of the publication minute; a headline counts once per symbol.
+            </p>
+
+            {rows.length === 0 ? (
+              <p className="text-xs text-gray-500 italic">
+                No measured news yet. Impacts are recorded once every horizon has passed, or measure the cached news now.
+              </p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="font-normal py-1">{GROUPINGS.find(option => option.value === grouping)?.label.replace('By ', '')}</th>
+                    <th className="font-normal py-1 text-right">Samples</th>
+                    <th className="font-normal py-1 text-right">Mean</th>
+                    <th className="font-normal py-1 text-right">Median</th>
+                    <th className="font-normal py-1 text-right">Hit rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} className="border-t border-binance-lightgray/10">
+                      <td className="py-1 text-white truncate max-w-[240px]">{row.key}</td>
+                      <td className="py-1 text-right text-gray-300">{row.samples}</td>
+                      <td className="py-1 text-right text-gray-300">{row.meanMove.toFixed(2)}%</td>
+                      <td className="py-1 text-right text-gray-300">{row.medianMove.toFixed(2)}%</td>
+                      <td className="py-1 text-right text-binance-yellow">{(row.hitRate * 100).toFixed(0)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>,
+    portalElement
+  );
+}
@@ -1,10 +1,13 @@
 import { ExternalLink, TrendingUp, TrendingDown } from 'lucide-react';
 import { NewsItem } from '../types';
-import { binanceService } from '../services/binanceService';
-import { useSettings, getSymbolTradeButtons } from '../context/SettingsContext';
+import { binanceService, showToast, DuplicateOrderError } from '../services/binanceService';
+import { tradeJournal } from '../services/tradeJournal';
+import { latencyMonitor } from '../services/latencyMonitor';
+import { useSettings, getSymbolTradeButtons, getProtectionLevels } from '../context/SettingsContext';
 import { useMarketData } from '../hooks/useMarketData';
+import { useNewsImpact } from '../hooks/useNewsImpact';
 import { chartSymbolUpdateEvent } from './TradingPanel';
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 
 interface NewsCardProps {
   news: NewsItem;
@@ -26,6 +29,17 @@ const getTimeAgo = (timestamp: number): string => {
   }
 };
 
+const formatDelay = (ms: number) => {
+  const seconds = Math.max(Math.round(ms / 1000), 0);
+  if (seconds < 60) return `${seconds} sec`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+  return `${(seconds / 3600).toFixed(1)} hr`;
+};
+
+const formatHorizon = (minutes: number) => (minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`);
+
+const formatChange = (change: number) => `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
+
 // Format timestamp to human-readable full date and time with milliseconds
 const formatTime = (timestamp: number | string): string => {
   // Ensure timestamp is a valid number
@@ -166,7 +180,7 @@ const parseTwitterContent = (description: string) => {
 
 export function NewsCard({ news }: NewsCardProps) {
   const symbols = news.symbol ? news.symbol.split(',').filter(Boolean) : [];
-  const { positionMode, tradeButtons, globalTradeButtons, apiKey, priceChangeMode } = useSettings();
+  const { positionMode, tradeButtons, globalTradeButtons, canTrade, priceChangeMode } = useSettings();
   
   // Ensure timestamp is a number
   const timestamp = typeof news.timestamp === 'string' 
@@ -174,6 +188,9 @@ export function NewsCard({ news }: NewsCardProps) {
     : news.timestamp;
     
   const [timeAgo, setTimeAgo] = useState<string>(getTimeAgo(timestamp));
+  // Buttons whose order is on its way, the ref blocks a second click before the re-render
+  const pendingTradesRef = useRef<Set<string>>(new Set());
+  const [pendingTrades, setPendingTrades] = useState<Set<string>>(new Set());
   
   // Parse Twitter content from description if not already structured
   const twitterContent = useMemo(() => {
@@ -201,31 +218,91 @@ export function NewsCard({ news }: NewsCardProps) {
     
     return () => clearInterval(interval);
   }, [timestamp]);
+
+  // First paint of a live item, for the latency diagnostics
+  useEffect(() => {
+    latencyMonitor.markRendered(news.id);
+  }, [news.id]);
   
+  const impacts = useNewsImpact(news, symbols);
+
   const marketDataMap = symbols.reduce<Record<string, ReturnType<typeof useMarketData>>>((acc, symbol) => {
     acc[symbol] = useMarketData(symbol, priceChangeMode === 'news-time' ? timestamp : undefined);
     return acc;
   }, {});
   
+  // News mode falls back to the day change until the reference price is known,
+  // and the day-close change falls back to the rolling 24h change
+  const getDisplayedChange = (symbol: string): number => {
+    const marketData = marketDataMap[symbol];
+    if (!marketData) return 0;
+    if (priceChangeMode === 'news-time' && marketData.newsPriceChange) {
+      return parseFloat(marketData.newsPriceChange);
+    }
+    return parseFloat(marketData.dayCloseChange || marketData.priceChangePercent || '0');
+  };
+
+  const getPriceTooltip = (symbol: string): string => {
+    const marketData = marketDataMap[symbol];
+    if (!marketData) return '';
+
+    const parts: string[] = [];
+    if (marketData.bidPrice) parts.push(`Bid ${binanceService.formatPrice(symbol, marketData.bidPrice)}`);
+    if (marketData.askPrice) parts.push(`Ask ${binanceService.formatPrice(symbol, marketData.askPrice)}`);
+    if (marketData.markPrice) parts.push(`Mark ${binanceService.formatPrice(symbol, marketData.markPrice)}`);
+    parts.push(`24h ${marketData.priceChangePercent}%`);
+    return parts.join(' · ');
+  };
+
+  const setTradePending = (key: string, pending: boolean) => {
+    if (pending) {
+      pendingTradesRef.current.add(key);
+    } else {
+      pendingTradesRef.current.delete(key);
+    }
+    setPendingTrades(new Set(pendingTradesRef.current));
+  };
+
   const handleTrade = async (symbol: string, side: 'BUY' | 'SELL', leverage: string) => {
     const marketData = marketDataMap[symbol];
     if (!marketData) {
       alert('Market data not available. Please try again.');
       return;
     }
+
+    const tradeKey = `${symbol}-${side}-${leverage}`;
+    if (pendingTradesRef.current.has(tradeKey)) return;
+
+    // Journaled so the position stays linked to this headline
+    const sendOrder = (confirmDuplicate: boolean) => tradeJournal.placeOrder(news, {
+      symbol,
+      side,
+      positionMode,
+      type: "MARKET",
+      leverage,
+      confirmDuplicate,
+      ...getProtectionLevels(getSymbolTradeButtons(tradeButtons, globalTradeButtons, symbol))
+    }, 'manual');
     
     try {
-      await binanceService.placeOrder({
-        symbol,
-        side,
-        positionMode,
-        type: "MARKET",
-        leverage
+      setTradePending(tradeKey, true);
+      const result = await sendOrder(false).catch(error => {
+        if (error instanceof DuplicateOrderError && confirm(`${error.message}. Send it again?`)) {
+          return sendOrder(true);
+        }
+        throw error;
       });
-      console.log(`Market order placed: ${side} ${symbol}`);
+      if (result) {
+        console.log(`Market order placed: ${side} ${symbol}`);
+        showToast(`${side === 'BUY' ? 'LONG' : 'SHORT'} ${symbol} ${leverage} sent (${result.clientOrderId})`, 'success');
+      }
     } catch (error: any) {
+      // Declining to repeat an order is not a failure
+      if (error instanceof DuplicateOrderError) return;
       console.error('Failed to place order:', error);
       alert(`Order failed: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setTradePending(tradeKey, false);
     }
   };
 
@@ -252,6 +329,14 @@ export function NewsCard({ news }: NewsCardProps) {
           <span className="text-xs text-gray-300 mt-1 md:mt-0 md:ml-2">
             {formatTime(enrichedNews.timestamp)}
           </span>
+          {news.backfill && (
+            <span
+              className="text-xs font-medium px-2 py-0.5 mt-1 md:mt-0 md:ml-2 rounded-full bg-binance-red/10 text-binance-red self-start"
+              title={`Published while the news feed was down (${formatTime(news.backfill.outageStart)} – ${formatTime(news.backfill.outageEnd)}), arrived ${formatDelay(news.backfill.receivedAt - timestamp)} late. It was not pushed live and auto-trading did not see it.`}
+            >
+              Backfilled
+            </span>
+          )}
         </div>
         
         <div className="flex items-center mt-0">
@@ -336,43 +421,58 @@ export function NewsCard({ news }: NewsCardProps) {
                         <span 
                           className="text-white font-semibold cursor-pointer hover:text-binance-yellow transition-colors"
                           onClick={() => handleSymbolClick(symbol)}
+                          title={getPriceTooltip(symbol)}
                         >
                           ${binanceService.formatPrice(symbol, marketDataMap[symbol]?.price || '0')}
                         </span>
                       </div>
                     )}
                     
-                    {marketDataMap[symbol]?.priceChangePercent && (
-                      <div className="flex items-center">
-                        <span 
-                          className={`${
-                            parseFloat(priceChangeMode === 'news-time' && marketDataMap[symbol]?.newsPriceChange
-                              ? marketDataMap[symbol]?.newsPriceChange || '0'
-                              : marketDataMap[symbol]?.priceChangePercent || '0') >= 0 
-                              ? 'text-green-500' 
-                              : 'text-red-500'
-                          } font-medium flex items-center`}
-                        >
-                          {parseFloat(priceChangeMode === 'news-time' && marketDataMap[symbol]?.newsPriceChange
-                            ? marketDataMap[symbol]?.newsPriceChange || '0'
-                            : marketDataMap[symbol]?.priceChangePercent || '0') >= 0 ? (
-                            <TrendingUp size={14} className="mr-1" />
+                    {marketDataMap[symbol]?.priceChangePercent && (() => {
+                      const change = getDisplayedChange(symbol);
+                      return (
+                        <div className="flex items-center">
+                          <span 
+                            className={`${change >= 0 ? 'text-green-500' : 'text-red-500'} font-medium flex items-center`}
+                          >
+                            {change >= 0 ? (
+                              <TrendingUp size={14} className="mr-1" />
+                            ) : (
+                              <TrendingDown size={14} className="mr-1" />
+                            )}
+                            {change.toFixed(2)}%
+                            {priceChangeMode === 'news-time' && (
+                              <span className="text-xs ml-1 text-gray-400">(news)</span>
+                            )}
+                          </span>
+                        </div>
+                      );
+                    })()}
+                  </div>
+
+                  {/* Post-news price impact */}
+                  {impacts[symbol] && (
+                    <div
+                      className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-400"
+                      title="Move from the open of the minute the news was published in. MFE/MAE are the largest moves with and against the earliest reaction within the hour, from the first full minute after publication."
+                    >
+                      {impacts[symbol]!.moves.map(move => (
+                        <span key={move.minutes}>
+                          +{formatHorizon(move.minutes)}{' '}
+                          {move.change === null ? (
+                            <span className="text-gray-500">…</span>
                           ) : (
-                            <TrendingDown size={14} className="mr-1" />
-                          )}
-                          {parseFloat(priceChangeMode === 'news-time' && marketDataMap[symbol]?.newsPriceChange
-                            ? marketDataMap[symbol]?.newsPriceChange || '0'
-                            : marketDataMap[symbol]?.priceChangePercent || '0').toFixed(2)}%
-                          {priceChangeMode === 'news-time' && (
-                            <span className="text-xs ml-1 text-gray-400">(news)</span>
+                            <span className={move.change >= 0 ? 'text-green-500' : 'text-red-500'}>{formatChange(move.change)}</span>
                           )}
                         </span>
-                      </div>
-                    )}
-                  </div>
+                      ))}
+                      <span>MFE <span className="text-green-500">{formatChange(impacts[symbol]!.maxFavorable)}</span></span>
+                      <span>MAE <span className="text-red-500">{formatChange(impacts[symbol]!.maxAdverse)}</span></span>
+                    </div>
+                  )}
                   
-                  {/* Trading buttons - responsive grid - Only show if API key exists */}
-                  {apiKey && (
+                  {/* Trading buttons - responsive grid - Only show if trading is available */}
+                  {canTrade && (
                     <div className="grid grid-cols-2 gap-2">
                       <div className="space-y-2">
                         <div className="text-xs text-gray-400 font-medium">Long</div>
@@ -381,8 +481,9 @@ export function NewsCard({ news }: NewsCardProps) {
                             <button
                               key={`long-${lev}`}
                               onClick={() => handleTrade(symbol, 'BUY', lev)}
+                              disabled={pendingTrades.has(`${symbol}-BUY-${lev}`)}
                               className="bg-green-500/20 hover:bg-green-500/30 text-green-500 
-                                        py-1 px-2 rounded text-xs font-medium transition-colors"
+                                        py-1 px-2 rounded text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-wait"
                             >
                               {lev}
                             </button>
@@ -397,8 +498,9 @@ export function NewsCard({ news }: NewsCardProps) {
                             <button
                               key={`short-${lev}`}
                               onClick={() => handleTrade(symbol, 'SELL', lev)}
+                              disabled={pendingTrades.has(`${symbol}-SELL-${lev}`)}
                               className="bg-red-500/20 hover:bg-red-500/30 text-red-500 
-                                        py-1 px-2 rounded text-xs font-medium transition-colors"
+                                        py-1 px-2 rounded text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-wait"
                             >
                               {lev}
                             </button>
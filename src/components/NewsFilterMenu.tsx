@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Filter, ChevronDown, Check, Trash2, Link } from 'lucide-react';
+import { parseNewsQuery, getNewsQueryUrl, NEWS_QUERY_EXAMPLE } from '../utils/newsQuery';
+import { showToast } from '../services/binanceService';
+import type { SavedNewsFilter } from '../types';
+
+const STORAGE_KEY_SAVED_FILTERS = 'cryptoTerminal_savedNewsFilters';
+
+interface NewsFilterMenuProps {
+  query: string;
+  onApply: (query: string) => void;
+}
+
+const loadSavedFilters = (): SavedNewsFilter[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_SAVED_FILTERS);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Failed to load saved news filters:', error);
+    return [];
+  }
+};
+
+const copyLink = (query: string) => {
+  const url = getNewsQueryUrl(query);
+  navigator.clipboard.writeText(url)
+    .then(() => showToast('Filter link copied', 'success'))
+    .catch(() => prompt('Copy the filter link:', url));
+};
+
+// Header dropdown to type a news query, pick a saved one or share it as a link
+export function NewsFilterMenu({ query, onApply }: NewsFilterMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(query);
+  const [error, setError] = useState<string | null>(null);
+  const [savedFilters, setSavedFilters] = useState(loadSavedFilters);
+
+  const activeFilter = savedFilters.find(filter => filter.query === query);
+
+  const updateSavedFilters = (filters: SavedNewsFilter[]) => {
+    setSavedFilters(filters);
+    localStorage.setItem(STORAGE_KEY_SAVED_FILTERS, JSON.stringify(filters));
+  };
+
+  const toggle = () => {
+    if (!isOpen) {
+      setDraft(query);
+      setError(null);
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const apply = (value: string) => {
+    const result = parseNewsQuery(value);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    onApply(value);
+    setIsOpen(false);
+  };
+
+  const handleSave = () => {
+    const value = draft.trim();
+    const result = parseNewsQuery(value);
+    if (!value || !result.ok) {
+      setError(result.ok ? 'Type a filter to save' : result.error);
+      return;
+    }
+
+    const name = prompt('Name this filter', activeFilter?.name || '')?.trim();
+    if (!name) return;
+
+    // Saving under an existing name replaces it
+    const existing = savedFilters.find(filter => filter.name === name);
+    updateSavedFilters(existing
+      ? savedFilters.map(filter => (filter.id === existing.id ? { ...filter, query: value } : filter))
+      : [...savedFilters, { id: uuidv4(), name, query: value }]);
+    onApply(value);
+  };
+
+  const handleDelete = (filter: SavedNewsFilter) => {
+    if (confirm(`Delete the saved filter "${filter.name}"?`)) {
+      updateSavedFilters(savedFilters.filter(f => f.id !== filter.id));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="flex items-center gap-1 p-2 rounded-lg bg-binance-gray hover:bg-binance-lightgray transition"
+        title={query ? `News filter: ${query}` : 'Filter news'}
+      >
+        <Filter className={`h-4 w-4 ${query ? 'text-binance-yellow fill-binance-yellow' : 'text-binance-yellow'}`} />
+        {query && (
+          <span className="hidden md:inline max-w-[120px] truncate text-xs font-medium text-white">
+            {activeFilter?.name || query}
+          </span>
+        )}
+        <ChevronDown className="h-3 w-3 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            onClick={() => setIsOpen(false)}
+            className="fixed inset-0 z-[65]"
+          />
+          <div className="absolute right-0 mt-2 w-80 rounded-lg bg-gradient-to-br from-binance-darkgray to-binance-black border border-binance-lightgray/20 shadow-binance-card z-[70]">
+            <div className="p-2">
+              <input
+                value={draft}
+                onChange={(e) => {
+                  setDraft(e.target.value);
+                  setError(null);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') apply(draft);
+                  if (e.key === 'Escape') setIsOpen(false);
+                }}
+                placeholder={NEWS_QUERY_EXAMPLE}
+                className="w-full bg-binance-gray text-white text-xs rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-binance-yellow"
+                autoFocus
+              />
+              {error ? (
+                <p className="mt-1 text-[10px] text-binance-red">{error}</p>
+              ) : (
+                <p className="mt-1 text-[10px] text-gray-500">
+                  source:, from:, sym:, type:, after:/before: (30m, 2h, date), "phrase", -exclude. Enter to apply.
+                </p>
+              )}
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={() => apply(draft)}
+                  className="flex-1 px-2 py-1 text-xs font-bold rounded bg-binance-yellow text-binance-black hover:bg-binance-yellow/90"
+                >
+                  Apply
+                </button>
+                <button
+                  onClick={handleSave}
+                  className="flex-1 px-2 py-1 text-xs rounded bg-binance-gray text-white hover:bg-binance-lightgray"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => copyLink(query)}
+                  disabled={!query}
+                  className="flex-1 px-2 py-1 text-xs rounded bg-binance-gray text-white hover:bg-binance-lightgray disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Copy a link that opens with the applied filter"
+                >
+                  Copy link
+                </button>
+                {query && (
+                  <button
+                    onClick={() => apply('')}
+                    className="flex-1 px-2 py-1 text-xs rounded bg-binance-gray text-white hover:bg-binance-lightgray"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {savedFilters.length > 0 && (
+              <div className="p-2 space-y-1 border-t border-binance-lightgray/20">
+                {savedFilters.map(filter => (
+                  <div
+                    key={filter.id}
+                    className={`flex items-center gap-2 px-2 py-1.5 rounded ${
+                      filter.query === query ? 'bg-binance-gray' : 'hover:bg-binance-gray/60'
+                    }`}
+                  >
+                    <button
+                      onClick={() => apply(filter.query)}
+                      className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                      title={filter.query}
+                    >
+                      <Check className={`h-3 w-3 flex-shrink-0 ${filter.query === query ? 'text-binance-yellow' : 'invisible'}`} />
+                      <span className="truncate text-xs text-white">{filter.name}</span>
+                      <span className="ml-auto truncate max-w-[120px] text-[10px] text-gray-500">{filter.query}</span>
+                    </button>
+                    <button
+                      onClick={() => copyLink(filter.query)}
+                      className="p-1 text-gray-500 hover:text-white"
+                      title="Copy link"
+                    >
+                      <Link className="h-3 w-3" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(filter)}
+                      className="p-1 text-gray-500 hover:text-binance-red"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import { Pencil, X, Check } from 'lucide-react';
+import type { OpenOrder } from '../types';
+import { binanceService } from '../services/binanceService';
+import { chartSymbolUpdateEvent } from './TradingPanel';
+
+interface EditState {
+  orderId: number;
+  price: string;
+  quantity: string;
+}
+
+const STOP_ORDER_TYPES = ['STOP', 'STOP_MARKET', 'TAKE_PROFIT', 'TAKE_PROFIT_MARKET', 'TRAILING_STOP_MARKET'];
+
+export function OpenOrdersPanel() {
+  const [orders, setOrders] = useState<OpenOrder[]>([]);
+  const [busyKeys, setBusyKeys] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<EditState | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = binanceService.onOpenOrdersUpdate(setOrders);
+    return () => unsubscribe();
+  }, []);
+
+  // Drop the edit form if the order is gone (filled, cancelled elsewhere)
+  useEffect(() => {
+    if (editing && !orders.some(order => order.orderId === editing.orderId)) {
+      setEditing(null);
+    }
+  }, [orders, editing]);
+
+  const runAction = async (key: string, action: () => Promise<void>, label: string) => {
+    if (busyKeys.has(key)) return;
+
+    try {
+      setBusyKeys(prev => new Set(prev).add(key));
+      await action();
+    } catch (error) {
+      console.error(`Failed to ${label}:`, error);
+      alert(`Failed to ${label}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusyKeys(prev => {
+        const updated = new Set(prev);
+        updated.delete(key);
+        return updated;
+      });
+    }
+  };
+
+  const handleCancel = (order: OpenOrder) => {
+    runAction(`order-${order.orderId}`, () => binanceService.cancelOrder(order.symbol, order.orderId), 'cancel order');
+  };
+
+  const handleCancelAll = (symbol: string) => {
+    runAction(`symbol-${symbol}`, () => binanceService.cancelAllOrders(symbol), 'cancel orders');
+  };
+
+  const handleEdit = (order: OpenOrder) => {
+    setEditing({
+      orderId: order.orderId,
+      price: order.price.toString(),
+      quantity: order.origQty.toString()
+    });
+  };
+
+  const handleSaveEdit = () => {
+    if (!editing) return;
+
+    const price = parseFloat(editing.price);
+    const quantity = parseFloat(editing.quantity);
+    if (!Number.isFinite(price) || price <= 0 || !Number.isFinite(quantity) || quantity <= 0) {
+      alert('Please enter a valid price and quantity');
+      return;
+    }
+
+    const { orderId } = editing;
+    runAction(`order-${orderId}`, async () => {
+      await binanceService.modifyOrder(orderId, price, quantity);
+      setEditing(null);
+    }, 'amend order');
+  };
+
+  const handleSymbolClick = (symbol: string) => {
+    chartSymbolUpdateEvent.dispatchEvent(
+      new CustomEvent('symbolChange', { detail: symbol })
+    );
+  };
+
+  if (orders.length === 0) return null;
+
+  // Group by symbol so each group can be cancelled at once
+  const ordersBySymbol = orders.reduce<Record<string, OpenOrder[]>>((groups, order) => {
+    (groups[order.symbol] ||= []).push(order);
+    return groups;
+  }, {});
+
+  return (
+    <div className="bg-binance-black border-t border-binance-gray/30">
+      <div className="max-w-7xl mx-auto px-2">
+        <div className="overflow-x-auto">
+          <div className="min-w-[920px]">
+            <div className="flex items-center py-1 border-b border-binance-gray/30 mb-2 text-xs text-gray-400 font-medium">
+              <div className="w-[130px] flex-shrink-0 text-center">Open Orders</div>
+              <div className="w-[80px] flex-shrink-0 text-center">Side</div>
+              <div className="w-[140px] flex-shrink-0 text-center">Type</div>
+              <div className="w-[120px] flex-shrink-0 text-center">Price</div>
+              <div className="w-[160px] flex-shrink-0 text-center">Filled / Amount</div>
+              <div className="flex-grow text-right pr-4">Actions</div>
+            </div>
+
+            <div className="max-h-[30vh] overflow-y-auto overflow-x-hidden">
+              <div className="flex flex-col gap-1.5 py-1">
+                {Object.entries(ordersBySymbol).map(([symbol, symbolOrders]) => (
+                  <div key={symbol} className="rounded-lg bg-binance-darkgray/40 border border-binance-gray/30">
+                    <div className="flex items-center justify-between px-2 pt-1">
+                      <button
+                        onClick={() => handleSymbolClick(symbol)}
+                        className="text-xs font-medium text-white hover:text-binance-yellow"
+                      >
+                        {symbol}
+                      </button>
+                      {symbolOrders.length > 1 && (
+                        <button
+                          onClick={() => handleCancelAll(symbol)}
+                          disabled={busyKeys.has(`symbol-${symbol}`)}
+                          className="text-xs text-gray-400 hover:text-binance-red disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {busyKeys.has(`symbol-${symbol}`) ? 'Cancelling...' : 'Cancel all'}
+                        </button>
+                      )}
+                    </div>
+
+                    {symbolOrders.map(order => {
+                      const isBusy = busyKeys.has(`order-${order.orderId}`) || busyKeys.has(`symbol-${symbol}`);
+                      const isEditing = editing?.orderId === order.orderId;
+                      const isStopOrder = STOP_ORDER_TYPES.includes(order.type);
+                      const displayPrice = isStopOrder && order.stopPrice > 0 ? order.stopPrice : order.price;
+
+                      return (
+                        <div key={order.orderId} className="flex items-center py-1.5">
+                          <div className="w-[130px] flex-shrink-0" />
+
+                          <div className="w-[80px] flex-shrink-0 flex justify-center">
+                            <span className={`text-xs font-medium ${
+                              order.side === 'BUY' ? 'text-binance-green' : 'text-binance-red'
+                            }`}>
+                              {order.side}
+                              {order.positionSide !== 'BOTH' && (
+                                <span className="text-gray-400 font-normal"> {order.positionSide}</span>
+                              )}
+                            </span>
+                          </div>
+
+                          <div className="w-[140px] flex-shrink-0 flex justify-center">
+                            <span className="text-xs text-white">
+                              {order.type.replace(/_/g, ' ')}
+                              {order.reduceOnly && <span className="text-gray-400"> (RO)</span>}
+                            </span>
+                          </div>
+
+                          <div className="w-[120px] flex-shrink-0 flex justify-center">
+                            {isEditing ? (
+                              <input
+                                type="number"
+                                value={editing.price}
+                                onChange={(e) => setEditing({ ...editing, price: e.target.value })}
+                                className="w-[100px] bg-binance-gray text-white text-xs rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-binance-yellow"
+                              />
+                            ) : (
+                              <span className="text-xs text-white">
+                                {isStopOrder && <span className="text-gray-400">Trigger </span>}
+                                {displayPrice > 0 ? `$${displayPrice}` : 'Market'}
+                              </span>
+                            )}
+                          </div>
+
+                          <div className="w-[160px] flex-shrink-0 flex justify-center">
+                            {isEditing ? (
+                              <input
+                                type="number"
+                                value={editing.quantity}
+                                onChange={(e) => setEditing({ ...editing, quantity: e.target.value })}
+                                className="w-[100px] bg-binance-gray text-white text-xs rounded px-1 py-0.5 outline-none focus:ring-1 focus:ring-binance-yellow"
+                              />
+                            ) : (
+                              <span className="text-xs text-white">
+                                {order.executedQty} / {order.origQty}
+                              </span>
+                            )}
+                          </div>
+
+                          <div className="flex items-center gap-1 ml-auto pr-4">
+                            {isEditing ? (
+                              <>
+                                <button
+                                  onClick={handleSaveEdit}
+                                  disabled={isBusy}
+                                  className="p-1 rounded bg-binance-yellow text-black hover:bg-binance-yellow/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                                  title="Save"
+                                >
+                                  <Check className="w-3 h-3" />
+                                </button>
+                                <button
+                                  onClick={() => setEditing(null)}
+                                  disabled={isBusy}
+                                  className="p-1 rounded bg-binance-gray text-gray-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                                  title="Discard"
+                                >
+                                  <X className="w-3 h-3" />
+                                </button>
+                              </>
+                            ) : (
+                              <>
+                                {order.type === 'LIMIT' && (
+                                  <button
+                                    onClick={() => handleEdit(order)}
+                                    disabled={isBusy}
+                                    className="p-1 rounded bg-binance-gray text-gray-300 hover:text-binance-yellow disabled:opacity-50 disabled:cursor-not-allowed"
+                                    title="Amend price / quantity"
+                                  >
+                                    <Pencil className="w-3 h-3" />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => handleCancel(order)}
+                                  disabled={isBusy}
+                                  className="px-2 py-0.5 text-xs rounded font-medium min-w-[60px] bg-binance-gray text-white hover:bg-binance-red/80 disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                  {isBusy ? '...' : 'Cancel'}
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react';
+import { binanceService } from '../services/binanceService';
+import type { LocalOrderBook } from '../services/orderBook';
+import { websocketConfig } from '../config/websocket';
+import type { OrderBookLevel, OrderBookView } from '../types';
+
+interface OrderBookProps {
+  symbol: string;
+  onLevelClick?: (side: 'BUY' | 'SELL', price: string) => void;
+}
+
+const formatQuantity = (quantity: number) => {
+  if (quantity >= 1_000_000) return `${(quantity / 1_000_000).toFixed(2)}M`;
+  if (quantity >= 1000) return `${(quantity / 1000).toFixed(2)}K`;
+  return quantity.toFixed(quantity >= 100 ? 1 : 3);
+};
+
+// Decimals of a grouping step, e.g. 0.1 → 1, 10 → 0
+const getDecimals = (step: number) => Math.max(0, Math.ceil(-Math.log10(step) - 1e-9));
+
+export function OrderBook({ symbol, onLevelClick }: OrderBookProps) {
+  const [view, setView] = useState<OrderBookView | null>(null);
+  const [groupingIndex, setGroupingIndex] = useState(0);
+  const [tickSize, setTickSize] = useState<number | null>(() => binanceService.getTickSize(symbol));
+  const bookRef = useRef<LocalOrderBook | null>(null);
+  const groupingRef = useRef(0);
+
+  const multiplier = websocketConfig.orderBook.groupings[groupingIndex] ?? 1;
+  const grouping = tickSize ? tickSize * multiplier : 0;
+  groupingRef.current = grouping;
+
+  // Symbols have their own tick sizes, start over with the finest grouping
+  useEffect(() => {
+    setView(null);
+    setGroupingIndex(0);
+    setTickSize(binanceService.getTickSize(symbol));
+
+    const unsubscribe = binanceService.subscribeToOrderBook(symbol, book => {
+      bookRef.current = book;
+      // Exchange info may load after the book subscribed
+      setTickSize(prev => prev ?? binanceService.getTickSize(symbol));
+      setView(book.getView(groupingRef.current, websocketConfig.orderBook.rows));
+    });
+
+    return () => {
+      bookRef.current = null;
+      unsubscribe();
+    };
+  }, [symbol]);
+
+  // Regroup right away instead of waiting for the next diff
+  useEffect(() => {
+    if (bookRef.current) {
+      setView(bookRef.current.getView(grouping, websocketConfig.orderBook.rows));
+    }
+  }, [grouping]);
+
+  const decimals = grouping ? getDecimals(grouping) : null;
+  const formatLevelPrice = (price: number) =>
+    decimals !== null ? price.toFixed(decimals) : binanceService.formatPrice(symbol, price);
+
+  const maxTotal = Math.max(
+    view?.bids[view.bids.length - 1]?.total ?? 0,
+    view?.asks[view.asks.length - 1]?.total ?? 0
+  );
+
+  const renderLevel = (level: OrderBookLevel, side: 'BUY' | 'SELL') => (
+    <button
+      key={`${side}-${level.price}`}
+      onClick={() => onLevelClick?.(side, formatLevelPrice(level.price))}
+      className="relative w-full grid grid-cols-3 text-xs py-0.5 px-1 hover:bg-white/10 transition-colors"
+      title={`${side === 'BUY' ? 'Long' : 'Short'} limit at ${formatLevelPrice(level.price)}`}
+    >
+      <div
+        className={`absolute inset-y-0 right-0 ${side === 'BUY' ? 'bg-binance-green/15' : 'bg-binance-red/15'}`}
+        style={{ width: maxTotal ? `${(level.total / maxTotal) * 100}%` : 0 }}
+      />
+      <span className={`relative text-left ${side === 'BUY' ? 'text-binance-green' : 'text-binance-red'}`}>
+        {formatLevelPrice(level.price)}
+      </span>
+      <span className="relative text-right text-gray-800 dark:text-gray-200">{formatQuantity(level.quantity)}</span>
+      <span className="relative text-right text-gray-600 dark:text-gray-400">{formatQuantity(level.total)}</span>
+    </button>
+  );
+
+  return (
+    <div className="backdrop-blur-xl bg-white/30 dark:bg-black/30 rounded-xl p-4 border border-white/20 dark:border-white/10 relative z-30">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">
+          Order Book <span className="text-sm font-normal text-gray-600 dark:text-gray-400">{symbol}</span>
+        </h2>
+        <select
+          value={groupingIndex}
+          onChange={(e) => setGroupingIndex(Number(e.target.value))}
+          disabled={!tickSize}
+          className="bg-binance-gray text-white text-xs rounded px-2 py-1 outline-none focus:ring-1 focus:ring-binance-yellow"
+          title="Group price levels"
+        >
+          {websocketConfig.orderBook.groupings.map((step, index) => (
+            <option key={step} value={index}>
+              {tickSize ? (tickSize * step).toFixed(getDecimals(tickSize * step)) : 'Tick'}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 text-[10px] text-gray-500 px-1 mb-1">
+        <span>Price</span>
+        <span className="text-right">Size</span>
+        <span className="text-right">Total</span>
+      </div>
+
+      {!view || !view.synced ? (
+        <p className="text-xs text-gray-500 italic py-4 text-center">Syncing order book...</p>
+      ) : (
+        <>
+          {/* Asks, best at the bottom next to the spread */}
+          <div className="flex flex-col-reverse">
+            {view.asks.map(level => renderLevel(level, 'SELL'))}
+          </div>
+
+          <div className="flex justify-between items-center text-xs py-1 px-1 my-1 border-y border-white/10">
+            <span className="font-bold text-gray-800 dark:text-gray-200">
+              {view.midPrice !== null ? binanceService.formatPrice(symbol, view.midPrice) : '—'}
+            </span>
+            {view.spread !== null && view.midPrice && (
+              <span className="text-gray-600 dark:text-gray-400">
+                Spread {binanceService.formatPrice(symbol, view.spread)} ({((view.spread / view.midPrice) * 10000).toFixed(1)} bps)
+              </span>
+            )}
+          </div>
+
+          <div>
+            {view.bids.map(level => renderLevel(level, 'BUY'))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
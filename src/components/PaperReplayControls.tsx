@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { binanceService } from '../services/binanceService';
+import { websocketConfig } from '../config/websocket';
+import type { PaperReplay } from '../types';
+
+const inputClass = 'bg-binance-gray text-white text-xs rounded px-2 py-1 outline-none focus:ring-1 focus:ring-binance-yellow';
+
+// datetime-local wants local time without a zone
+const toLocalInput = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return new Date(timestamp - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+// Plays a past window of a symbol into the paper account instead of its live prices
+export function PaperReplayControls() {
+  const [replay, setReplay] = useState<PaperReplay | null>(() => binanceService.getPaperReplay());
+  const [symbol, setSymbol] = useState('BTCUSDT');
+  const [start, setStart] = useState(() => toLocalInput(Date.now() - 24 * 60 * 60 * 1000));
+  const [hours, setHours] = useState(1);
+  const [speed, setSpeed] = useState(websocketConfig.paperTrading.replaySpeeds[1]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = binanceService.onPaperReplayChange(setReplay);
+    return () => unsubscribe();
+  }, []);
+
+  const handleStart = () => {
+    const startTime = new Date(start).getTime();
+    if (Number.isNaN(startTime)) {
+      alert('Pick a start time for the replay');
+      return;
+    }
+
+    const replaySymbol = symbol.trim().toUpperCase();
+    setIsLoading(true);
+    binanceService.startPaperReplay(replaySymbol, startTime, startTime + hours * 60 * 60 * 1000, speed)
+      .catch(error => {
+        alert(`Failed to start the replay: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      })
+      .finally(() => setIsLoading(false));
+  };
+
+  if (replay) {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-400 truncate">
+          Replaying <span className="text-white font-medium">{replay.symbol}</span>{' '}
+          {new Date(replay.time).toLocaleString()} ({replay.done}/{replay.total})
+        </span>
+        <button
+          onClick={() => binanceService.stopPaperReplay()}
+          className="px-2 py-1 text-xs rounded bg-binance-gray text-gray-300 hover:bg-binance-lightgray hover:text-white transition-colors"
+        >
+          Stop
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm text-gray-600 dark:text-gray-400 block">
+        Price Replay
+      </label>
+      <div className="flex gap-2">
+        <input
+          value={symbol}
+          onChange={(e) => setSymbol(e.target.value)}
+          className={`${inputClass} w-[96px]`}
+          placeholder="BTCUSDT"
+        />
+        <input
+          type="datetime-local"
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+          className={`${inputClass} flex-1 min-w-0`}
+        />
+      </div>
+      <div className="flex gap-2">
+        <label className="flex items-center gap-1 text-xs text-gray-400">
+          <input
+            type="number"
+            min="1"
+            max={websocketConfig.paperTrading.replayMaxHours}
+            value={hours}
+            onChange={(e) => setHours(Math.max(parseInt(e.target.value, 10) || 1, 1))}
+            className={`${inputClass} w-[56px]`}
+          />
+          h
+        </label>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className={inputClass}
+        >
+          {websocketConfig.paperTrading.replaySpeeds.map(option => (
+            <option key={option} value={option}>{option}x</option>
+          ))}
+        </select>
+        <button
+          onClick={handleStart}
+          disabled={isLoading || !symbol.trim()}
+          className="flex-1 px-2 py-1 text-xs font-bold rounded bg-binance-yellow text-binance-black disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Fill paper orders against past 1m candles of the symbol instead of its live prices"
+        >
+          {isLoading ? 'Loading...' : 'Replay'}
+        </button>
+      </div>
+    </div>
+  );
+}
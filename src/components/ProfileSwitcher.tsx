@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Users, ChevronDown, Check, Pencil, Trash2, Plus } from 'lucide-react';
+import { useSettings } from '../context/SettingsContext';
+import type { NetworkType } from '../types';
+
+const NETWORK_LABELS: Record<NetworkType, string> = {
+  mainnet: 'Mainnet',
+  testnet: 'Testnet',
+  paper: 'Paper'
+};
+
+// Header dropdown listing the account profiles, switching reconnects to the chosen one
+export function ProfileSwitcher() {
+  const { profiles, activeProfileId, switchProfile, createProfile, renameProfile, deleteProfile } = useSettings();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+
+  const handleSwitch = (profileId: string) => {
+    if (profileId !== activeProfileId) {
+      switchProfile(profileId);
+    }
+    setIsOpen(false);
+  };
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    createProfile(name);
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  const handleRename = () => {
+    const name = editingName.trim();
+    if (editingId && name) {
+      renameProfile(editingId, name);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (profileId: string, name: string) => {
+    if (!confirm(`Delete the profile "${name}" with its saved keys, trade buttons and risk limits?`)) {
+      return;
+    }
+
+    try {
+      await deleteProfile(profileId);
+    } catch (error) {
+      alert(`Failed to delete profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 p-2 rounded-lg bg-binance-gray hover:bg-binance-lightgray transition"
+        title="Switch account profile"
+      >
+        <Users className="h-4 w-4 text-binance-yellow" />
+        <span className="hidden md:inline max-w-[120px] truncate text-xs font-medium text-white">{activeProfile?.name}</span>
+        <ChevronDown className="h-3 w-3 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            onClick={() => setIsOpen(false)}
+            className="fixed inset-0 z-[65]"
+          />
+          <div className="absolute right-0 mt-2 w-64 rounded-lg bg-gradient-to-br from-binance-darkgray to-binance-black border border-binance-lightgray/20 shadow-binance-card z-[70]">
+            <div className="p-2 space-y-1">
+              {profiles.map(profile => (
+                <div
+                  key={profile.id}
+                  className={`flex items-center gap-2 px-2 py-1.5 rounded ${
+                    profile.id === activeProfileId ? 'bg-binance-gray' : 'hover:bg-binance-gray/60'
+                  }`}
+                >
+                  {editingId === profile.id ? (
+                    <input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={handleRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 bg-binance-black text-white text-xs rounded px-2 py-1 outline-none focus:ring-1 focus:ring-binance-yellow"
+                      autoFocus
+                    />
+                  ) : (
+                    <button
+                      onClick={() => handleSwitch(profile.id)}
+                      className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                    >
+                      <Check className={`h-3 w-3 flex-shrink-0 ${profile.id === activeProfileId ? 'text-binance-yellow' : 'invisible'}`} />
+                      <span className="truncate text-xs text-white">{profile.name}</span>
+                      <span className="ml-auto text-[10px] text-gray-500">{NETWORK_LABELS[profile.network]}</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      setEditingId(profile.id);
+                      setEditingName(profile.name);
+                    }}
+                    className="p-1 text-gray-500 hover:text-white"
+                    title="Rename"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                  {profile.id !== activeProfileId && (
+                    <button
+                      onClick={() => handleDelete(profile.id, profile.name)}
+                      className="p-1 text-gray-500 hover:text-binance-red"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2 p-2 border-t border-binance-lightgray/20">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder="New profile name"
+                className="flex-1 min-w-0 bg-binance-gray text-white text-xs rounded px-2 py-1 outline-none focus:ring-1 focus:ring-binance-yellow"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={!newName.trim()}
+                className="p-1 rounded bg-binance-yellow text-binance-black hover:bg-binance-yellow/90 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Add profile"
+              >
+                <Plus className="h-3 w-3" />
+              </button>
+            </div>
+            <p className="px-2 pb-2 text-[10px] text-gray-500">
+              Keys, network, trade buttons and risk limits are kept per profile. Set keys in settings after switching.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { binanceService } from '../services/binanceService';
+import type { RiskLimits, RiskState } from '../types';
+
+interface RiskConfigModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const LIMIT_FIELDS: { key: keyof RiskLimits; label: string; unit: string }[] = [
+  { key: 'maxOrderNotional', label: 'Max notional per order', unit: 'USDT' },
+  { key: 'maxTotalExposure', label: 'Max total exposure', unit: 'USDT' },
+  { key: 'maxOpenPositions', label: 'Max open positions', unit: '' },
+  { key: 'maxOrdersPerMinute', label: 'Max orders per minute', unit: '' },
+  { key: 'maxDailyLoss', label: 'Daily loss limit', unit: 'USDT' }
+];
+
+const toDraft = (limits: RiskLimits) =>
+  Object.fromEntries(Object.entries(limits).map(([key, value]) => [key, value.toString()])) as Record<keyof RiskLimits, string>;
+
+export function RiskConfigModal({
+  isOpen,
+  onClose
+}: RiskConfigModalProps) {
+  const [portalElement, setPortalElement] = useState<HTMLElement | null>(null);
+  const [draft, setDraft] = useState(() => toDraft(binanceService.getRiskLimits()));
+  const [riskState, setRiskState] = useState<RiskState>(() => binanceService.getRiskState());
+  const [isFlattening, setIsFlattening] = useState(false);
+
+  // Create portal element on mount
+  useEffect(() => {
+    let element = document.getElementById('modal-root');
+    if (!element) {
+      element = document.createElement('div');
+      element.id = 'modal-root';
+      document.body.appendChild(element);
+    }
+    setPortalElement(element);
+
+    return () => {
+      if (element && element.parentNode && element.childNodes.length === 0) {
+        element.parentNode.removeChild(element);
+      }
+    };
+  }, []);
+
+  // Handle body scroll locking
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = '';
+    }
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setDraft(toDraft(binanceService.getRiskLimits()));
+    setRiskState(binanceService.getRiskState());
+    const unsubscribe = binanceService.onRiskStateChange(setRiskState);
+    return () => unsubscribe();
+  }, [isOpen]);
+
+  const handleSave = () => {
+    const limits = {} as RiskLimits;
+    for (const { key, label } of LIMIT_FIELDS) {
+      const value = parseFloat(draft[key] || '0');
+      if (!Number.isFinite(value) || value < 0) {
+        alert(`Please enter a valid value for "${label}"`);
+        return;
+      }
+      limits[key] = value;
+    }
+
+    binanceService.updateRiskLimits(limits);
+    onClose();
+  };
+
+  const handleTrip = async () => {
+    if (!confirm('Trip the kill switch? All open orders will be cancelled, all positions closed at market and new entries blocked until you reset it.')) {
+      return;
+    }
+
+    try {
+      setIsFlattening(true);
+      await binanceService.tripKillSwitch();
+    } catch (error) {
+      console.error('Kill switch failed to flatten:', error);
+    } finally {
+      setIsFlattening(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (confirm('Reset the kill switch and allow new entries again?')) {
+      binanceService.resetKillSwitch();
+    }
+  };
+
+  if (!isOpen || !portalElement) return null;
+
+  const dailyPnl = riskState.dailyRealizedPnl + riskState.unrealizedPnl;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center overflow-y-auto bg-black/50 backdrop-blur-md"
+    >
+      <div
+        className="fixed inset-0"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <div className="relative w-full max-w-md mx-auto p-2">
+        <div
+          className="relative bg-gradient-to-br from-binance-darkgray to-binance-black rounded-xl shadow-binance-card border border-binance-lightgray/20 z-[10000] overflow-hidden"
+          onClick={e => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="p-3 border-b border-binance-lightgray/20">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold text-white">Risk Management</h2>
+              <button
+                onClick={onClose}
+                className="p-1 rounded-lg hover:bg-binance-gray transition-colors"
+              >
+                <X className="h-4 w-4 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+
+          <div className="p-4">
+            {/* Kill switch */}
+            <div className={`mb-4 p-3 rounded-lg border ${
+              riskState.killSwitchActive ? 'border-binance-red bg-binance-red/10' : 'border-binance-lightgray/20 bg-binance-gray/40'
+            }`}>
+              {riskState.killSwitchActive ? (
+                <>
+                  <div className="text-sm font-bold text-binance-red">Kill switch active</div>
+                  <div className="text-xs text-gray-300 mt-1">{riskState.killSwitchReason}</div>
+                  {riskState.killSwitchTime && (
+                    <div className="text-xs text-gray-500">{new Date(riskState.killSwitchTime).toLocaleString()}</div>
+                  )}
+                  <button
+                    onClick={handleReset}
+                    className="w-full mt-2 px-3 py-1.5 text-xs font-bold rounded-lg bg-binance-gray text-white hover:bg-binance-lightgray"
+                  >
+                    Reset Kill Switch
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={handleTrip}
+                  disabled={isFlattening}
+                  className="w-full px-3 py-1.5 text-xs font-bold rounded-lg bg-binance-red text-white hover:bg-binance-red/80 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isFlattening ? 'Flattening...' : 'Trip Kill Switch'}
+                </button>
+              )}
+            </div>
+
+            {/* Live usage */}
+            <div className="grid grid-cols-2 gap-2 mb-4 text-xs">
+              <div className="bg-binance-gray/40 rounded-lg p-2">
+                <div className="text-gray-400">Today's PnL (UTC)</div>
+                <div className={dailyPnl >= 0 ? 'text-binance-green' : 'text-binance-red'}>
+                  {dailyPnl.toFixed(2)} USDT
+                </div>
+              </div>
+              <div className="bg-binance-gray/40 rounded-lg p-2">
+                <div className="text-gray-400">Exposure</div>
+                <div className="text-white">{riskState.totalExposure.toFixed(2)} USDT</div>
+              </div>
+              <div className="bg-binance-gray/40 rounded-lg p-2">
+                <div className="text-gray-400">Open positions</div>
+                <div className="text-white">{riskState.openPositions}</div>
+              </div>
+              <div className="bg-binance-gray/40 rounded-lg p-2">
+                <div className="text-gray-400">Orders last minute</div>
+                <div className="text-white">{riskState.ordersLastMinute}</div>
+              </div>
+            </div>
+
+            {/* Limits */}
+            <h3 className="text-sm font-medium text-gray-400 mb-2">Limits</h3>
+            <div className="space-y-2">
+              {LIMIT_FIELDS.map(({ key, label, unit }) => (
+                <label key={key} className="flex items-center justify-between gap-3">
+                  <span className="text-xs text-gray-300">{label}{unit && ` (${unit})`}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={draft[key]}
+                    onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                    className="w-[120px] bg-binance-gray text-white text-xs rounded px-2 py-1 outline-none focus:ring-1 focus:ring-binance-yellow"
+                  />
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-2 italic">
+              0 disables a limit. Reaching the daily loss limit trips the kill switch.
+            </p>
+
+            <button
+              onClick={handleSave}
+              className="w-full mt-4 px-3 py-2 text-sm font-bold rounded-lg bg-binance-yellow text-binance-black hover:bg-binance-yellow/90"
+            >
+              Save Limits
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    portalElement
+  );
+}
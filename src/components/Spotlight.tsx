@@ -1,16 +1,108 @@
-import { useEffect, useState, useRef } from 'react';
-import { Search, CornerDownLeft } from 'lucide-react';
+import { useEffect, useMemo, useState, useRef } from 'react';
+import { Search, CornerDownLeft, History, Terminal, Coins } from 'lucide-react';
+import { parseCommand, COMMAND_EXAMPLES, COMMAND_KEYWORDS, type SpotlightCommand } from '../utils/commandParser';
+import { NEWS_QUERY_EXAMPLE } from '../utils/newsQuery';
+import { binanceService } from '../services/binanceService';
+import type { OrderPreview, ProtectionLevel } from '../types';
 
 interface SpotlightProps {
-  onSearch: (query: string) => void;
+  onCommand: (command: SpotlightCommand) => void;
   onClose: () => void;
   initialValue?: string;
 }
 
-export function Spotlight({ onSearch, onClose, initialValue = '' }: SpotlightProps) {
+interface Suggestion {
+  value: string; // Input text after accepting the suggestion
+  label: string;
+  kind: 'recent' | 'command' | 'symbol';
+}
+
+const STORAGE_KEY_SPOTLIGHT_HISTORY = 'cryptoTerminal_spotlightHistory';
+const MAX_HISTORY = 8;
+const MAX_SUGGESTIONS = 8;
+
+const SUGGESTION_ICONS = {
+  recent: History,
+  command: Terminal,
+  symbol: Coins
+};
+
+const loadHistory = (): string[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_SPOTLIGHT_HISTORY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Failed to load Spotlight history:', error);
+    return [];
+  }
+};
+
+const saveToHistory = (command: string) => {
+  const history = [command, ...loadHistory().filter(entry => entry !== command)].slice(0, MAX_HISTORY);
+  localStorage.setItem(STORAGE_KEY_SPOTLIGHT_HISTORY, JSON.stringify(history));
+};
+
+// Completes the keyword or symbol under the cursor, the input always ends there
+const getSuggestions = (query: string, symbols: string[], history: string[]): Suggestion[] => {
+  const upper = query.toUpperCase();
+  const trimmed = upper.trim();
+  if (!trimmed) {
+    return history.map(entry => ({ value: entry, label: entry, kind: 'recent' }));
+  }
+
+  const endsWithSpace = /\s$/.test(upper);
+  const tokens = trimmed.split(/\s+/);
+  const current = endsWithSpace ? '' : tokens[tokens.length - 1];
+  const tokenIndex = endsWithSpace ? tokens.length : tokens.length - 1;
+  const prefix = upper.slice(0, upper.length - current.length);
+
+  const suggestions: Suggestion[] = history
+    .filter(entry => entry.startsWith(trimmed) && entry !== trimmed)
+    .slice(0, 3)
+    .map(entry => ({ value: entry, label: entry, kind: 'recent' }));
+
+  const matchSymbols = (partial: string) => symbols
+    .map(symbol => symbol.replace(/USDT$/, ''))
+    .filter(base => base.startsWith(partial) && base !== partial)
+    .sort((a, b) => a.length - b.length || a.localeCompare(b));
+
+  if (tokenIndex === 0) {
+    COMMAND_KEYWORDS
+      .filter(keyword => keyword.startsWith(current) && keyword !== current)
+      .forEach(keyword => suggestions.push({ value: `${keyword} `, label: keyword, kind: 'command' }));
+    matchSymbols(current)
+      .forEach(base => suggestions.push({ value: base, label: `${base}USDT`, kind: 'symbol' }));
+  } else if (tokenIndex === 1 && (COMMAND_KEYWORDS as readonly string[]).includes(tokens[0]) && current) {
+    if (tokens[0] === 'CLOSE' && 'ALL'.startsWith(current) && current !== 'ALL') {
+      suggestions.push({ value: `${prefix}ALL`, label: 'CLOSE ALL', kind: 'command' });
+    }
+    matchSymbols(current)
+      .forEach(base => suggestions.push({ value: `${prefix}${base} `, label: `${base}USDT`, kind: 'symbol' }));
+  }
+
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+};
+
+const formatNumber = (value: number | null, digits = 2) =>
+  value === null ? '—' : value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+const formatProtection = (level: ProtectionLevel) =>
+  level.type === 'percent' ? `${level.value}%` : formatNumber(level.value, 8);
+
+export function Spotlight({ onCommand, onClose, initialValue = '' }: SpotlightProps) {
   const [query, setQuery] = useState(initialValue);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(-1);
+  const [tickerPrice, setTickerPrice] = useState<{ symbol: string; price: number } | null>(null);
+  const [history] = useState(loadHistory);
+  const [symbols] = useState(() => binanceService.getTradingSymbols());
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const suggestions = useMemo(() => getSuggestions(query, symbols, history), [query, symbols, history]);
+  const parsed = useMemo(() => parseCommand(query), [query]);
+  const openCommand = parsed.ok && parsed.command.type === 'open' ? parsed.command : null;
+  const previewSymbol = openCommand?.symbol;
+
   useEffect(() => {
     // Focus input on mount
     inputRef.current?.focus();
@@ -26,16 +118,57 @@ export function Spotlight({ onSearch, onClose, initialValue = '' }: SpotlightPro
     return () => window.removeEventListener('keydown', handleEscape);
   }, [onClose]);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
+  // Keep the preview priced while a trade command is being typed
+  useEffect(() => {
+    if (!previewSymbol || !symbols.includes(previewSymbol)) return;
+    return binanceService.subscribeToMarketData(previewSymbol, ticker => {
+      setTickerPrice({ symbol: ticker.symbol, price: parseFloat(ticker.price) });
+    });
+  }, [previewSymbol, symbols]);
+
+  // Limit orders are sized at their price, market orders at the last tick
+  const preview: OrderPreview | null = useMemo(() => {
+    if (!openCommand) return null;
+    const lastPrice = tickerPrice?.symbol === openCommand.symbol ? tickerPrice.price : undefined;
+    return binanceService.previewOrder(openCommand.symbol, Math.round(openCommand.notional), openCommand.price ?? lastPrice);
+  }, [openCommand, tickerPrice]);
+
+  const updateQuery = (value: string) => {
     setQuery(value);
+    setError(null);
+    setSelectedIndex(-1);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateQuery(e.target.value);
+  };
+
+  const acceptSuggestion = (suggestion: Suggestion) => {
+    updateQuery(suggestion.value);
+    inputRef.current?.focus();
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && query.trim()) {
-      const processedQuery = query.trim().toUpperCase();
-      onSearch(processedQuery);
-      onClose();
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setSelectedIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setSelectedIndex(index => (index <= 0 ? suggestions.length : index) - 1);
+    } else if (e.key === 'Tab' && suggestions.length > 0) {
+      e.preventDefault();
+      acceptSuggestion(suggestions[Math.max(selectedIndex, 0)]);
+    } else if (e.key === 'Enter' && selectedIndex >= 0 && suggestions[selectedIndex]) {
+      // A highlighted suggestion only fills the input, trades always need a second Enter
+      acceptSuggestion(suggestions[selectedIndex]);
+    } else if (e.key === 'Enter' && query.trim()) {
+      // Keep the palette open on a parse error so the command can be fixed
+      if (!parsed.ok) {
+        setError(parsed.error);
+        return;
+      }
+      saveToHistory(query.trim().toUpperCase().replace(/\s+/g, ' '));
+      onCommand(parsed.command);
     } else if (e.key === 'Escape') {
       onClose();
     }
@@ -44,15 +177,15 @@ export function Spotlight({ onSearch, onClose, initialValue = '' }: SpotlightPro
   return (
     <div className="fixed inset-0 z-[100] flex items-start justify-center pt-[20vh]">
       {/* Backdrop */}
-      <div 
+      <div
         className="fixed inset-0 bg-black/50 backdrop-blur-sm"
         onClick={onClose}
       />
-      
+
       {/* Spotlight container */}
       <div className="relative w-full max-w-2xl mx-4">
         <div className="bg-binance-darkgray rounded-xl shadow-lg border border-binance-lightgray/20 overflow-hidden">
-          <div className="flex items-center px-4 py-3 border-b border-binance-lightgray/20">
+          <div className={`flex items-center px-4 py-3 border-b ${error ? 'border-binance-red/60' : 'border-binance-lightgray/20'}`}>
             <Search className="w-5 h-5 text-binance-yellow mr-3" />
             <input
               ref={inputRef}
@@ -63,14 +196,79 @@ export function Spotlight({ onSearch, onClose, initialValue = '' }: SpotlightPro
               onKeyDown={handleKeyDown}
               placeholder="Search or trade... (e.g. BTC, LONG BTC 1K)"
               className="w-full bg-transparent text-white placeholder-gray-500 focus:outline-none"
+              autoComplete="off"
             />
             <CornerDownLeft className="w-5 h-5 text-binance-yellow ml-3" />
           </div>
-          <div className="px-4 py-2 text-sm text-gray-400">
-            Type to search. For trading use "LONG BTC 1K" format. ESC to close.
-          </div>
+
+          {/* Order preview */}
+          {openCommand && preview && (
+            <div className="px-4 py-2 border-b border-binance-lightgray/20 text-xs">
+              {!preview.knownSymbol ? (
+                <span className="text-binance-red">{preview.symbol} is not a tradable symbol</span>
+              ) : (
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  <span className={`font-bold ${openCommand.side === 'BUY' ? 'text-binance-green' : 'text-binance-red'}`}>
+                    {openCommand.side === 'BUY' ? 'LONG' : 'SHORT'} {preview.symbol}
+                  </span>
+                  <span className="text-gray-400">
+                    {openCommand.price ? 'Limit' : 'Market'} <span className="text-white">{preview.price === null ? 'waiting for price...' : formatNumber(preview.price, 8)}</span>
+                  </span>
+                  <span className="text-gray-400">Qty <span className="text-white">{formatNumber(preview.quantity, 8)}</span></span>
+                  <span className="text-gray-400">Notional <span className="text-white">{formatNumber(preview.notional)} USDT</span></span>
+                  <span className="text-gray-400">
+                    Margin <span className="text-white">
+                      {preview.estimatedMargin === null ? '—' : `≈ ${formatNumber(preview.estimatedMargin)} USDT`}
+                    </span>
+                    {preview.leverage && <span> at {preview.leverage}x</span>}
+                  </span>
+                  {openCommand.stopLoss && <span className="text-gray-400">SL <span className="text-white">{formatProtection(openCommand.stopLoss)}</span></span>}
+                  {openCommand.takeProfit && <span className="text-gray-400">TP <span className="text-white">{formatProtection(openCommand.takeProfit)}</span></span>}
+                  {preview.quantity !== null && (
+                    <span className={preview.meetsMinNotional ? 'text-binance-green' : 'text-binance-red'}>
+                      {preview.meetsMinNotional ? 'Min notional OK' : `Below min notional${preview.minNotional ? ` of ${preview.minNotional} USDT` : ''}`}
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Suggestions */}
+          {suggestions.length > 0 && (
+            <div className="py-1 border-b border-binance-lightgray/20">
+              {!query.trim() && <div className="px-4 py-1 text-xs text-gray-500">Recent commands</div>}
+              {suggestions.map((suggestion, index) => {
+                const Icon = SUGGESTION_ICONS[suggestion.kind];
+                return (
+                  <button
+                    key={`${suggestion.kind}-${suggestion.value}`}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => acceptSuggestion(suggestion)}
+                    onMouseEnter={() => setSelectedIndex(index)}
+                    className={`w-full flex items-center gap-2 px-4 py-1.5 text-left text-sm ${
+                      index === selectedIndex ? 'bg-binance-gray text-white' : 'text-gray-300'
+                    }`}
+                  >
+                    <Icon className="w-3.5 h-3.5 text-gray-500" />
+                    {suggestion.label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {error ? (
+            <div className="px-4 py-2 text-sm text-binance-red">
+              {error}
+            </div>
+          ) : (
+            <div className="px-4 py-2 text-sm text-gray-400">
+              Type a symbol to search, a news filter like {NEWS_QUERY_EXAMPLE}, or a command: {COMMAND_EXAMPLES.join(' · ')}. ↑↓ to pick, Tab to complete, ESC to close.
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Pencil } from 'lucide-react';
+import { tradeJournal } from '../services/tradeJournal';
+import { useSettings } from '../context/SettingsContext';
+import type { JournalEntry } from '../types';
+
+interface TradeJournalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-binance-gray text-white text-xs rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-binance-yellow';
+
+const formatLatency = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const formatPnl = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+export function TradeJournalModal({
+  isOpen,
+  onClose
+}: TradeJournalModalProps) {
+  const { activeProfileId } = useSettings();
+  const [portalElement, setPortalElement] = useState<HTMLElement | null>(null);
+  const [entries, setEntries] = useState<JournalEntry[]>(() => tradeJournal.getEntries());
+  const [sourceFilter, setSourceFilter] = useState('');
+  const [symbolFilter, setSymbolFilter] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+
+  // Create portal element on mount
+  useEffect(() => {
+    let element = document.getElementById('modal-root');
+    if (!element) {
+      element = document.createElement('div');
+      element.id = 'modal-root';
+      document.body.appendChild(element);
+    }
+    setPortalElement(element);
+
+    return () => {
+      if (element && element.parentNode && element.childNodes.length === 0) {
+        element.parentNode.removeChild(element);
+      }
+    };
+  }, []);
+
+  // Handle body scroll locking
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden';
+    } else {
+      document.body.style.overflow = '';
+    }
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setEntries(tradeJournal.getEntries());
+    const unsubscribe = tradeJournal.onChange(setEntries);
+    return () => unsubscribe();
+  }, [isOpen]);
+
+  // Journals of other profiles belong to other accounts
+  const profileEntries = useMemo(() => entries.filter(e => e.profileId === activeProfileId), [entries, activeProfileId]);
+  const sources = useMemo(() => Array.from(new Set(profileEntries.map(e => e.newsSource))).sort(), [profileEntries]);
+
+  const filtered = useMemo(() => {
+    const symbol = symbolFilter.trim().toUpperCase();
+    return profileEntries.filter(e =>
+      (!sourceFilter || e.newsSource === sourceFilter) &&
+      (!symbol || e.symbol.includes(symbol))
+    );
+  }, [profileEntries, sourceFilter, symbolFilter]);
+
+  const summary = useMemo(() => {
+    const sent = filtered.filter(e => e.status !== 'failed');
+    return {
+      trades: sent.length,
+      realizedPnl: sent.reduce((sum, e) => sum + e.realizedPnl, 0),
+      averageLatency: sent.length ? sent.reduce((sum, e) => sum + e.latencyMs, 0) / sent.length : 0
+    };
+  }, [filtered]);
+
+  const startEditing = (entry: JournalEntry) => {
+    setEditingId(entry.id);
+    setNoteDraft(entry.note);
+  };
+
+  const saveNote = () => {
+    if (editingId) {
+      tradeJournal.annotate(editingId, noteDraft.trim());
+    }
+    setEditingId(null);
+  };
+
+  if (!isOpen || !portalElement) return null;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[9999] flex items-center justify-center overflow-y-auto bg-black/50 backdrop-blur-md"
+    >
+      <div
+        className="fixed inset-0"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      <div className="relative w-full max-w-3xl mx-auto p-2">
+        <div
+          className="relative bg-gradient-to-br from-binance-darkgray to-binance-black rounded-xl shadow-binance-card border border-binance-lightgray/20 z-[10000] overflow-hidden"
+          onClick={e => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="p-3 border-b border-binance-lightgray/20">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold text-white">Trade Journal</h2>
+              <button
+                onClick={onClose}
+                className="p-1 rounded-lg hover:bg-binance-gray transition-colors"
+              >
+                <X className="h-4 w-4 text-gray-400 hover:text-white" />
+              </button>
+            </div>
+          </div>
+
+          <div className="p-4 max-h-[75vh] overflow-y-auto">
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-2 mb-3">
+              <select
+                value={sourceFilter}
+                onChange={(e) => setSourceFilter(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">All sources</option>
+                {sources.map(source => (
+                  <option key={source} value={source}>{source}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={symbolFilter}
+                onChange={(e) => setSymbolFilter(e.target.value)}
+                placeholder="Symbol"
+                className={`${inputClass} w-[120px]`}
+              />
+              <div className="ml-auto flex gap-4 text-xs text-gray-400">
+                <span>Trades <span className="text-white">{summary.trades}</span></span>
+                <span>
+                  Realized <span className={summary.realizedPnl >= 0 ? 'text-binance-green' : 'text-binance-red'}>
+                    {formatPnl(summary.realizedPnl)} USDT
+                  </span>
+                </span>
+                <span>Avg latency <span className="text-white">{formatLatency(Math.round(summary.averageLatency))}</span></span>
+              </div>
+            </div>
+
+            {filtered.length === 0 ? (
+              <p className="text-xs text-gray-500 italic">
+                No journaled trades yet. Orders placed from a news card or by an auto-trading rule show up here.
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {filtered.map(entry => (
+                  <div key={entry.id} className="text-xs bg-binance-gray/40 rounded px-2 py-1.5">
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                      <span className="text-gray-500">{new Date(entry.sentAt).toLocaleString()}</span>
+                      <span className={`font-bold ${entry.side === 'BUY' ? 'text-binance-green' : 'text-binance-red'}`}>
+                        {entry.side === 'BUY' ? 'LONG' : 'SHORT'} {entry.symbol}
+                      </span>
+                      <span className="text-gray-300">{entry.notional} USDT</span>
+                      <span className="px-1.5 rounded-full bg-binance-yellow/10 text-binance-yellow">{entry.newsSource}</span>
+                      {entry.origin === 'auto' && <span className="text-gray-400">auto</span>}
+                      <span className="text-gray-400">Latency <span className="text-white">{formatLatency(entry.latencyMs)}</span></span>
+                      {entry.status === 'failed' ? (
+                        <span className="text-binance-red">Failed{entry.error && `: ${entry.error}`}</span>
+                      ) : entry.status === 'sent' ? (
+                        <span className="text-gray-400">Awaiting fill</span>
+                      ) : (
+                        <>
+                          <span className="text-gray-400">Fill <span className="text-white">{entry.fillPrice}</span></span>
+                          <span className="text-gray-400">
+                            PnL <span className={entry.realizedPnl >= 0 ? 'text-binance-green' : 'text-binance-red'}>{formatPnl(entry.realizedPnl)}</span>
+                            {entry.closedQty < entry.filledQty && <span> (open)</span>}
+                          </span>
+                        </>
+                      )}
+                      <button
+                        onClick={() => startEditing(entry)}
+                        className="ml-auto p-1 text-gray-500 hover:text-white"
+                        title="Add note"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                    </div>
+                    <div className="text-gray-400 truncate">
+                      {entry.newsSourceName && <span className="text-gray-300">{entry.newsSourceName}: </span>}
+                      {entry.newsTitle}
+                    </div>
+                    {entry.clientOrderId && (
+                      <div className="text-[10px] text-gray-500 font-mono">{entry.clientOrderId}</div>
+                    )}
+                    {editingId === entry.id ? (
+                      <div className="flex gap-2 mt-1">
+                        <input
+                          type="text"
+                          value={noteDraft}
+                          onChange={(e) => setNoteDraft(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveNote();
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          placeholder="Why did you take this trade?"
+                          className={`${inputClass} flex-1`}
+                          autoFocus
+                        />
+                        <button
+                          onClick={saveNote}
+                          className="px-2 rounded bg-binance-yellow text-binance-black font-bold"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    ) : entry.note && (
+                      <div className="text-gray-300 italic mt-0.5">{entry.note}</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>,
+    portalElement
+  );
+}
@@ -38,11 +38,15 @@ export function TradingConfigModal({
   const [editingSymbol, setEditingSymbol] = useState<string | null>(null);
   const [tempLongButtons, setTempLongButtons] = useState<string[]>([]);
   const [tempShortButtons, setTempShortButtons] = useState<string[]>([]);
+  const [tempStopLoss, setTempStopLoss] = useState('');
+  const [tempTakeProfit, setTempTakeProfit] = useState('');
   
   // State for global trade button editing
   const [isEditingGlobalButtons, setIsEditingGlobalButtons] = useState(false);
   const [globalLongButtons, setGlobalLongButtons] = useState<string[]>([...globalTradeButtons.long]);
   const [globalShortButtons, setGlobalShortButtons] = useState<string[]>([...globalTradeButtons.short]);
+  const [globalStopLoss, setGlobalStopLoss] = useState(globalTradeButtons.stopLossPercent?.toString() || '');
+  const [globalTakeProfit, setGlobalTakeProfit] = useState(globalTradeButtons.takeProfitPercent?.toString() || '');
 
   // Create portal element on mount
   useEffect(() => {
@@ -158,6 +162,16 @@ export function TradingConfigModal({
     return sortedBrackets[0].notionalCap;
   };
   
+  // Empty or non-positive inputs mean "no default" for SL/TP
+  const parsePercent = (value: string): number | undefined => {
+    const parsed = parseFloat(value);
+    return parsed > 0 ? parsed : undefined;
+  };
+
+  const formatProtection = (stopLossPercent?: number, takeProfitPercent?: number) => {
+    return `SL ${stopLossPercent ? `${stopLossPercent}%` : '-'} / TP ${takeProfitPercent ? `${takeProfitPercent}%` : '-'}`;
+  };
+
   const handleSliderChange = (symbol: string, value: number, _brackets: LeverageBracket['brackets']) => {
     onLeverageSelect(symbol, value);
   };
@@ -167,6 +181,8 @@ export function TradingConfigModal({
     const symbolButtons = getSymbolTradeButtons(tradeButtons, globalTradeButtons, symbol);
     setTempLongButtons([...symbolButtons.long]);
     setTempShortButtons([...symbolButtons.short]);
+    setTempStopLoss(symbolButtons.stopLossPercent?.toString() || '');
+    setTempTakeProfit(symbolButtons.takeProfitPercent?.toString() || '');
     setEditingSymbol(symbol);
   };
 
@@ -175,7 +191,9 @@ export function TradingConfigModal({
     if (editingSymbol) {
       setSymbolTradeButtons(editingSymbol, {
         long: tempLongButtons,
-        short: tempShortButtons
+        short: tempShortButtons,
+        stopLossPercent: parsePercent(tempStopLoss),
+        takeProfitPercent: parsePercent(tempTakeProfit)
       });
       setEditingSymbol(null);
     }
@@ -229,6 +247,8 @@ export function TradingConfigModal({
   const startEditGlobalButtons = () => {
     setGlobalLongButtons([...globalTradeButtons.long]);
     setGlobalShortButtons([...globalTradeButtons.short]);
+    setGlobalStopLoss(globalTradeButtons.stopLossPercent?.toString() || '');
+    setGlobalTakeProfit(globalTradeButtons.takeProfitPercent?.toString() || '');
     setIsEditingGlobalButtons(true);
   };
   
@@ -236,7 +256,9 @@ export function TradingConfigModal({
   const saveGlobalButtons = () => {
     updateGlobalTradeButtons({
       long: globalLongButtons,
-      short: globalShortButtons
+      short: globalShortButtons,
+      stopLossPercent: parsePercent(globalStopLoss),
+      takeProfitPercent: parsePercent(globalTakeProfit)
     });
     setIsEditingGlobalButtons(false);
   };
@@ -245,6 +267,8 @@ export function TradingConfigModal({
   const cancelGlobalButtons = () => {
     setGlobalLongButtons([...globalTradeButtons.long]);
     setGlobalShortButtons([...globalTradeButtons.short]);
+    setGlobalStopLoss(globalTradeButtons.stopLossPercent?.toString() || '');
+    setGlobalTakeProfit(globalTradeButtons.takeProfitPercent?.toString() || '');
     setIsEditingGlobalButtons(false);
   };
   
@@ -374,6 +398,33 @@ export function TradingConfigModal({
                     </div>
                   </div>
                   
+                  <div className="mb-2 flex gap-2">
+                    <div className="flex-1">
+                      <span className="text-xs text-gray-400 font-medium">Stop-loss %:</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={globalStopLoss}
+                        onChange={(e) => setGlobalStopLoss(e.target.value)}
+                        className="w-full mt-1 px-2 py-1 text-xs rounded bg-gray-700 border border-gray-600 text-white"
+                        placeholder="Off"
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <span className="text-xs text-gray-400 font-medium">Take-profit %:</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={globalTakeProfit}
+                        onChange={(e) => setGlobalTakeProfit(e.target.value)}
+                        className="w-full mt-1 px-2 py-1 text-xs rounded bg-gray-700 border border-gray-600 text-white"
+                        placeholder="Off"
+                      />
+                    </div>
+                  </div>
+                  
                   <div className="flex justify-end gap-2 mt-2">
                     <button
                       onClick={cancelGlobalButtons}
@@ -420,6 +471,9 @@ export function TradingConfigModal({
                       </div>
                     </div>
                   </div>
+                  <div className="mt-2 text-xs text-gray-300">
+                    {formatProtection(globalTradeButtons.stopLossPercent, globalTradeButtons.takeProfitPercent)}
+                  </div>
                 </div>
               )}
               <div className="mt-2 text-xs text-gray-400 italic">
@@ -534,7 +588,10 @@ export function TradingConfigModal({
                       className="px-2 py-1 rounded bg-binance-yellow hover:bg-binance-yellow/90 text-binance-black"
                       onClick={() => {
                         const currentLeverage = selectedLeverages[bracket.symbol] || bracket.brackets[0].initialLeverage;
-                        binanceService.updateLeverage(bracket.symbol, currentLeverage);
+                        binanceService.updateLeverage(bracket.symbol, currentLeverage).catch(error => {
+                          console.error(`Failed to update leverage for ${bracket.symbol}:`, error);
+                          alert(`Failed to update leverage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                        });
                       }}
                     >
                       Confirm
@@ -606,6 +663,33 @@ export function TradingConfigModal({
                           </div>
                         </div>
                         
+                        <div className="mb-2 flex gap-2">
+                          <div className="flex items-center gap-1">
+                            <span className="text-xs text-gray-400 font-medium">SL %</span>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.1"
+                              value={tempStopLoss}
+                              onChange={(e) => setTempStopLoss(e.target.value)}
+                              className="w-14 px-2 py-1 text-xs rounded bg-gray-700 border border-gray-600 text-white"
+                              placeholder="Off"
+                            />
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <span className="text-xs text-gray-400 font-medium">TP %</span>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.1"
+                              value={tempTakeProfit}
+                              onChange={(e) => setTempTakeProfit(e.target.value)}
+                              className="w-14 px-2 py-1 text-xs rounded bg-gray-700 border border-gray-600 text-white"
+                              placeholder="Off"
+                            />
+                          </div>
+                        </div>
+                        
                         <div className="flex justify-end gap-2 mt-2">
                           <button
                             onClick={cancelEditTradeButtons}
@@ -643,6 +727,12 @@ export function TradingConfigModal({
                                 </span>
                               </div>
                             </div>
+                            <div className="text-xs text-gray-400 mt-1">
+                              {(() => {
+                                const symbolButtons = getSymbolTradeButtons(tradeButtons, globalTradeButtons, bracket.symbol);
+                                return formatProtection(symbolButtons.stopLossPercent, symbolButtons.takeProfitPercent);
+                              })()}
+                            </div>
                           </div>
                           <button
                             onClick={() => startEditTradeButtons(bracket.symbol)}
@@ -1,16 +1,22 @@
 import { useState, useEffect } from 'react';
 import { binanceService } from '../services/binanceService';
-import { websocketConfig } from '../config/websocket';
 import { TradingViewWidget } from './TradingViewWidget';
+import { OrderBook } from './OrderBook';
 import { useSettings } from '../context/SettingsContext';
 
 // Create a global event for updating the chart symbol
 export const chartSymbolUpdateEvent = new EventTarget();
 
-export function TradingPanel() {
-  const { apiKey } = useSettings();
+interface TradingPanelProps {
+  // A clicked order book level, to be turned into a limit order
+  onLimitOrderPrefill?: (symbol: string, side: 'BUY' | 'SELL', price: string) => void;
+}
+
+export function TradingPanel({ onLimitOrderPrefill }: TradingPanelProps) {
+  const { canTrade, isPaperTrading, activeProfileId } = useSettings();
   const [balance, setBalance] = useState<string>('0.00');
   const [chartSymbol, setChartSymbol] = useState<string>("BINANCE:BTCUSDT.P");
+  const [bookSymbol, setBookSymbol] = useState<string>('BTCUSDT');
 
   // Listen for symbol change events
   useEffect(() => {
@@ -20,6 +26,7 @@ export function TradingPanel() {
         const symbol = customEvent.detail;
         // Format symbol for TradingView (add BINANCE: prefix and .P suffix)
         setChartSymbol(`BINANCE:${symbol}.P`);
+        setBookSymbol(symbol);
       }
     };
 
@@ -30,9 +37,11 @@ export function TradingPanel() {
     };
   }, []);
 
-  // Fetch balance every 5 seconds only if API key exists
+  // Balance updates are pushed by the service, fetch once for the initial value
   useEffect(() => {
-    if (!apiKey) return;
+    // Never show the previous profile's balance while the new one loads
+    setBalance('0.00');
+    if (!canTrade) return;
 
     const unsubscribe = binanceService.onBalanceUpdate((balances) => {
       if (Array.isArray(balances)) {
@@ -44,16 +53,14 @@ export function TradingPanel() {
       }
     });
 
-    // Set up periodic balance updates
-    const balanceInterval = setInterval(() => {
-      binanceService.fetchBalance();
-    }, websocketConfig.intervals.balance);
+    binanceService.fetchBalance().catch(error => {
+      console.error('Failed to fetch balance:', error);
+    });
 
     return () => {
       unsubscribe();
-      clearInterval(balanceInterval);
     };
-  }, [apiKey]);
+  }, [canTrade, isPaperTrading, activeProfileId]);
 
   return (
     <div className="space-y-4">
@@ -61,12 +68,19 @@ export function TradingPanel() {
       <div className="backdrop-blur-xl bg-white/30 dark:bg-black/30 rounded-xl p-4 pr-4 border border-white/20 dark:border-white/10 relative z-30">
         <TradingViewWidget symbol={chartSymbol} />
       </div>
+
+      <OrderBook
+        symbol={bookSymbol}
+        onLevelClick={(side, price) => onLimitOrderPrefill?.(bookSymbol, side, price)}
+      />
       
-      {/* Account Balance Section - Only show if API key exists */}
-      {apiKey && (
+      {/* Account Balance Section - Only show if API key exists or paper trading */}
+      {canTrade && (
         <div className="backdrop-blur-xl bg-white/30 dark:bg-black/30 rounded-xl p-4 border border-white/20 dark:border-white/10 relative z-30">
           <div className="flex justify-between items-center">
-            <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Account</h2>
+            <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-200">
+              {isPaperTrading ? 'Paper Account' : 'Account'}
+            </h2>
             <div className="flex items-center gap-2">
               <span className="text-sm text-gray-600 dark:text-gray-400">Available Balance:</span>
               <span className="text-lg font-bold text-gray-800 dark:text-gray-200">{balance} USDT</span>
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { X } from 'lucide-react'; 
 import { useSettings } from '../context/SettingsContext';
+import { newsService } from '../services/newsService';
 
 interface UIConfigModalProps {
   isOpen: boolean;
@@ -14,6 +15,25 @@ export function UIConfigModal({
 }: UIConfigModalProps) {
   const { priceChangeMode, setPriceChangeMode } = useSettings();
   const [portalElement, setPortalElement] = useState<HTMLElement | null>(null);
+  const [retention, setRetention] = useState(() => newsService.getRetention());
+  const [storedItems, setStoredItems] = useState(() => newsService.getTotalItems());
+
+  // Start from the saved values every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setRetention(newsService.getRetention());
+      setStoredItems(newsService.getTotalItems());
+    }
+  }, [isOpen]);
+
+  const saveRetention = () => {
+    if (!(retention.maxAgeDays > 0) || !(retention.maxItems > 0)) {
+      alert('Keep news for at least one day and one item');
+      return;
+    }
+    newsService.setRetention(retention);
+    setStoredItems(newsService.getTotalItems());
+  };
 
   // Create portal element on mount
   useEffect(() => {
@@ -109,6 +129,42 @@ export function UIConfigModal({
                   : 'Shows price change from the timestamp of the news.'}
               </p>
             </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-400 mb-2">News History</h3>
+              <div className="flex items-end gap-2">
+                <label className="flex-1 text-xs text-gray-400">
+                  Keep (days)
+                  <input
+                    type="number"
+                    min="1"
+                    value={retention.maxAgeDays}
+                    onChange={(e) => setRetention(prev => ({ ...prev, maxAgeDays: parseInt(e.target.value, 10) || 0 }))}
+                    className="mt-1 w-full bg-binance-gray text-white text-xs rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-binance-yellow"
+                  />
+                </label>
+                <label className="flex-1 text-xs text-gray-400">
+                  Max items
+                  <input
+                    type="number"
+                    min="1"
+                    step="1000"
+                    value={retention.maxItems}
+                    onChange={(e) => setRetention(prev => ({ ...prev, maxItems: parseInt(e.target.value, 10) || 0 }))}
+                    className="mt-1 w-full bg-binance-gray text-white text-xs rounded px-2 py-1.5 outline-none focus:ring-1 focus:ring-binance-yellow"
+                  />
+                </label>
+                <button
+                  onClick={saveRetention}
+                  className="px-3 py-1.5 text-xs font-bold rounded bg-binance-yellow text-binance-black"
+                >
+                  Save
+                </button>
+              </div>
+              <p className="text-xs text-gray-400 mt-2 italic">
+                {storedItems} news items cached. News is stored in this browser and merged on startup; older items are pruned when saving and on the next start.
+              </p>
+            </div>
           </div>
         </div>
       </div>
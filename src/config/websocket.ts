@@ -3,11 +3,13 @@ export const websocketConfig = {
   endpoints: {
     testnet: {
       binance: 'wss://testnet.binancefuture.com/ws-fapi/v1',
-      marketData: 'wss://testnet.binancefuture.com/ws-fapi/v1'
+      marketData: 'wss://fstream.binancefuture.com/stream',
+      userData: 'wss://fstream.binancefuture.com/ws'
     },
     mainnet: {
       binance: 'wss://ws-fapi.binance.com/ws-fapi/v1',
-      marketData: 'wss://ws-fapi.binance.com/ws-fapi/v1'
+      marketData: 'wss://fstream.binance.com/stream',
+      userData: 'wss://fstream.binance.com/ws'
     },
     news: 'wss://ws.cryptoterminal.io'  // Added real-time news websocket
   },
@@ -20,32 +22,112 @@ export const websocketConfig = {
 
   // WebSocket methods
   methods: {
+    sessionLogon: 'session.logon',
     balance: 'v2/account.balance',
     position: 'v2/account.position',
-    ticker: 'ticker.price',
-    orderPlace: 'order.place'
+    orderPlace: 'order.place',
+    orderStatus: 'order.status',
+    orderCancel: 'order.cancel',
+    orderModify: 'order.modify',
+    openOrders: 'openOrders.status'
   },
   
   // Update intervals (in milliseconds)
   intervals: {
-    marketPrice: 1000,  // Update market prices every second
-    balance: 1000,      // Update balance every second
-    positions: 1000     // Update positions every second
+    balance: 1000,      // Fallback balance polling while the user data stream is down
+    positions: 1000,    // Fallback position polling while the user data stream is down
+    openOrders: 5000,   // Fallback open order polling while the user data stream is down
+    listenKeyKeepAlive: 30 * 60 * 1000, // Renew the user data listenKey every 30 minutes
+    accountRefreshDebounce: 250, // Coalesce account snapshot refreshes triggered by stream events
+    serverTimeSync: 60 * 1000 // Re-measure the local clock offset against Binance server time
   },
   
+  // Per-symbol streams multiplexed over the combined market data socket
+  marketStreams: ['markPrice@1s', 'miniTicker', 'bookTicker'],
+
+  // Order book of the chart symbol
+  orderBook: {
+    stream: 'depth@100ms',   // Diff depth stream applied to the snapshot
+    snapshotLimit: 500,      // Levels per side in the REST snapshot (weight 10)
+    resyncDelay: 2000,       // Wait before retrying a failed snapshot (ms)
+    rows: 12,                // Levels shown per side
+    groupings: [1, 10, 100, 1000] // Tick size multiples levels can be grouped by
+  },
+
+  // Paper trading simulator
+  paperTrading: {
+    initialBalance: 10000,    // Starting USDT wallet of a fresh paper account
+    makerFee: 0.0002,         // Resting limit orders
+    takerFee: 0.0005,         // Market orders, marketable limits and triggered stops
+    defaultLeverage: 20,
+    defaultMaintMarginRatio: 0.005, // Used when no leverage bracket is cached for a symbol
+    replayMaxHours: 24 * 7,  // Longest window a replay loads
+    replaySpeeds: [10, 60, 300, 1000] // Replayed minutes per real minute
+  },
+
+  // Default risk limits, 0 disables a limit. Users can change them in settings.
+  riskLimits: {
+    maxOrderNotional: 10000,  // USDT per entry order
+    maxTotalExposure: 50000,  // USDT across all open positions
+    maxOpenPositions: 10,
+    maxOrdersPerMinute: 20,   // Entries and closes combined
+    maxDailyLoss: 1000        // Realized + unrealized USDT since 00:00 UTC, trips the kill switch
+  },
+
+  // Exchange rate limits, replaced by the ones in exchangeInfo once loaded
+  rateLimits: {
+    defaults: [
+      { rateLimitType: 'REQUEST_WEIGHT', interval: 'MINUTE', intervalNum: 1, limit: 2400 },
+      { rateLimitType: 'ORDERS', interval: 'MINUTE', intervalNum: 1, limit: 1200 },
+      { rateLimitType: 'ORDERS', interval: 'SECOND', intervalNum: 10, limit: 300 }
+    ],
+    shedThreshold: 0.7,  // Share of the weight limit above which polling and refreshes are skipped
+    queueThreshold: 0.9  // Share above which other non-order requests wait for the window to roll over
+  },
+
+  // Passphrase vault for saved API credentials
+  vault: {
+    pbkdf2Iterations: 310000, // PBKDF2-SHA256 rounds deriving the AES-GCM key
+    defaultAutoLockMinutes: 15, // Idle time before the vault locks, 0 never locks
+    idleCheckInterval: 15 * 1000
+  },
+
+  // News reaction latency diagnostics
+  diagnostics: {
+    latencySampleSize: 200 // Live news items kept for the rolling median/p95
+  },
+
+  // News history kept in IndexedDB and fetched over HTTP
+  newsHistory: {
+    pageSize: 1000, // Items per /news request
+    maxCatchUpPages: 5, // Pages fetched at most to close the gap since the last seen item
+    outageMargin: 60 * 1000, // Outage backfill starts this much before the drop, the news server's clock may differ (ms)
+    outageHistorySize: 20, // Outages kept for the connection status
+    defaultRetention: {
+      maxAgeDays: 14,
+      maxItems: 20000
+    }
+  },
+
+  // Post-news price impact from 1m klines
+  newsImpact: {
+    horizons: [1, 5, 15, 60], // Minutes after publication
+    refreshInterval: 60 * 1000, // Re-fetch while a horizon is still ahead
+    backfillInterval: 300, // Pause between kline requests when backfilling cached news (ms)
+    hitThreshold: 1 // % absolute move that counts as a hit on the leaderboard
+  },
+
   // WebSocket settings
   settings: {
     reconnectDelay: 1000,   // Reconnection delay (ms) - always 1 second
     maxRetries: Infinity,   // Unlimited reconnection attempts
     recvWindow: '5000',     // Binance API recv_window parameter
+    requestTimeout: 10000,  // WS-API requests without a response by then are failed, orders become unknown
+    orderDedupeWindow: 3000, // Identical orders within this window (ms) need confirming
     heartbeatInterval: 1000, // Heartbeat check interval (ms)
     heartbeatTimeout: 5000, // Heartbeat timeout duration (ms)
     exponentialBackoff: false, // Exponential backoff disabled
-    maxReconnectDelay: 1000  // Maximum reconnection delay 1 second
-  },
-  
-  // Feature flags
-  features: {
-    continuousMarketUpdates: true  // Enable continuous market updates
+    maxReconnectDelay: 1000,  // Maximum reconnection delay 1 second
+    marketStreamSyncDelay: 100 // Batch window for market stream SUBSCRIBE/UNSUBSCRIBE (ms)
   }
 }
\ No newline at end of file
@@ -1,49 +1,70 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import CryptoJS from 'crypto-js';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { ProtectionLevel, NetworkType, ApiKeyType, VaultStatus, AccountProfile } from '../types';
+import { credentialVault } from '../services/credentialVault';
+import { binanceService } from '../services/binanceService';
+import { DEFAULT_PROFILE_ID, PROFILE_STORAGE_KEYS, getProfileStorageKey, clearProfileStorage } from '../utils/profileStorage';
 
 type PositionMode = 'one-way' | 'hedge';
-type NetworkType = 'testnet' | 'mainnet';
 type PriceChangeMode = 'day-close' | 'news-time';
 
-// Unique keys for LocalStorage
-const ENCRYPTION_KEY = 'cryptoTerminal_encKey';
-const STORAGE_KEY_API_KEY = 'cryptoTerminal_apiKey';
-const STORAGE_KEY_API_SECRET = 'cryptoTerminal_apiSecret';
-const STORAGE_KEY_NETWORK = 'cryptoTerminal_network';
+// Unique keys for LocalStorage, the credentials themselves live in the vault
 const STORAGE_KEY_SAVE_CREDENTIALS = 'cryptoTerminal_saveCredentials';
 const STORAGE_KEY_PRICE_CHANGE_MODE = 'cryptoTerminal_priceChangeMode';
+const STORAGE_KEY_PROFILES = 'cryptoTerminal_profiles';
+const STORAGE_KEY_ACTIVE_PROFILE = 'cryptoTerminal_activeProfile';
+// Before profiles, paper trading was remembered on its own
+const STORAGE_KEY_PAPER_TRADING = 'cryptoTerminal_paperTrading';
 
 // Define types for trade buttons
 export interface TradeButtonValues {
   long: string[];
   short: string[];
+  stopLossPercent?: number;   // Default stop-loss distance from entry (%)
+  takeProfitPercent?: number; // Default take-profit distance from entry (%)
 }
 
 export type SymbolTradeButtons = Record<string, TradeButtonValues>;
 
 interface SettingsContextType {
+  profiles: AccountProfile[];
+  activeProfileId: string;
   apiKey: string;
   apiSecret: string;
+  keyType: ApiKeyType;
   network: NetworkType;
+  isPaperTrading: boolean;
+  canTrade: boolean;
   positionMode: PositionMode;
   priceChangeMode: PriceChangeMode;
   tradeButtons: SymbolTradeButtons;
   globalTradeButtons: TradeButtonValues;
   saveCredentialsInCache: boolean;
+  vaultStatus: VaultStatus;
+  hasLegacyCredentials: boolean;
+  autoLockMinutes: number;
   setPositionMode: (mode: PositionMode) => void;
   setPriceChangeMode: (mode: PriceChangeMode) => void;
-  setApiCredentials: (key: string, secret: string, network: NetworkType) => void;
+  setApiCredentials: (key: string, secret: string, network: NetworkType, keyType: ApiKeyType, passphrase?: string) => Promise<void>;
   setSymbolTradeButtons: (symbol: string, values: TradeButtonValues) => void;
   updateGlobalTradeButtons: (values: TradeButtonValues) => void;
   setSaveCredentialsInCache: (save: boolean) => void;
   clearCachedCredentials: () => void;
+  unlockVault: (passphrase: string) => Promise<void>;
+  lockVault: () => void;
+  changeVaultPassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<void>;
+  setAutoLockMinutes: (minutes: number) => void;
+  switchProfile: (profileId: string) => void;
+  createProfile: (name: string) => void;
+  renameProfile: (profileId: string, name: string) => void;
+  deleteProfile: (profileId: string) => Promise<void>;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
-// Local storage keys
-const STORAGE_KEY_TRADE_BUTTONS = 'cryptoTerminal_tradeButtons';
-const STORAGE_KEY_GLOBAL_BUTTONS = 'cryptoTerminal_globalTradeButtons';
+// Local storage keys, scoped to the active profile
+const STORAGE_KEY_TRADE_BUTTONS = PROFILE_STORAGE_KEYS.tradeButtons;
+const STORAGE_KEY_GLOBAL_BUTTONS = PROFILE_STORAGE_KEYS.globalTradeButtons;
 
 // Default trade button values
 const DEFAULT_TRADE_BUTTONS: TradeButtonValues = {
@@ -51,21 +72,39 @@ const DEFAULT_TRADE_BUTTONS: TradeButtonValues = {
   short: ['10K', '25K', '50K']
 };
 
-// Şifreli veriyi çözen fonksiyon
-const decryptData = (data: string | null): string => {
-  if (!data) return '';
+type ProfileKeys = Record<string, { apiKey: string; apiSecret: string }>;
+
+// The first run turns the single account of older versions into the default profile
+const loadProfiles = (): AccountProfile[] => {
   try {
-    const bytes = CryptoJS.AES.decrypt(data, ENCRYPTION_KEY);
-    return bytes.toString(CryptoJS.enc.Utf8);
-  } catch (e) {
-    console.error('Decryption error:', e);
-    return '';
+    const saved = localStorage.getItem(STORAGE_KEY_PROFILES);
+    if (saved) {
+      const profiles: AccountProfile[] = JSON.parse(saved);
+      if (profiles.length > 0) return profiles;
+    }
+  } catch (error) {
+    console.error('Failed to load profiles:', error);
   }
+
+  const legacy = credentialVault.readLegacyCredentials();
+  const paperTrading = localStorage.getItem(STORAGE_KEY_PAPER_TRADING) === 'true';
+
+  return [{
+    id: DEFAULT_PROFILE_ID,
+    name: 'Main',
+    network: paperTrading ? 'paper' : legacy?.network || 'mainnet',
+    keyType: legacy?.keyType || 'hmac'
+  }];
 };
 
-// Veriyi şifreleyen fonksiyon
-const encryptData = (data: string): string => {
-  return CryptoJS.AES.encrypt(data, ENCRYPTION_KEY).toString();
+const loadTradeButtons = (profileId: string): SymbolTradeButtons => {
+  const saved = localStorage.getItem(getProfileStorageKey(STORAGE_KEY_TRADE_BUTTONS, profileId));
+  return saved ? JSON.parse(saved) : {};
+};
+
+const loadGlobalTradeButtons = (profileId: string): TradeButtonValues => {
+  const saved = localStorage.getItem(getProfileStorageKey(STORAGE_KEY_GLOBAL_BUTTONS, profileId));
+  return saved ? JSON.parse(saved) : DEFAULT_TRADE_BUTTONS;
 };
 
 export function SettingsProvider({ children }: { children: React.ReactNode }) {
@@ -75,18 +114,27 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     return savedMode ? savedMode as PriceChangeMode : 'day-close';
   });
   
-  // LocalStorage'dan şifreli API anahtarlarını al
-  const [{ apiKey, apiSecret, network }, setCredentials] = useState(() => {
-    const savedApiKey = localStorage.getItem(STORAGE_KEY_API_KEY);
-    const savedApiSecret = localStorage.getItem(STORAGE_KEY_API_SECRET);
-    const savedNetwork = localStorage.getItem(STORAGE_KEY_NETWORK);
-    
-    return { 
-      apiKey: savedApiKey ? decryptData(savedApiKey) : '', 
-      apiSecret: savedApiSecret ? decryptData(savedApiSecret) : '', 
-      network: (savedNetwork ? decryptData(savedNetwork) : 'mainnet') as NetworkType 
-    };
+  const [profiles, setProfiles] = useState<AccountProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState(() => {
+    const saved = localStorage.getItem(STORAGE_KEY_ACTIVE_PROFILE);
+    return saved && profiles.some(p => p.id === saved) ? saved : profiles[0].id;
   });
+  const activeProfile = profiles.find(p => p.id === activeProfileId) || profiles[0];
+  const { network, keyType } = activeProfile;
+
+  // Keys of every profile used this session. Saved keys stay in the vault until
+  // it is unlocked, keys saved by older versions are readable once so they can
+  // be moved into the vault.
+  const [profileKeys, setProfileKeys] = useState<ProfileKeys>((): ProfileKeys => {
+    const legacy = credentialVault.getStatus() === 'none' ? credentialVault.readLegacyCredentials() : null;
+    return legacy ? { [DEFAULT_PROFILE_ID]: { apiKey: legacy.apiKey, apiSecret: legacy.apiSecret } } : {};
+  });
+  const apiKey = profileKeys[activeProfile.id]?.apiKey || '';
+  const apiSecret = profileKeys[activeProfile.id]?.apiSecret || '';
+
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>(() => credentialVault.getStatus());
+  const [hasLegacyCredentials, setHasLegacyCredentials] = useState(() => !!credentialVault.readLegacyCredentials());
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(() => credentialVault.getAutoLockMinutes());
   
   // API anahtarlarını önbellekte saklama tercihini al
   const [saveCredentialsInCache, setSaveCredentialsInCache] = useState<boolean>(() => {
@@ -95,16 +143,28 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
   });
   
   // Initialize trade buttons state from localStorage or defaults
-  const [tradeButtons, setTradeButtons] = useState<SymbolTradeButtons>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY_TRADE_BUTTONS);
-    return saved ? JSON.parse(saved) : {};
-  });
+  const [tradeButtons, setTradeButtons] = useState<SymbolTradeButtons>(() => loadTradeButtons(activeProfile.id));
   
   // Global trade buttons that apply to all symbols
-  const [globalTradeButtons, setGlobalTradeButtons] = useState<TradeButtonValues>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY_GLOBAL_BUTTONS);
-    return saved ? JSON.parse(saved) : DEFAULT_TRADE_BUTTONS;
-  });
+  const [globalTradeButtons, setGlobalTradeButtons] = useState<TradeButtonValues>(() => loadGlobalTradeButtons(activeProfile.id));
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_PROFILES, JSON.stringify(profiles));
+    // Now part of the default profile
+    localStorage.removeItem(STORAGE_KEY_PAPER_TRADING);
+  }, [profiles]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_ACTIVE_PROFILE, activeProfile.id);
+  }, [activeProfile.id]);
+
+  // Connect the active profile on load, later changes go through the actions below
+  const hasConnectedRef = useRef(false);
+  useEffect(() => {
+    if (hasConnectedRef.current) return;
+    hasConnectedRef.current = true;
+    binanceService.switchProfile(activeProfile.id, apiKey, apiSecret, network, keyType);
+  }, [activeProfile.id, apiKey, apiSecret, network, keyType]);
 
   // Save priceChangeMode to localStorage when it changes
   useEffect(() => {
@@ -113,13 +173,13 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
 
   // Save to localStorage when trade buttons change
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_TRADE_BUTTONS, JSON.stringify(tradeButtons));
-  }, [tradeButtons]);
+    localStorage.setItem(getProfileStorageKey(STORAGE_KEY_TRADE_BUTTONS, activeProfile.id), JSON.stringify(tradeButtons));
+  }, [tradeButtons, activeProfile.id]);
 
   // Save to localStorage when global trade buttons change
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_GLOBAL_BUTTONS, JSON.stringify(globalTradeButtons));
-  }, [globalTradeButtons]);
+    localStorage.setItem(getProfileStorageKey(STORAGE_KEY_GLOBAL_BUTTONS, activeProfile.id), JSON.stringify(globalTradeButtons));
+  }, [globalTradeButtons, activeProfile.id]);
   
   // Save to localStorage when saveCredentialsInCache changes
   useEffect(() => {
@@ -127,30 +187,124 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     
     // saveCredentialsInCache false olursa, localStorage'dan api anahtarlarını sil
     if (!saveCredentialsInCache) {
-      localStorage.removeItem(STORAGE_KEY_API_KEY);
-      localStorage.removeItem(STORAGE_KEY_API_SECRET);
-      localStorage.removeItem(STORAGE_KEY_NETWORK);
+      credentialVault.destroy();
     }
   }, [saveCredentialsInCache]);
 
-  const setApiCredentials = (key: string, secret: string, network: NetworkType) => {
-    setCredentials({ apiKey: key, apiSecret: secret, network });
-    
-    // Eğer önbellekte saklamak isteniyorsa, api anahtarlarını şifrele ve localStorage'a kaydet
-    if (saveCredentialsInCache) {
-      localStorage.setItem(STORAGE_KEY_API_KEY, encryptData(key));
-      localStorage.setItem(STORAGE_KEY_API_SECRET, encryptData(secret));
-      localStorage.setItem(STORAGE_KEY_NETWORK, encryptData(network));
+  // Locking wipes the keys from memory, the saved ciphertext stays
+  useEffect(() => {
+    const unsubscribe = credentialVault.onStatusChange(status => {
+      setVaultStatus(status);
+      setHasLegacyCredentials(!!credentialVault.readLegacyCredentials());
+
+      if (status === 'locked') {
+        setProfileKeys({});
+        binanceService.clearCredentials();
+      }
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const updateProfile = (profileId: string, changes: Partial<AccountProfile>) => {
+    setProfiles(prev => prev.map(p => (p.id === profileId ? { ...p, ...changes } : p)));
+  };
+
+  // Applies to the active profile and reconnects with it. Throws when the
+  // vault rejects the passphrase, nothing is applied then.
+  const setApiCredentials = async (key: string, secret: string, network: NetworkType, keyType: ApiKeyType, passphrase?: string) => {
+    // Paper trading needs no keys, the saved ones are kept for the next live session
+    if (saveCredentialsInCache && network !== 'paper') {
+      await credentialVault.save(activeProfile.id, { apiKey: key, apiSecret: secret }, passphrase);
     }
+
+    setProfileKeys(prev => ({ ...prev, [activeProfile.id]: { apiKey: key, apiSecret: secret } }));
+    updateProfile(activeProfile.id, { network, keyType });
+    binanceService.updateCredentials(key, secret, network, keyType);
   };
   
   // API anahtarlarını önbellekten tamamen silen fonksiyon
   const clearCachedCredentials = () => {
-    localStorage.removeItem(STORAGE_KEY_API_KEY);
-    localStorage.removeItem(STORAGE_KEY_API_SECRET);
-    localStorage.removeItem(STORAGE_KEY_NETWORK);
+    credentialVault.destroy();
   };
 
+  const unlockVault = async (passphrase: string) => {
+    const entries = await credentialVault.unlock(passphrase);
+    const keys: ProfileKeys = {};
+    Object.entries(entries).forEach(([profileId, { apiKey, apiSecret }]) => {
+      keys[profileId] = { apiKey, apiSecret };
+    });
+    setProfileKeys(keys);
+
+    // Vaults written before profiles also hold the network and key type
+    let profile = activeProfile;
+    const legacyEntry = entries[DEFAULT_PROFILE_ID];
+    if (legacyEntry?.network && legacyEntry.keyType) {
+      const changes = { network: legacyEntry.network, keyType: legacyEntry.keyType };
+      updateProfile(DEFAULT_PROFILE_ID, changes);
+      if (profile.id === DEFAULT_PROFILE_ID) profile = { ...profile, ...changes };
+    }
+
+    const credentials = keys[profile.id];
+    if (credentials && profile.network !== 'paper') {
+      binanceService.updateCredentials(credentials.apiKey, credentials.apiSecret, profile.network, profile.keyType);
+    }
+  };
+
+  const lockVault = () => {
+    credentialVault.lock();
+  };
+
+  const changeVaultPassphrase = (currentPassphrase: string, newPassphrase: string) =>
+    credentialVault.changePassphrase(currentPassphrase, newPassphrase);
+
+  const setAutoLockMinutes = (minutes: number) => {
+    credentialVault.setAutoLockMinutes(minutes);
+    setAutoLockMinutesState(minutes);
+  };
+
+  const switchProfile = (profileId: string, knownProfiles = profiles) => {
+    const profile = knownProfiles.find(p => p.id === profileId);
+    if (!profile) return;
+
+    setActiveProfileId(profile.id);
+    setTradeButtons(loadTradeButtons(profile.id));
+    setGlobalTradeButtons(loadGlobalTradeButtons(profile.id));
+
+    const keys = profileKeys[profile.id];
+    binanceService.switchProfile(profile.id, keys?.apiKey || '', keys?.apiSecret || '', profile.network, profile.keyType);
+  };
+
+  const createProfile = (name: string) => {
+    const profile: AccountProfile = { id: uuidv4(), name, network: 'mainnet', keyType: 'hmac' };
+    const nextProfiles = [...profiles, profile];
+    setProfiles(nextProfiles);
+    switchProfile(profile.id, nextProfiles);
+  };
+
+  const renameProfile = (profileId: string, name: string) => {
+    updateProfile(profileId, { name });
+  };
+
+  // The active profile cannot be deleted, switch away first
+  const deleteProfile = async (profileId: string) => {
+    if (profileId === activeProfile.id) {
+      throw new Error('Switch to another profile before deleting this one');
+    }
+
+    await credentialVault.remove(profileId);
+    clearProfileStorage(profileId);
+    setProfiles(prev => prev.filter(p => p.id !== profileId));
+    setProfileKeys(prev => {
+      const next = { ...prev };
+      delete next[profileId];
+      return next;
+    });
+  };
+
+  const isPaperTrading = network === 'paper';
+  // Paper trading works without API keys
+  const canTrade = isPaperTrading || !!(apiKey && apiSecret);
+
   // Function to update trade button values for a specific symbol
   const setSymbolTradeButtons = (symbol: string, values: TradeButtonValues) => {
     setTradeButtons(prev => ({
@@ -166,18 +320,34 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
 
   return (
     <SettingsContext.Provider value={{ 
+      profiles,
+      activeProfileId: activeProfile.id,
+      switchProfile: (profileId: string) => switchProfile(profileId),
+      createProfile,
+      renameProfile,
+      deleteProfile,
       positionMode, 
       setPositionMode,
       priceChangeMode,
       setPriceChangeMode,
       apiKey,
       apiSecret,
+      keyType,
       network,
+      isPaperTrading,
+      canTrade,
       tradeButtons,
       globalTradeButtons,
       saveCredentialsInCache,
       setSaveCredentialsInCache,
       clearCachedCredentials,
+      vaultStatus,
+      hasLegacyCredentials,
+      autoLockMinutes,
+      unlockVault,
+      lockVault,
+      changeVaultPassphrase,
+      setAutoLockMinutes,
       setSymbolTradeButtons,
       updateGlobalTradeButtons,
       setApiCredentials
@@ -198,4 +368,12 @@ export const useSettings = () => {
 // Helper function to get trade button values for a symbol, with defaults if not set
 export const getSymbolTradeButtons = (tradeButtons: SymbolTradeButtons, globalButtons: TradeButtonValues, symbol: string): TradeButtonValues => {
   return tradeButtons[symbol] || globalButtons;
-};
\ No newline at end of file
+};
+
+// Helper function to turn the default SL/TP percentages into order protection levels
+export const getProtectionLevels = (values: TradeButtonValues): { stopLoss?: ProtectionLevel; takeProfit?: ProtectionLevel } => {
+  return {
+    stopLoss: values.stopLossPercent ? { type: 'percent', value: values.stopLossPercent } : undefined,
+    takeProfit: values.takeProfitPercent ? { type: 'percent', value: values.takeProfitPercent } : undefined
+  };
+};
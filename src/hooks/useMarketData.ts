@@ -1,24 +1,24 @@
 import { useState, useEffect, useCallback } from 'react';
 import { binanceService } from '../services/binanceService';
+import type { MarketTicker } from '../types';
 
-interface MarketData {
-  symbol: string;
-  price: string;
-  priceChangePercent: string;
+interface MarketData extends MarketTicker {
   previousDayClose?: number;
-  newsPriceChange?: string;
+  dayCloseChange?: string;  // Change since the previous UTC daily close
+  newsPriceChange?: string; // Change since the close of the news minute
 }
 
 // Central cache system
-const marketDataCache = new Map<string, MarketData>();
+const marketDataCache = new Map<string, MarketTicker>();
 const subscriberCountMap = new Map<string, number>();
 const previousDayCloseCache = new Map<string, Promise<number>>();
 const newsPriceChangeCache = new Map<string, Record<number, Promise<number>>>();
 
 // Simple implementation for event emitter
-const listeners = new Map<string, Set<(data: MarketData) => void>>();
+const listeners = new Map<string, Set<(data: MarketTicker) => void>>();
+const serviceUnsubscribers = new Map<string, () => void>();
 
-function notifyListeners(symbol: string, data: MarketData) {
+function notifyListeners(symbol: string, data: MarketTicker) {
   const symbolListeners = listeners.get(symbol);
   if (symbolListeners) {
     symbolListeners.forEach(listener => listener(data));
@@ -133,23 +133,25 @@ function subscribeToSymbol(symbol: string) {
   const currentCount = subscriberCountMap.get(symbol) || 0;
   subscriberCountMap.set(symbol, currentCount + 1);
 
-  // Only establish WebSocket connection on first subscription
+  // Only subscribe to the market streams on first subscription
   if (currentCount === 0) {
-    binanceService.subscribeToMarketData(symbol, (data) => {
+    const unsubscribe = binanceService.subscribeToMarketData(symbol, (data) => {
       marketDataCache.set(symbol, data);
       notifyListeners(symbol, data);
     });
+    serviceUnsubscribers.set(symbol, unsubscribe);
   }
 
   return () => {
     const newCount = (subscriberCountMap.get(symbol) || 1) - 1;
     subscriberCountMap.set(symbol, newCount);
 
-    // Close WebSocket connection when last subscriber unsubscribes
+    // Drop the symbol's streams when last subscriber unsubscribes
     if (newCount === 0) {
       subscriberCountMap.delete(symbol);
       marketDataCache.delete(symbol);
-      binanceService.unsubscribeFromMarketData(symbol, () => {});
+      serviceUnsubscribers.get(symbol)?.();
+      serviceUnsubscribers.delete(symbol);
     }
   };
 }
@@ -201,15 +203,15 @@ export function useMarketData(symbol: string, newsTimestamp?: number): MarketDat
     if (!symbol) return;
 
     // Register listener
-    const listener = (data: MarketData) => {
-      const priceChangePercent = calculatePriceChange(data.price);
+    const listener = (data: MarketTicker) => {
+      const dayCloseChange = previousClose ? calculatePriceChange(data.price) : undefined;
       
       // Calculate news price change if we have a reference price
       const newsPriceChange = newsReferencePrice ? calculateNewsPriceChange(data.price) : undefined;
       
       const updatedData = {
         ...data,
-        priceChangePercent,
+        dayCloseChange,
         previousDayClose: previousClose || undefined,
         newsPriceChange: newsPriceChange
       };
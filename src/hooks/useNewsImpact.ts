@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { newsImpactService } from '../services/newsImpact';
+import { RequestShedError } from '../services/rateLimiter';
+import { websocketConfig } from '../config/websocket';
+import type { NewsImpact, NewsItem } from '../types';
+
+// Post-news price impact of every symbol of a headline, refreshed until all horizons have passed
+export function useNewsImpact(news: NewsItem, symbols: string[]): Record<string, NewsImpact | null> {
+  const [impacts, setImpacts] = useState<Record<string, NewsImpact | null>>(() =>
+    Object.fromEntries(symbols.map(symbol => [symbol, newsImpactService.getCachedImpact(news.id, symbol)]))
+  );
+  const symbolKey = symbols.join(',');
+  const { id, timestamp, source, sourceName } = news;
+
+  useEffect(() => {
+    const symbolList = symbolKey ? symbolKey.split(',') : [];
+    if (symbolList.length === 0) return;
+
+    const item = { id, timestamp, source, sourceName };
+    let cancelled = false;
+
+    const load = () => {
+      Promise.all(symbolList.map(symbol =>
+        newsImpactService.getImpact(item, symbol).catch(error => {
+          // Shed by the rate limiter, the next refresh tries again
+          if (!(error instanceof RequestShedError)) {
+            console.error(`Failed to load news impact for ${symbol}:`, error);
+          }
+          return newsImpactService.getCachedImpact(id, symbol);
+        })
+      )).then(results => {
+        if (cancelled) return;
+        setImpacts(Object.fromEntries(symbolList.map((symbol, index) => [symbol, results[index]])));
+        if (results.every(impact => impact?.complete)) {
+          window.clearInterval(interval);
+        }
+      });
+    };
+
+    const interval = window.setInterval(load, websocketConfig.newsImpact.refreshInterval);
+    load();
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [id, timestamp, source, sourceName, symbolKey]);
+
+  return impacts;
+}
@@ -0,0 +1,341 @@
+import { v4 as uuidv4 } from 'uuid';
+import { binanceService, showToast, DuplicateOrderError } from './binanceService';
+import { newsService } from './newsService';
+import { tradeJournal } from './tradeJournal';
+import { OrderStatusUnknownError } from './wsRequestManager';
+import { getNewsContentType } from '../utils/newsContent';
+import type { AutoTradeRule, AutoTradeLogEntry, AutoTradeFill, NewsItem } from '../types';
+
+const STORAGE_KEY_RULES = 'cryptoTerminal_autoTradeRules';
+const STORAGE_KEY_LOG = 'cryptoTerminal_autoTradeLog';
+const STORAGE_KEY_FILLS = 'cryptoTerminal_autoTradeFills';
+
+const MAX_LOG_ENTRIES = 200;
+const PRICE_WAIT_TIMEOUT = 3000; // How long to wait for the first tick of a symbol nobody watches yet (ms)
+const NOTIONAL_WINDOW = 24 * 60 * 60 * 1000;
+
+const normalizeSymbol = (symbol: string): string => {
+  const upper = symbol.trim().toUpperCase();
+  return upper.endsWith('USDT') ? upper : `${upper}USDT`;
+};
+
+const equalsIgnoreCase = (a: string | undefined, b: string) => (a || '').toLowerCase() === b.toLowerCase();
+
+// Symbols of the news item the rule is allowed to trade
+const getTargetSymbols = (rule: AutoTradeRule, item: NewsItem): string[] => {
+  const newsSymbols = (item.symbol || '').split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+  if (rule.symbols.length === 0) return newsSymbols;
+
+  const allowed = new Set(rule.symbols.map(normalizeSymbol));
+  return newsSymbols.filter(symbol => allowed.has(symbol));
+};
+
+const matchesRule = (rule: AutoTradeRule, item: NewsItem): boolean => {
+  if (rule.sources.length > 0 && !rule.sources.some(source => equalsIgnoreCase(item.source, source))) {
+    return false;
+  }
+  if (rule.sourceNames.length > 0 && !rule.sourceNames.some(name => equalsIgnoreCase(item.sourceName, name))) {
+    return false;
+  }
+  if (rule.contentTypes.length > 0 && !rule.contentTypes.includes(getNewsContentType(item))) {
+    return false;
+  }
+
+  const text = `${item.title || ''}\n${item.description || ''}`;
+  if (rule.keywords.length > 0 && !rule.keywords.some(keyword => text.toLowerCase().includes(keyword.toLowerCase()))) {
+    return false;
+  }
+  if (rule.regex) {
+    try {
+      if (!new RegExp(rule.regex, 'i').test(text)) return false;
+    } catch (error) {
+      console.error(`Invalid regex in auto-trade rule ${rule.name}:`, error);
+      return false;
+    }
+  }
+
+  return getTargetSymbols(rule, item).length > 0;
+};
+
+// Fires orders for live news that matches the configured rules. Rules and
+// the activity log persist, the armed state deliberately does not.
+class AutoTradingService {
+  private rules: AutoTradeRule[] = [];
+  private log: AutoTradeLogEntry[] = [];
+  private armed = false;
+  private positionMode: 'one-way' | 'hedge' = 'one-way';
+  private stateHandlers: (() => void)[] = [];
+  private unsubscribeNews: (() => void) | null = null;
+  // Orders sent or on their way, what cooldowns and caps are checked against.
+  // Kept apart from the display log and pruned by age, never by count.
+  private fills: AutoTradeFill[] = [];
+
+  constructor() {
+    this.rules = this.load<AutoTradeRule[]>(STORAGE_KEY_RULES, []);
+    this.log = this.load<AutoTradeLogEntry[]>(STORAGE_KEY_LOG, []);
+    // Before the history was kept separately the placed log entries were it
+    this.fills = this.load<AutoTradeFill[]>(
+      STORAGE_KEY_FILLS,
+      this.log
+        .filter(e => e.status === 'placed')
+        .map(e => ({ ruleId: e.ruleId, symbol: e.symbol, notional: e.notional, timestamp: e.timestamp }))
+    );
+
+    binanceService.onPositionModeChange(mode => {
+      this.positionMode = mode;
+    });
+
+    // A tripped kill switch stops the automation as well as manual entries
+    binanceService.onRiskStateChange(state => {
+      if (state.killSwitchActive) this.disarm();
+    });
+
+    // Rules were armed for one account, never carry that over to another
+    binanceService.onProfileChange(() => this.disarm());
+  }
+
+  isArmed(): boolean {
+    return this.armed;
+  }
+
+  arm() {
+    if (this.armed) return;
+    this.armed = true;
+    this.unsubscribeNews = newsService.onLiveNews(item => this.handleNews(item));
+    console.log('Auto-trading armed');
+    this.notify();
+  }
+
+  disarm() {
+    if (!this.armed) return;
+    this.armed = false;
+    this.unsubscribeNews?.();
+    this.unsubscribeNews = null;
+    console.log('Auto-trading disarmed');
+    this.notify();
+  }
+
+  getRules(): AutoTradeRule[] {
+    return this.rules;
+  }
+
+  saveRule(rule: AutoTradeRule) {
+    const exists = this.rules.some(r => r.id === rule.id);
+    this.rules = exists
+      ? this.rules.map(r => r.id === rule.id ? rule : r)
+      : [...this.rules, rule];
+    this.persistRules();
+  }
+
+  deleteRule(id: string) {
+    this.rules = this.rules.filter(r => r.id !== id);
+    this.persistRules();
+  }
+
+  setRuleEnabled(id: string, enabled: boolean) {
+    this.rules = this.rules.map(r => r.id === id ? { ...r, enabled } : r);
+    this.persistRules();
+  }
+
+  createRule(): AutoTradeRule {
+    return {
+      id: uuidv4(),
+      name: 'New rule',
+      enabled: false,
+      sources: [],
+      sourceNames: [],
+      symbols: [],
+      keywords: [],
+      contentTypes: [],
+      side: 'BUY',
+      notional: 1000,
+      maxNotional: 10000,
+      cooldownSeconds: 300
+    };
+  }
+
+  getLog(): AutoTradeLogEntry[] {
+    return this.log;
+  }
+
+  clearLog() {
+    this.log = [];
+    localStorage.setItem(STORAGE_KEY_LOG, JSON.stringify(this.log));
+    this.notify();
+  }
+
+  onStateChange(handler: () => void) {
+    this.stateHandlers.push(handler);
+    return () => {
+      this.stateHandlers = this.stateHandlers.filter(h => h !== handler);
+    };
+  }
+
+  private handleNews(item: NewsItem) {
+    if (!this.armed) return;
+
+    this.rules
+      .filter(rule => rule.enabled && matchesRule(rule, item))
+      .forEach(rule => {
+        getTargetSymbols(rule, item).forEach(symbol => {
+          this.fire(rule, item, symbol).catch(error => {
+            console.error(`Auto-trade rule ${rule.name} failed:`, error);
+          });
+        });
+      });
+  }
+
+  private async fire(rule: AutoTradeRule, item: NewsItem, symbol: string) {
+    const entry: Omit<AutoTradeLogEntry, 'id' | 'timestamp' | 'status'> = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      newsId: item.id,
+      newsTitle: item.title || item.description.slice(0, 120),
+      symbol,
+      side: rule.side,
+      notional: rule.notional
+    };
+
+    // All symbols of a headline fire at once, so the checks also count the
+    // orders still waiting for a price or an acknowledgement
+    const now = Date.now();
+    this.pruneFills(now);
+    const placed = this.fills.filter(f => f.ruleId === rule.id);
+
+    const lastFired = placed.find(f => f.symbol === symbol);
+    if (lastFired && now - lastFired.timestamp < rule.cooldownSeconds * 1000) {
+      this.addLog({ ...entry, status: 'skipped', message: 'Cooldown active' });
+      return;
+    }
+
+    const usedNotional = placed
+      .filter(f => now - f.timestamp < NOTIONAL_WINDOW)
+      .reduce((sum, f) => sum + f.notional, 0);
+    if (usedNotional + rule.notional > rule.maxNotional) {
+      this.addLog({ ...entry, status: 'skipped', message: `24h max notional reached (${usedNotional}/${rule.maxNotional} USDT)` });
+      return;
+    }
+
+    if (!binanceService.canPlaceOrders()) {
+      this.addLog({ ...entry, status: 'failed', message: 'Not connected to an account' });
+      return;
+    }
+
+    // Reserved before the first await, released again if the order is not sent
+    const fill: AutoTradeFill = { ruleId: rule.id, symbol, notional: rule.notional, timestamp: now };
+    this.fills = [fill, ...this.fills];
+    let sent = false;
+
+    // Hold a market data subscription so the order has a price to size against
+    let release: (() => void) | null = null;
+    try {
+      release = await this.acquirePrice(symbol);
+
+      if (!binanceService.getCurrentPrice(symbol)) {
+        this.addLog({ ...entry, status: 'failed', message: 'No market price available' });
+        return;
+      }
+
+      const result = await tradeJournal.placeOrder(item, {
+        symbol,
+        side: rule.side,
+        positionMode: this.positionMode,
+        type: 'MARKET',
+        leverage: rule.notional.toString(),
+        stopLoss: rule.stopLossPercent ? { type: 'percent', value: rule.stopLossPercent } : undefined,
+        takeProfit: rule.takeProfitPercent ? { type: 'percent', value: rule.takeProfitPercent } : undefined
+      }, 'auto');
+
+      if (!result) {
+        this.addLog({ ...entry, status: 'failed', message: 'Order was not sent' });
+        return;
+      }
+
+      sent = true;
+      this.addLog({ ...entry, status: 'placed' });
+      showToast(`Auto-trade: ${rule.side === 'BUY' ? 'LONG' : 'SHORT'} ${symbol} ${rule.notional} USDT (${rule.name}, ${result.clientOrderId})`, 'success');
+    } catch (error) {
+      // Another rule already sent this exact order for the headline
+      if (error instanceof DuplicateOrderError) {
+        this.addLog({ ...entry, status: 'skipped', message: error.message });
+        return;
+      }
+
+      // The order may still have gone through, keep counting it
+      sent = error instanceof OrderStatusUnknownError;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.addLog({ ...entry, status: 'failed', message });
+      showToast(`Auto-trade ${rule.name} failed on ${symbol}: ${message}`);
+    } finally {
+      release?.();
+      if (!sent) {
+        this.fills = this.fills.filter(f => f !== fill);
+      }
+      this.persistFills();
+    }
+  }
+
+  // Older fills no longer affect any cooldown or the 24h cap
+  private pruneFills(now: number) {
+    const maxAge = Math.max(NOTIONAL_WINDOW, ...this.rules.map(rule => rule.cooldownSeconds * 1000));
+    this.fills = this.fills.filter(f => now - f.timestamp < maxAge);
+  }
+
+  private persistFills() {
+    localStorage.setItem(STORAGE_KEY_FILLS, JSON.stringify(this.fills));
+  }
+
+  // Subscribes to the symbol and resolves once a price is known or the wait times out
+  private acquirePrice(symbol: string): Promise<() => void> {
+    return new Promise(resolve => {
+      let release: (() => void) | null = null;
+      let settled = false;
+      let timeout: number | null = null;
+
+      // A cached ticker is delivered synchronously, before release is assigned
+      const handler = () => {
+        if (settled) return;
+        settled = true;
+        if (timeout) window.clearTimeout(timeout);
+        if (release) resolve(release);
+      };
+
+      release = binanceService.subscribeToMarketData(symbol, handler);
+      if (settled || binanceService.getCurrentPrice(symbol)) {
+        settled = true;
+        resolve(release);
+        return;
+      }
+
+      timeout = window.setTimeout(handler, PRICE_WAIT_TIMEOUT);
+    });
+  }
+
+  private addLog(entry: Omit<AutoTradeLogEntry, 'id' | 'timestamp'>) {
+    // Newest first
+    this.log = [{ ...entry, id: uuidv4(), timestamp: Date.now() }, ...this.log].slice(0, MAX_LOG_ENTRIES);
+    localStorage.setItem(STORAGE_KEY_LOG, JSON.stringify(this.log));
+    this.notify();
+  }
+
+  private persistRules() {
+    localStorage.setItem(STORAGE_KEY_RULES, JSON.stringify(this.rules));
+    this.notify();
+  }
+
+  private notify() {
+    this.stateHandlers.forEach(handler => handler());
+  }
+
+  private load<T>(key: string, fallback: T): T {
+    try {
+      const saved = localStorage.getItem(key);
+      return saved ? JSON.parse(saved) : fallback;
+    } catch (error) {
+      console.error(`Failed to load ${key}:`, error);
+      return fallback;
+    }
+  }
+}
+
+export const autoTradingService = new AutoTradingService();
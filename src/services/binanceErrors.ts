@@ -0,0 +1,171 @@
+export type BinanceErrorCategory =
+  | 'timestamp'
+  | 'margin'
+  | 'reduceOnly'
+  | 'positionLimit'
+  | 'precision'
+  | 'rateLimit'
+  | 'ipWhitelist'
+  | 'permissions'
+  | 'openExposure'
+  | 'unknown';
+
+interface BinanceErrorInfo {
+  category: BinanceErrorCategory;
+  explanation: string;
+  fix: string;
+}
+
+// What each known USDⓈ-M futures error code means for the user and what they can do about it
+const BINANCE_ERROR_CODES: Record<number, BinanceErrorInfo> = {
+  [-1021]: {
+    category: 'timestamp',
+    explanation: 'Binance rejected the request time even after resyncing with its clock.',
+    fix: 'Sync your computer clock with an internet time server and check your connection latency.'
+  },
+  [-1003]: {
+    category: 'rateLimit',
+    explanation: 'Too many requests were sent to Binance in a short time.',
+    fix: 'Wait a minute before retrying, and pause auto-trading rules that fire in bursts.'
+  },
+  [-1015]: {
+    category: 'rateLimit',
+    explanation: 'Too many new orders were sent to Binance in a short time.',
+    fix: 'Wait a few seconds before placing the next order.'
+  },
+  [-1111]: {
+    category: 'precision',
+    explanation: 'The price or quantity has more decimals than the symbol allows.',
+    fix: 'Refresh the page to reload symbol precision and try again.'
+  },
+  [-1013]: {
+    category: 'precision',
+    explanation: 'The order does not pass the symbol\'s price or quantity filters.',
+    fix: 'Check the price and order size against the symbol\'s limits.'
+  },
+  [-4014]: {
+    category: 'precision',
+    explanation: 'The price is not a multiple of the symbol\'s tick size.',
+    fix: 'Round the price to the symbol\'s tick size.'
+  },
+  [-4023]: {
+    category: 'precision',
+    explanation: 'The quantity is not a multiple of the symbol\'s step size.',
+    fix: 'Refresh the page to reload symbol precision and try again.'
+  },
+  [-4164]: {
+    category: 'precision',
+    explanation: 'The order is below the symbol\'s minimum notional value.',
+    fix: 'Increase the order size.'
+  },
+  [-2018]: {
+    category: 'margin',
+    explanation: 'The futures wallet balance is insufficient.',
+    fix: 'Transfer USDT to the futures wallet or lower the order size.'
+  },
+  [-2019]: {
+    category: 'margin',
+    explanation: 'There is not enough available margin for this order.',
+    fix: 'Lower the order size, raise the leverage, or add USDT to the futures wallet.'
+  },
+  [-2028]: {
+    category: 'margin',
+    explanation: 'The margin balance is too low for this leverage.',
+    fix: 'Add margin or choose a higher leverage.'
+  },
+  [-2022]: {
+    category: 'reduceOnly',
+    explanation: 'The reduce-only order would not reduce the position.',
+    fix: 'The position may already be closed or smaller than the order. Refresh positions and try again.'
+  },
+  [-4118]: {
+    category: 'reduceOnly',
+    explanation: 'The reduce-only order conflicts with the position or other reduce-only orders.',
+    fix: 'Cancel the open reduce-only orders for this symbol and try again.'
+  },
+  [-2027]: {
+    category: 'positionLimit',
+    explanation: 'The position would exceed the maximum allowed at the current leverage.',
+    fix: 'Lower the leverage or the order size.'
+  },
+  [-4005]: {
+    category: 'positionLimit',
+    explanation: 'The quantity is above the symbol\'s maximum order quantity.',
+    fix: 'Split the order into smaller ones.'
+  },
+  [-2025]: {
+    category: 'positionLimit',
+    explanation: 'The symbol has reached the maximum number of open orders.',
+    fix: 'Cancel some open orders for this symbol first.'
+  },
+  [-4047]: {
+    category: 'openExposure',
+    explanation: 'The margin type cannot change while the symbol has open orders.',
+    fix: 'Cancel the symbol\'s open orders first.'
+  },
+  [-4048]: {
+    category: 'openExposure',
+    explanation: 'The margin type cannot change while the symbol has an open position.',
+    fix: 'Close the position first.'
+  },
+  [-4067]: {
+    category: 'openExposure',
+    explanation: 'The position mode cannot change while there are open orders.',
+    fix: 'Cancel all open orders first.'
+  },
+  [-4068]: {
+    category: 'openExposure',
+    explanation: 'The position mode cannot change while there are open positions.',
+    fix: 'Close all positions first.'
+  },
+  [-2015]: {
+    category: 'ipWhitelist',
+    explanation: 'Binance refused the API key from this IP address or for this action.',
+    fix: 'Add your IP to the key\'s whitelist in Binance API Management and make sure futures trading is enabled for the key.'
+  },
+  [-2014]: {
+    category: 'permissions',
+    explanation: 'The API key format is invalid.',
+    fix: 'Copy the API key again from Binance API Management into the settings.'
+  },
+  [-1022]: {
+    category: 'permissions',
+    explanation: 'The request signature is invalid.',
+    fix: 'Check that the secret or private key matches the API key and the selected key type.'
+  },
+  [-1002]: {
+    category: 'permissions',
+    explanation: 'The API key is not authorized for this request.',
+    fix: 'Enable futures trading for the key in Binance API Management.'
+  },
+  [-4087]: {
+    category: 'permissions',
+    explanation: 'The account may only place reduce-only orders.',
+    fix: 'Check the account status in Binance, only closing positions is allowed.'
+  },
+  [-4088]: {
+    category: 'permissions',
+    explanation: 'The account cannot place orders right now.',
+    fix: 'Check the account status and any restrictions in Binance.'
+  }
+};
+
+// An error response from Binance, with a message that says what went wrong and how to fix it
+export class BinanceApiError extends Error {
+  readonly category: BinanceErrorCategory;
+  readonly explanation: string;
+  readonly fix: string | null;
+
+  constructor(readonly code: number | null, readonly rawMessage: string) {
+    const info = code !== null ? BINANCE_ERROR_CODES[code] : undefined;
+    super(info ? `${info.explanation} ${info.fix} (Binance ${code})` : rawMessage);
+    this.name = 'BinanceApiError';
+    this.category = info?.category ?? 'unknown';
+    this.explanation = info?.explanation ?? rawMessage;
+    this.fix = info?.fix ?? null;
+  }
+}
+
+// Wraps the error body of a REST or WS-API response
+export const toBinanceError = (error: { code?: number; msg?: string } | null | undefined, fallback: string): BinanceApiError =>
+  new BinanceApiError(typeof error?.code === 'number' ? error.code : null, error?.msg || fallback);
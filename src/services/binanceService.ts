@@ -1,7 +1,41 @@
 import { v4 as uuidv4 } from 'uuid';
-import CryptoJS from 'crypto-js';
 import { websocketConfig } from '../config/websocket';
-import type { Position } from '../types';
+import type { Position, ProtectionLevel, OpenOrder, OrderResult, OrderFill, OrderPreview, MarketTicker, NetworkType, ApiKeyType, RiskLimits, RiskState, ClockSkew, RequestActivity, RateLimitState, Kline, PaperReplay } from '../types';
+import {
+  UserDataStream,
+  type UserDataEvent,
+  type UserDataStreamStatus,
+  type AccountUpdateEvent,
+  type OrderTradeUpdateEvent,
+  type MarginCallEvent
+} from './userDataStream';
+import { PaperTradingEngine } from './paperTradingEngine';
+import { createRequestSigner } from './requestSigner';
+import { RiskManager } from './riskManager';
+import { latencyMonitor } from './latencyMonitor';
+import { WsRequestManager, WsRequestError, OrderStatusUnknownError } from './wsRequestManager';
+import { toBinanceError } from './binanceErrors';
+import { RateLimiter, RequestShedError, type RequestPriority, type BinanceRateLimit } from './rateLimiter';
+import { LocalOrderBook, type DepthUpdateEvent, type DepthSnapshot } from './orderBook';
+import { DEFAULT_PROFILE_ID } from '../utils/profileStorage';
+
+// Leverage brackets need a signed request, so the last fetched set is kept for paper trading
+const STORAGE_KEY_LEVERAGE_BRACKETS = 'cryptoTerminal_leverageBrackets';
+
+// Binance rejects a request whose timestamp is outside recvWindow of its own clock
+const TIMESTAMP_ERROR_CODE = -1021;
+const ORDER_NOT_FOUND_CODE = -2013;
+
+const MINUTE = 60 * 1000;
+
+// Sent with every order so it can be looked up when its response is lost
+export const createClientOrderId = () => `ct_${uuidv4().replace(/-/g, '')}`;
+
+// Alphabetical key=value pairs, signed and sent in exactly this form
+const toQueryString = (params: Record<string, string | number>) => Object.keys(params)
+  .sort()
+  .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(params[key])}`)
+  .join('&');
 
 // Add NodeJS namespace
 declare global {
@@ -19,13 +53,72 @@ declare global {
   }
 }
 
-interface OrderParams {
+export interface OrderParams {
   symbol: string;
   side: 'BUY' | 'SELL';
   positionMode: 'one-way' | 'hedge';
   type: 'LIMIT' | 'MARKET';
   leverage: string;
   price?: string;
+  stopLoss?: ProtectionLevel;
+  takeProfit?: ProtectionLevel;
+  newsId?: string; // News item the order reacts to, timed by the latency diagnostics
+  clientOrderId?: string; // Generated when missing
+  confirmDuplicate?: boolean; // The user chose to repeat an order inside the dedupe window
+}
+
+// An identical order went out moments ago, most likely a double click
+export class DuplicateOrderError extends Error {
+  constructor(readonly symbol: string, readonly side: 'BUY' | 'SELL', readonly ageMs: number) {
+    super(`The same ${side === 'BUY' ? 'long' : 'short'} ${symbol} order was sent ${(ageMs / 1000).toFixed(1)}s ago`);
+    this.name = 'DuplicateOrderError';
+  }
+}
+
+// Orders count as identical when they would open the same position the same way
+const getOrderDedupeKey = (params: OrderParams) =>
+  [params.symbol, params.side, params.type, parseOrderNotional(params.leverage), params.price || ''].join('|');
+
+// "5K" is 5000 USDT, "250" is 250 USDT, anything else the 1000 USDT default
+export const parseOrderNotional = (value: string): number => {
+  const kMatch = value.match(/(\d+)K/);
+  if (kMatch) {
+    return parseInt(kMatch[1]) * 1000;
+  }
+  const numberMatch = value.match(/(\d+)/);
+  return numberMatch ? parseInt(numberMatch[1]) : 1000;
+};
+
+type EntryFill = Pick<OrderResult, 'orderId' | 'symbol' | 'status' | 'executedQty' | 'avgPrice'>;
+
+// Payloads of the markPrice, miniTicker and bookTicker market streams
+type MarketStreamEvent =
+  | { e: 'markPriceUpdate'; s: string; p: string; i: string; r: string; T: number }
+  | { e: '24hrMiniTicker'; s: string; c: string; o: string; h: string; l: string; v: string; q: string }
+  | { e: 'bookTicker'; s: string; b: string; B: string; a: string; A: string };
+
+// Reply to a WS-API request, matched to it by id
+interface WsApiResponse<T> {
+  id: string;
+  status: number;
+  result?: T;
+  error?: { code: number; msg: string; data?: { retryAfter?: number } };
+  rateLimits?: BinanceRateLimit[];
+}
+
+// Protection legs waiting for their entry order to fill
+interface PendingProtection {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  positionSide: 'BOTH' | 'LONG' | 'SHORT';
+  stopLoss?: ProtectionLevel;
+  takeProfit?: ProtectionLevel;
+}
+
+// Order whose request got no response, waiting to be looked up by client order id
+interface UnknownOrder {
+  symbol: string;
+  protection?: PendingProtection;
 }
 
 // Define the LeverageBracket interface
@@ -50,7 +143,7 @@ if (typeof window !== 'undefined') {
 }
 
 // Helper function to show toast messages
-function showToast(message: string, type: 'error' | 'success' | 'warning' = 'error') {
+export function showToast(message: string, type: 'error' | 'success' | 'warning' = 'error') {
   if (typeof window !== 'undefined' && window.toastEvent) {
     window.toastEvent.dispatchEvent(
       new CustomEvent('showToast', { detail: { message, type } })
@@ -61,25 +154,44 @@ function showToast(message: string, type: 'error' | 'success' | 'warning' = 'err
 class BinanceService {
   private apiKey: string = '';
   private apiSecret: string = '';
-  private network: 'testnet' | 'mainnet' = 'mainnet';
+  private keyType: ApiKeyType = 'hmac';
+  private signer: ((payload: string) => string) | null = null;
+  private sessionLoggedOn = false;
+  private network: NetworkType = 'mainnet';
+  private profileId = DEFAULT_PROFILE_ID;
+  private profileHandlers: ((profileId: string) => void)[] = [];
+  // Bumped whenever the account changes, REST responses for an older one are dropped
+  private accountGeneration = 0;
   private ws: WebSocket | null = null;
-  private messageHandlers: Map<string, (response: any) => void> = new Map();
+  private requests = new WsRequestManager();
+  private unknownOrders: Map<string, UnknownOrder> = new Map();
+  // When each distinct order was last sent, for the duplicate window
+  private recentOrders: Map<string, number> = new Map();
+  private requestActivityHandlers: ((activity: RequestActivity) => void)[] = [];
   private balanceHandlers: ((balances: any[]) => void)[] = [];
   private positionHandlers: ((positions: Position[]) => void)[] = [];
   private positionMap: Map<string, Position> = new Map();
   private marketDataWs: WebSocket | null = null;
   private subscribedSymbols: Set<string> = new Set();
+  private activeMarketStreams: Set<string> = new Set();
   private marketPrices: Map<string, number> = new Map();
+  private marketTickers: Map<string, MarketTicker> = new Map();
+  private marketStreamRequestId = 0;
+  private marketStreamSyncTimeout: number | null = null;
+  private marketDataReconnectTimeout: number | null = null;
+  private marketDataRetryCount = 0;
+  private marketDataHeartbeatInterval: number | null = null;
+  private lastMarketDataMessage = 0;
   private symbolInfo: Map<string, any> = new Map();
-  private marketDataHandlers: Map<string, Set<(data: any) => void>> = new Map();
-  private isReconnecting = false;
+  private marketDataHandlers: Map<string, Set<(data: MarketTicker) => void>> = new Map();
+  private orderBooks: Map<string, LocalOrderBook> = new Map();
+  private orderBookHandlers: Map<string, Set<(book: LocalOrderBook) => void>> = new Map();
+  // Symbols with a depth snapshot on its way, or waiting to retry one
+  private orderBookSnapshots: Set<string> = new Set();
   private reconnectTimeout: number | null = null;
   private retryCount = 0;
   private lastHeartbeat = 0;
   private heartbeatInterval: number | null = null;
-  private priceUpdateIntervals: Map<string, number> = new Map();
-  private messageQueue: Map<string, number> = new Map();
-  private lastRequestTime: Map<string, number> = new Map();
   private connectionStatusHandlers: ((status: 'connecting' | 'connected' | 'disconnected') => void)[] = [];
   private currentStatus: 'connecting' | 'connected' | 'disconnected' = 'disconnected';
   private exchangeInfo: any = null;
@@ -89,52 +201,134 @@ class BinanceService {
   private leverageBracketHandlers: ((brackets: LeverageBracket[]) => void)[] = [];
   private marginTypeMap: Map<string, 'ISOLATED' | 'CROSSED'> = new Map();
   private marginTypeHandlers: ((marginTypes: Map<string, 'ISOLATED' | 'CROSSED'>) => void)[] = [];
+  private symbolLeverage: Map<string, number> = new Map();
   private positionUpdateInterval: number | null = null;
+  private balanceUpdateInterval: number | null = null;
+  private openOrdersUpdateInterval: number | null = null;
+  private pendingProtection: Map<number, PendingProtection> = new Map();
+  private userDataStream = new UserDataStream(
+    event => this.handleUserDataEvent(event),
+    status => this.handleUserDataStreamStatus(status)
+  );
+  private accountRefreshTimeout: number | null = null;
+  private positionPriceSubscriptions: Map<string, () => void> = new Map();
+  private openOrders: Map<number, OpenOrder> = new Map();
+  private openOrderHandlers: ((orders: OpenOrder[]) => void)[] = [];
+  private orderFillHandlers: ((fill: OrderFill) => void)[] = [];
+  private paperEngine = new PaperTradingEngine({
+    getLeverageBracket: (symbol) => this.leverageBrackets.get(symbol),
+    onOrderUpdate: (event) => this.applyOrderUpdate(event),
+    onAccountUpdate: (balanceChanged) => this.emitPaperAccount(balanceChanged),
+    onLiquidation: (symbol, positionSide) => {
+      showToast(`Paper position ${symbol} (${positionSide}) was liquidated`, 'warning');
+    }
+  });
+  private paperReplay: PaperReplay | null = null;
+  private paperReplayTimer: number | null = null;
+  // Bumped by every start and stop, a replay still loading its candles is dropped
+  private paperReplayGeneration = 0;
+  private paperReplayHandlers: ((replay: PaperReplay | null) => void)[] = [];
+  // Local clock minus exchange clock, subtracted from every signed timestamp
+  private clockSkew: ClockSkew | null = null;
+  private clockSkewHandlers: ((skew: ClockSkew) => void)[] = [];
+  private serverTimeSync: Promise<ClockSkew> | null = null;
+  private serverTimeSyncInterval: number | null = null;
+  private riskManager = new RiskManager({
+    getPositions: () => Array.from(this.positionMap.values()),
+    onKillSwitch: (reason) => this.handleKillSwitch(reason)
+  });
+  private rateLimiter = new RateLimiter({
+    getServerTime: () => this.getTimestamp()
+  });
 
   constructor() {
     this.fetchExchangeInfo().catch(error => {
       console.error('Failed to fetch initial exchange info:', error);
     });
+    this.startServerTimeSync();
+    this.requests.onInFlightChange(() => this.emitRequestActivity());
+  }
+
+  // Measures the clock offset against the exchange, assuming the server
+  // stamped its reply halfway through the round trip. Concurrent callers,
+  // such as several requests rejected at once, share one measurement.
+  syncServerTime(): Promise<ClockSkew> {
+    if (!this.serverTimeSync) {
+      this.serverTimeSync = this.measureServerTime().finally(() => {
+        this.serverTimeSync = null;
+      });
+    }
+    return this.serverTimeSync;
+  }
+
+  getClockSkew(): ClockSkew | null {
+    return this.clockSkew;
+  }
+
+  onClockSkewChange(handler: (skew: ClockSkew) => void) {
+    this.clockSkewHandlers.push(handler);
+    if (this.clockSkew) {
+      handler(this.clockSkew);
+    }
+    return () => {
+      this.clockSkewHandlers = this.clockSkewHandlers.filter(h => h !== handler);
+    };
+  }
+
+  private async measureServerTime(): Promise<ClockSkew> {
+    const requestedAt = Date.now();
+    const response = await fetch(`${this.getBaseUrl()}/fapi/v1/time`);
+    const receivedAt = Date.now();
+    this.rateLimiter.recordRestResponse(response);
+    if (!response.ok) {
+      throw new Error(`Server time request failed: ${response.status}`);
+    }
+
+    const { serverTime } = await response.json();
+    const skew: ClockSkew = {
+      offsetMs: Math.round((requestedAt + receivedAt) / 2 - serverTime),
+      rttMs: receivedAt - requestedAt,
+      measuredAt: receivedAt
+    };
+    this.clockSkew = skew;
+    console.log(`Server time synced: local clock offset ${skew.offsetMs}ms (RTT ${skew.rttMs}ms)`);
+    this.clockSkewHandlers.forEach(handler => handler(skew));
+    return skew;
+  }
+
+  private startServerTimeSync() {
+    const sync = () => this.syncServerTime().catch(error => {
+      console.error('Failed to sync server time:', error);
+    });
+
+    sync();
+    if (this.serverTimeSyncInterval) {
+      clearInterval(this.serverTimeSyncInterval);
+    }
+    this.serverTimeSyncInterval = window.setInterval(sync, websocketConfig.intervals.serverTimeSync);
   }
 
   async updateMarginType(symbol: string, marginType: 'ISOLATED' | 'CROSSED'): Promise<void> {
+    if (this.isPaperTrading()) {
+      this.paperEngine.setMarginType(symbol, marginType);
+      this.marginTypeMap.set(symbol, marginType);
+      this.marginTypeHandlers.forEach(handler => handler(this.marginTypeMap));
+      return;
+    }
+
     if (!this.hasCredentials()) {
       throw new Error('Please configure your API credentials');
     }
 
-    const timestamp = Date.now();
-    const params = new URLSearchParams();
-    params.append('symbol', symbol);
-    params.append('marginType', marginType);
-    params.append('timestamp', timestamp.toString());
-    params.append('recvWindow', websocketConfig.settings.recvWindow);
-    
-    // Create the query string for signature
-    const queryString = params.toString();
-    
-    // Generate signature
-    const signature = CryptoJS.HmacSHA256(queryString, this.apiSecret).toString();
-    
-    // Add signature to params
-    params.append('signature', signature);
-
     try {
       console.log(`Making margin type update request to ${this.getBaseUrl()}/fapi/v1/marginType`);
-      console.log('Request body:', params.toString());
       
-      const response = await fetch(`${this.getBaseUrl()}/fapi/v1/marginType`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'X-MBX-APIKEY': this.apiKey
-        },
-        body: params.toString()
-      });
+      const response = await this.signedFetch('/fapi/v1/marginType', 'POST', { symbol, marginType });
 
       if (!response.ok) {
         const error = await response.json();
         console.error('Margin type update error response:', error);
-        throw new Error(error.msg || 'Failed to update margin type');
+        throw toBinanceError(error, 'Failed to update margin type');
       }
 
       const result = await response.json();
@@ -150,14 +344,22 @@ class BinanceService {
   }
 
   async fetchMarginTypes(): Promise<void> {
+    if (this.isPaperTrading()) {
+      Object.entries(this.paperEngine.getMarginTypes()).forEach(([symbol, marginType]) => {
+        this.marginTypeMap.set(symbol, marginType);
+      });
+      this.marginTypeHandlers.forEach(handler => handler(this.marginTypeMap));
+      return;
+    }
+
     if (!this.hasCredentials()) {
       console.log('Cannot fetch margin types: Missing API credentials');
       return;
     }
 
     try {
-      // Fetch positions to get margin type information
-      await this.fetchPositions();
+      // Fetch positions to get margin type information, a refresh that can be skipped
+      await this.fetchPositions('low');
       
       // Extract margin type from positions
       const positions = Array.from(this.positionMap.values());
@@ -190,48 +392,55 @@ class BinanceService {
     };
   }
 
+  // Current leverage of every symbol, used to estimate margin before an order is sent
+  private async fetchSymbolLeverages(): Promise<void> {
+    if (!this.hasCredentials()) return;
+
+    const generation = this.accountGeneration;
+    const response = await this.signedFetch('/fapi/v1/symbolConfig', 'GET');
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw toBinanceError(error, 'Failed to fetch symbol configuration');
+    }
+
+    const configs: { symbol: string; leverage: number }[] = await response.json();
+    if (generation !== this.accountGeneration) return;
+    configs.forEach(config => this.symbolLeverage.set(config.symbol, config.leverage));
+  }
+
+  getSymbolLeverage(symbol: string): number | null {
+    if (this.isPaperTrading()) {
+      return this.paperEngine.getLeverage(symbol);
+    }
+    return this.symbolLeverage.get(symbol) ?? null;
+  }
+
   async updateLeverage(symbol: string, leverage: number): Promise<void> {
+    if (this.isPaperTrading()) {
+      this.paperEngine.setLeverage(symbol, leverage);
+      this.symbolLeverage.set(symbol, leverage);
+      return;
+    }
+
     if (!this.hasCredentials()) {
       throw new Error('Please configure your API credentials');
     }
 
-    const timestamp = Date.now();
-    const params = new URLSearchParams();
-    params.append('symbol', symbol);
-    params.append('leverage', leverage.toString());
-    params.append('timestamp', timestamp.toString());
-    params.append('recvWindow', websocketConfig.settings.recvWindow);
-    
-    // Create the query string for signature
-    const queryString = params.toString();
-    
-    // Generate signature
-    const signature = CryptoJS.HmacSHA256(queryString, this.apiSecret).toString();
-    
-    // Add signature to params
-    params.append('signature', signature);
-
     try {
       console.log(`Making leverage update request to ${this.getBaseUrl()}/fapi/v1/leverage`);
-      console.log('Request body:', params.toString());
       
-      const response = await fetch(`${this.getBaseUrl()}/fapi/v1/leverage`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'X-MBX-APIKEY': this.apiKey
-        },
-        body: params.toString()
-      });
+      const response = await this.signedFetch('/fapi/v1/leverage', 'POST', { symbol, leverage: leverage.toString() });
 
       if (!response.ok) {
         const error = await response.json();
         console.error('Leverage update error response:', error);
-        throw new Error(error.msg || 'Failed to update leverage');
+        throw toBinanceError(error, 'Failed to update leverage');
       }
 
       const result = await response.json();
       console.log('Leverage updated successfully:', result);
+      this.symbolLeverage.set(symbol, result.leverage ?? leverage);
     } catch (error) {
       console.error('Failed to update leverage:', error);
       throw error;
@@ -242,50 +451,61 @@ class BinanceService {
     return this.marketPrices.get(symbol) || null;
   }
 
+  getMarketTicker(symbol: string): MarketTicker | null {
+    return this.marketTickers.get(symbol) || null;
+  }
+
+  isPaperTrading(): boolean {
+    return this.network === 'paper';
+  }
+
+  // Whether placeOrder can reach an account right now
+  canPlaceOrders(): boolean {
+    return this.isPaperTrading() || (this.hasCredentials() && this.ws?.readyState === WebSocket.OPEN);
+  }
+
+  // Paper trading has no exchange of its own and reads public mainnet data
+  private getDataNetwork(): 'testnet' | 'mainnet' {
+    return this.network === 'paper' ? 'mainnet' : this.network;
+  }
+
   private getEndpoints() {
     return {
-      binance: websocketConfig.endpoints[this.network].binance,
-      marketData: websocketConfig.endpoints[this.network].marketData
+      binance: websocketConfig.endpoints[this.getDataNetwork()].binance,
+      marketData: websocketConfig.endpoints[this.getDataNetwork()].marketData
     };
   }
 
   private getBaseUrl() {
-    return websocketConfig.baseUrls[this.network];
+    return websocketConfig.baseUrls[this.getDataNetwork()];
   }
 
   async fetchPositionMode(): Promise<'one-way' | 'hedge'> {
+    if (this.isPaperTrading()) {
+      const mode = this.paperEngine.getPositionMode();
+      this.positionModeHandlers.forEach(handler => handler(mode));
+      return mode;
+    }
+
     if (!this.hasCredentials()) {
       throw new Error('Please configure your API credentials');
     }
 
-    const timestamp = Date.now();
-    const baseParams = {
-      recvWindow: websocketConfig.settings.recvWindow,
-      timestamp: timestamp.toString()
-    };
-
-    // Generate signature
-    const signature = this.createSignature(baseParams);
+    const generation = this.accountGeneration;
 
     try {
-      const queryString = new URLSearchParams({
-        ...baseParams,
-        signature
-      }).toString();
-
-      const response = await fetch(`${this.getBaseUrl()}/fapi/v1/positionSide/dual?${queryString}`, {
-        headers: {
-          'X-MBX-APIKEY': this.apiKey
-        }
-      });
+      const response = await this.signedFetch('/fapi/v1/positionSide/dual', 'GET');
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.msg || 'Failed to fetch position mode');
+        throw toBinanceError(error, 'Failed to fetch position mode');
       }
 
       const data = await response.json();
       const currentMode = data.dualSidePosition ? 'hedge' : 'one-way';
+      if (generation !== this.accountGeneration) {
+        return currentMode;
+      }
       
       // Notify handlers of the mode change
       this.positionModeHandlers.forEach(handler => handler(currentMode));
@@ -298,36 +518,23 @@ class BinanceService {
   }
 
   async updatePositionMode(mode: 'one-way' | 'hedge'): Promise<void> {
+    if (this.isPaperTrading()) {
+      this.paperEngine.setPositionMode(mode);
+      return;
+    }
+
     if (!this.hasCredentials()) {
       throw new Error('Please configure your API credentials in settings');
     }
 
-    const timestamp = Date.now();
-    const baseParams = {
-      dualSidePosition: mode === 'hedge' ? 'true' : 'false',
-      recvWindow: websocketConfig.settings.recvWindow,
-      timestamp: timestamp.toString()
-    };
-
-    // Generate signature
-    const signature = this.createSignature(baseParams);
-
     try {
-      const response = await fetch(`${this.getBaseUrl()}/fapi/v1/positionSide/dual`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'X-MBX-APIKEY': this.apiKey
-        },
-        body: new URLSearchParams({
-          ...baseParams,
-          signature
-        }).toString()
+      const response = await this.signedFetch('/fapi/v1/positionSide/dual', 'POST', {
+        dualSidePosition: mode === 'hedge' ? 'true' : 'false'
       });
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.msg || 'Failed to update position mode');
+        throw toBinanceError(error, 'Failed to update position mode');
       }
 
       await response.json();
@@ -350,7 +557,8 @@ class BinanceService {
   }
 
   private hasCredentials(): boolean {
-    const hasCredentials = !!(this.apiKey && this.apiSecret);
+    // An unparseable private key leaves no signer and counts as missing credentials
+    const hasCredentials = !!(this.apiKey && this.apiSecret && this.signer);
     console.log('Checking credentials:', { 
       hasCredentials,
       hasApiKey: !!this.apiKey,
@@ -360,32 +568,22 @@ class BinanceService {
   }
 
   private async fetchLeverageBrackets(): Promise<void> {
+    if (this.isPaperTrading()) {
+      this.loadCachedLeverageBrackets();
+      return;
+    }
+
     if (!this.hasCredentials()) {
       console.log('Cannot fetch leverage brackets: Missing API credentials');
       return;
     }
 
-    const timestamp = Date.now();
-    const baseParams = {
-      timestamp: timestamp.toString()
-    };
-
-    // Generate signature
-    const signature = this.createSignature(baseParams);
-
     try {
-      const response = await fetch(`${this.getBaseUrl()}/fapi/v1/leverageBracket?${new URLSearchParams({
-        ...baseParams,
-        signature
-      })}`, {
-        headers: {
-          'X-MBX-APIKEY': this.apiKey
-        }
-      });
+      const response = await this.signedFetch('/fapi/v1/leverageBracket', 'GET');
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.msg || 'Failed to fetch leverage brackets');
+        throw toBinanceError(error, 'Failed to fetch leverage brackets');
       }
 
       const brackets = await response.json();
@@ -402,6 +600,7 @@ class BinanceService {
         // Notify handlers with USDT pairs only
         const usdtBrackets = brackets.filter(b => b.symbol.endsWith('USDT'));
         this.leverageBracketHandlers.forEach(handler => handler(usdtBrackets));
+        localStorage.setItem(STORAGE_KEY_LEVERAGE_BRACKETS, JSON.stringify(usdtBrackets));
       }
     } catch (error) {
       console.error('Failed to fetch leverage brackets:', error);
@@ -409,14 +608,36 @@ class BinanceService {
     }
   }
 
+  private loadCachedLeverageBrackets() {
+    if (this.leverageBrackets.size > 0) return;
+
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY_LEVERAGE_BRACKETS);
+      if (!saved) {
+        console.log('No cached leverage brackets, paper trading uses default margin ratios');
+        return;
+      }
+
+      const brackets: LeverageBracket[] = JSON.parse(saved);
+      brackets.forEach(bracket => this.leverageBrackets.set(bracket.symbol, bracket));
+      this.leverageBracketHandlers.forEach(handler => handler(brackets));
+    } catch (error) {
+      console.error('Failed to load cached leverage brackets:', error);
+    }
+  }
+
   private async fetchExchangeInfo(retryCount = 0): Promise<void> {
     try {
       const response = await fetch(`${this.getBaseUrl()}/fapi/v1/exchangeInfo`);
+      this.rateLimiter.recordRestResponse(response);
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
       this.exchangeInfo = await response.json();
       console.log('Exchange info fetched successfully');
+      if (Array.isArray(this.exchangeInfo.rateLimits)) {
+        this.rateLimiter.setLimits(this.exchangeInfo.rateLimits);
+      }
       
       // Process and store symbol info
       this.exchangeInfo.symbols.forEach((symbol: any) => {
@@ -501,151 +722,397 @@ class BinanceService {
     return notionalValue >= parseFloat(minNotionalFilter.notional);
   }
 
-  private createSignature(params: Record<string, any>): string {
-    // Sort params alphabetically and create query string
-    const queryString = Object.keys(params)
-      .sort()
-      .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(params[key])}`)
-      .join('&');
+  // USDT perpetuals open for trading, from the cached exchange info
+  getTradingSymbols(): string[] {
+    if (!this.exchangeInfo) return [];
+
+    const symbols: { symbol: string; status: string; quoteAsset: string; contractType: string }[] = this.exchangeInfo.symbols;
+    return symbols
+      .filter(symbol => symbol.status === 'TRADING' && symbol.quoteAsset === 'USDT' && symbol.contractType === 'PERPETUAL')
+      .map(symbol => symbol.symbol);
+  }
+
+  // Sizes an order exactly like placeOrder without sending it
+  previewOrder(symbol: string, notional: number, price?: number): OrderPreview {
+    const info = this.symbolInfo.get(symbol);
+    const sizingPrice = price || this.marketPrices.get(symbol) || null;
+    const quantity = info && sizingPrice ? this.adjustQuantityPrecision(symbol, notional / sizingPrice) : null;
+    const leverage = this.getSymbolLeverage(symbol);
+    const minNotionalFilter = info?.filters.MIN_NOTIONAL;
+    const orderNotional = quantity !== null && sizingPrice ? quantity * sizingPrice : null;
 
+    return {
+      symbol,
+      knownSymbol: !!info,
+      price: sizingPrice,
+      quantity,
+      notional: orderNotional,
+      leverage,
+      estimatedMargin: orderNotional !== null && leverage ? orderNotional / leverage : null,
+      minNotional: minNotionalFilter ? parseFloat(minNotionalFilter.notional) : null,
+      meetsMinNotional: quantity !== null && sizingPrice !== null && this.validateNotionalValue(symbol, quantity, sizingPrice)
+    };
+  }
+
+  private createSignature(params: Record<string, any>): string {
+    const queryString = toQueryString(params);
     console.log('Query string for signature:', queryString);
-    // Create HMAC SHA256 signature
-    return CryptoJS.HmacSHA256(queryString, this.apiSecret).toString();
+    return this.sign(queryString);
   }
 
-  private connectToMarketData() {
-    if (this.isReconnecting) {
-      console.log('Already reconnecting, skipping duplicate connection attempt');
-      return;
+  // Local time shifted onto the exchange clock, for every signed request
+  private getTimestamp(): number {
+    return Date.now() - (this.clockSkew?.offsetMs ?? 0);
+  }
+
+  // Signs and sends a REST request. A timestamp rejection resyncs the clock
+  // and sends the request once more with a fresh timestamp.
+  private async signedFetch(path: string, method: 'GET' | 'POST' | 'DELETE', params: Record<string, string> = {}, priority: RequestPriority = 'normal', isRetry = false): Promise<Response> {
+    await this.rateLimiter.acquire(`${method} ${path}`, priority);
+    const signedParams: Record<string, string> = {
+      ...params,
+      timestamp: this.getTimestamp().toString(),
+      recvWindow: websocketConfig.settings.recvWindow
+    };
+    // The signature must cover the exact string that is sent
+    const queryString = toQueryString(signedParams);
+    const payload = `${queryString}&signature=${encodeURIComponent(this.sign(queryString))}`;
+    const url = `${this.getBaseUrl()}${path}`;
+
+    const response = method === 'POST'
+      ? await fetch(url, {
+          method,
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'X-MBX-APIKEY': this.apiKey
+          },
+          body: payload
+        })
+      : await fetch(`${url}?${payload}`, {
+          method,
+          headers: {
+            'X-MBX-APIKEY': this.apiKey
+          }
+        });
+    this.rateLimiter.recordRestResponse(response);
+
+    if (!response.ok && !isRetry) {
+      const error = await response.clone().json().catch(() => null);
+      if (error?.code === TIMESTAMP_ERROR_CODE) {
+        console.warn(`${path} rejected the request timestamp, resyncing server time`);
+        await this.syncServerTime();
+        return this.signedFetch(path, method, params, priority, true);
+      }
     }
-    
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
+    return response;
+  }
+
+  private sign(payload: string): string {
+    if (!this.signer) {
+      throw new Error('API credentials not configured');
+    }
+    return this.signer(payload);
+  }
+
+  // On a logged-on session requests only need a timestamp, otherwise each
+  // one carries the API key and its own signature
+  private buildRequestParams(params: Record<string, string | number> = {}): Record<string, string | number> {
+    const baseParams: Record<string, string | number> = {
+      ...params,
+      timestamp: this.getTimestamp().toString(),
+      recvWindow: websocketConfig.settings.recvWindow
+    };
+
+    if (this.sessionLoggedOn) {
+      return baseParams;
     }
 
-    if (this.marketDataWs?.readyState === WebSocket.OPEN) return;
+    const signedParams = { ...baseParams, apiKey: this.apiKey };
+    return { ...signedParams, signature: this.createSignature(signedParams) };
+  }
 
-    const symbols = Array.from(this.subscribedSymbols).sort();
-    if (symbols.length === 0) return; 
+  private getMarketStreams(symbol: string): string[] {
+    const lower = symbol.toLowerCase();
+    return websocketConfig.marketStreams.map(stream => `${lower}@${stream}`);
+  }
+
+  private connectToMarketData() {
+    if (this.marketDataReconnectTimeout) {
+      clearTimeout(this.marketDataReconnectTimeout);
+      this.marketDataReconnectTimeout = null;
+    }
+
+    if (this.marketDataWs) return;
+    if (!this.hasMarketSubscriptions()) return;
 
-    this.isReconnecting = true;
-    
     const ws = new WebSocket(this.getEndpoints().marketData);
-    
+
     ws.onopen = () => {
-      console.log('Market data WebSocket connected');
-      this.isReconnecting = false;
-      this.retryCount = 0;
-      this.updateHeartbeat();
-      this.startHeartbeat();
-      this.startAllPriceUpdates();
+      console.log('Market data stream connected');
+      this.marketDataRetryCount = 0;
+      this.lastMarketDataMessage = Date.now();
+      this.startMarketDataHeartbeat();
+      this.activeMarketStreams.clear();
+      this.syncMarketStreams();
     };
 
     ws.onmessage = (event) => {
-      this.updateHeartbeat();
-      const data = JSON.parse(event.data);
-      if (data.status === 200 && data.result) {
-        const symbol = data.result.symbol;
-        const price = parseFloat(data.result.price);
-        this.marketPrices.set(symbol, price);
-
-        const marketData = {
-          symbol: data.result.symbol,
-          price: data.result.price,
-          priceChangePercent: '0.00'
-        };
+      this.lastMarketDataMessage = Date.now();
+      const message = JSON.parse(event.data);
 
-        const handlers = this.marketDataHandlers.get(symbol);
-        handlers?.forEach(handler => {
-          try {
-            handler(marketData);
-          } catch (error) {
-            console.error(`Error in market data handler for ${symbol}:`, error);
-          }
-        });
+      // Combined stream payloads are wrapped as { stream, data }, SUBSCRIBE acks as { result, id }
+      if (message.stream && message.data) {
+        if (message.data.e === 'depthUpdate') {
+          this.handleDepthUpdate(message.data);
+        } else {
+          this.handleMarketStreamEvent(message.data);
+        }
+      } else if (message.error) {
+        console.error('Market data stream request failed:', message.error);
       }
     };
 
     ws.onerror = (error) => {
-      console.error('Market data WebSocket error:', error);
-      this.handleMarketDataDisconnect();
+      console.error('Market data stream error:', error);
     };
 
     ws.onclose = () => {
-      console.log('Market data WebSocket closed');
+      console.log('Market data stream closed');
       this.handleMarketDataDisconnect();
     };
 
     this.marketDataWs = ws;
   }
 
-  private handleMarketDataDisconnect() {
-    this.stopHeartbeat();
-    this.isReconnecting = false;
-    this.marketDataWs = null;
+  private handleMarketStreamEvent(event: MarketStreamEvent) {
+    const symbol = event.s;
+    // The replay owns this symbol's price until it ends
+    if (this.paperReplay?.symbol === symbol) return;
 
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
+    const ticker: MarketTicker = {
+      ...(this.marketTickers.get(symbol) || { symbol, price: '', priceChangePercent: '0.00' })
+    };
+
+    switch (event.e) {
+      case 'markPriceUpdate':
+        ticker.markPrice = event.p;
+        ticker.indexPrice = event.i;
+        ticker.fundingRate = event.r;
+        ticker.nextFundingTime = event.T;
+        break;
+      case '24hrMiniTicker': {
+        const open = parseFloat(event.o);
+        const close = parseFloat(event.c);
+        ticker.price = event.c;
+        ticker.openPrice = event.o;
+        ticker.highPrice = event.h;
+        ticker.lowPrice = event.l;
+        ticker.volume = event.v;
+        ticker.quoteVolume = event.q;
+        ticker.priceChangePercent = open ? (((close - open) / open) * 100).toFixed(2) : '0.00';
+        break;
+      }
+      case 'bookTicker':
+        ticker.bidPrice = event.b;
+        ticker.bidQty = event.B;
+        ticker.askPrice = event.a;
+        ticker.askQty = event.A;
+        break;
+      default:
+        return;
     }
 
-    this.retryCount++;
-    const delay = this.calculateReconnectDelay();
-    console.log(`Attempting market data WebSocket reconnect (attempt ${this.retryCount}) in ${delay}ms`);
-    this.reconnectTimeout = window.setTimeout(() => this.connectToMarketData(), delay);
+    // Until the first mini ticker arrives, fall back to the mark price
+    if (!ticker.price && ticker.markPrice) {
+      ticker.price = ticker.markPrice;
+    }
+    if (!ticker.price) return;
+
+    this.publishTicker(symbol, ticker);
   }
 
-  private startAllPriceUpdates() {
-    // Clear all existing intervals
-    this.priceUpdateIntervals.forEach(interval => clearInterval(interval));
-    this.priceUpdateIntervals.clear();
-    
-    // Start updates for all subscribed symbols
-    Array.from(this.subscribedSymbols).forEach(symbol => {
-      this.startPriceUpdates(symbol);
+  private publishTicker(symbol: string, ticker: MarketTicker) {
+    this.marketTickers.set(symbol, ticker);
+    this.marketPrices.set(symbol, parseFloat(ticker.price));
+
+    if (this.isPaperTrading()) {
+      this.paperEngine.updatePrice(symbol, parseFloat(ticker.price), parseFloat(ticker.markPrice || ticker.price));
+    }
+
+    const handlers = this.marketDataHandlers.get(symbol);
+    handlers?.forEach(handler => {
+      try {
+        handler(ticker);
+      } catch (error) {
+        console.error(`Error in market data handler for ${symbol}:`, error);
+      }
     });
   }
 
-  private startPriceUpdates(symbol: string) {
-    // Clear existing interval if any
-    if (this.priceUpdateIntervals.has(symbol)) {
-      clearInterval(this.priceUpdateIntervals.get(symbol)!);
+  private hasMarketSubscriptions(): boolean {
+    return this.subscribedSymbols.size > 0 || this.orderBooks.size > 0;
+  }
+
+  // A diff the book cannot take, or one arriving before its first snapshot,
+  // leaves the book unsynced until a snapshot is loaded
+  private handleDepthUpdate(event: DepthUpdateEvent) {
+    const book = this.orderBooks.get(event.s);
+    if (!book) return;
+
+    book.applyUpdate(event);
+    if (book.isSynced()) {
+      this.emitOrderBook(book);
+    } else {
+      this.loadOrderBookSnapshot(book);
     }
+  }
+
+  private async loadOrderBookSnapshot(book: LocalOrderBook) {
+    const symbol = book.symbol;
+    if (this.orderBookSnapshots.has(symbol)) return;
+    this.orderBookSnapshots.add(symbol);
+
+    try {
+      await this.rateLimiter.acquire('GET /fapi/v1/depth', 'normal');
+      const response = await fetch(`${this.getBaseUrl()}/fapi/v1/depth?symbol=${symbol}&limit=${websocketConfig.orderBook.snapshotLimit}`);
+      this.rateLimiter.recordRestResponse(response);
+      if (!response.ok) {
+        throw toBinanceError(await response.json().catch(() => null), `Depth snapshot failed: ${response.status}`);
+      }
 
-    // Send initial price request
-    this.sendPriceRequest(symbol);
+      const snapshot: DepthSnapshot = await response.json();
+      // Unsubscribed while the snapshot was loading
+      if (this.orderBooks.get(symbol) !== book) {
+        this.orderBookSnapshots.delete(symbol);
+        return;
+      }
 
-    // Only set up interval if continuous updates are enabled
-    if (websocketConfig.features.continuousMarketUpdates) {
-      const interval = window.setInterval(() => {
-        this.sendPriceRequest(symbol);
-      }, websocketConfig.intervals.marketPrice);
-      this.priceUpdateIntervals.set(symbol, interval);
+      if (!book.applySnapshot(snapshot)) {
+        console.warn(`${symbol} depth snapshot is older than the buffered updates, loading another`);
+      }
+      this.emitOrderBook(book);
+      this.orderBookSnapshots.delete(symbol);
+    } catch (error) {
+      console.error(`Failed to load the ${symbol} order book:`, error);
+      // The next diff retries, but not before the delay
+      window.setTimeout(() => this.orderBookSnapshots.delete(symbol), websocketConfig.orderBook.resyncDelay);
     }
   }
 
-  private sendPriceRequest(symbol: string) {
-    if (!this.marketDataWs || this.marketDataWs.readyState !== WebSocket.OPEN) return;
+  private emitOrderBook(book: LocalOrderBook) {
+    this.orderBookHandlers.get(book.symbol)?.forEach(handler => {
+      try {
+        handler(book);
+      } catch (error) {
+        console.error(`Error in order book handler for ${book.symbol}:`, error);
+      }
+    });
+  }
+
+  // Mounts and unmounts come in bursts, so stream changes are batched into
+  // a single SUBSCRIBE / UNSUBSCRIBE pair
+  private scheduleMarketStreamSync() {
+    if (this.marketStreamSyncTimeout) return;
+
+    this.marketStreamSyncTimeout = window.setTimeout(() => {
+      this.marketStreamSyncTimeout = null;
+      this.syncMarketStreams();
+    }, websocketConfig.settings.marketStreamSyncDelay);
+  }
+
+  private syncMarketStreams() {
+    if (!this.marketDataWs || this.marketDataWs.readyState !== WebSocket.OPEN) {
+      this.connectToMarketData();
+      return;
+    }
+
+    const desired = new Set<string>();
+    this.subscribedSymbols.forEach(symbol => {
+      this.getMarketStreams(symbol).forEach(stream => desired.add(stream));
+    });
+    this.orderBooks.forEach((_, symbol) => {
+      desired.add(`${symbol.toLowerCase()}@${websocketConfig.orderBook.stream}`);
+    });
+
+    const toSubscribe = Array.from(desired).filter(stream => !this.activeMarketStreams.has(stream));
+    const toUnsubscribe = Array.from(this.activeMarketStreams).filter(stream => !desired.has(stream));
+
+    if (toUnsubscribe.length > 0) {
+      this.sendMarketStreamRequest('UNSUBSCRIBE', toUnsubscribe);
+      toUnsubscribe.forEach(stream => this.activeMarketStreams.delete(stream));
+    }
+
+    if (toSubscribe.length > 0) {
+      this.sendMarketStreamRequest('SUBSCRIBE', toSubscribe);
+      toSubscribe.forEach(stream => this.activeMarketStreams.add(stream));
+    }
+  }
 
+  private sendMarketStreamRequest(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', streams: string[]) {
     try {
-      const requestId = uuidv4();
-      const request = {
-        id: requestId,
-        method: websocketConfig.methods.ticker,
-        params: {
-          symbol
-        }
-      };
+      this.marketDataWs?.send(JSON.stringify({
+        method,
+        params: streams,
+        id: ++this.marketStreamRequestId
+      }));
+      console.log(`${method} ${streams.length} market streams`);
+    } catch (error) {
+      console.error(`Failed to ${method.toLowerCase()} market streams:`, error);
+    }
+  }
+
+  private handleMarketDataDisconnect() {
+    this.stopMarketDataHeartbeat();
+    this.activeMarketStreams.clear();
+
+    // Diffs are lost while the socket is down, every book starts over from a snapshot
+    this.orderBooks.forEach(book => {
+      book.reset();
+      this.emitOrderBook(book);
+    });
+
+    if (this.marketDataWs) {
+      this.marketDataWs.onclose = null;
+      this.marketDataWs = null;
+    }
+
+    if (this.marketDataReconnectTimeout) {
+      clearTimeout(this.marketDataReconnectTimeout);
+      this.marketDataReconnectTimeout = null;
+    }
+
+    // Nobody is listening anymore, reconnect lazily on the next subscription
+    if (!this.hasMarketSubscriptions()) return;
 
-      if (this.marketDataWs && this.marketDataWs.readyState === WebSocket.OPEN) {
-        this.marketDataWs.send(JSON.stringify(request));
-      } else {
-        throw new Error('Market data WebSocket is not connected');
+    this.marketDataRetryCount++;
+    const delay = this.calculateReconnectDelay(this.marketDataRetryCount);
+    console.log(`Attempting market data stream reconnect (attempt ${this.marketDataRetryCount}) in ${delay}ms`);
+    this.marketDataReconnectTimeout = window.setTimeout(() => this.connectToMarketData(), delay);
+  }
+
+  private startMarketDataHeartbeat() {
+    this.stopMarketDataHeartbeat();
+
+    // Mark price streams push every second, so silence means the socket is stale
+    this.marketDataHeartbeatInterval = window.setInterval(() => {
+      if (this.activeMarketStreams.size === 0) {
+        this.lastMarketDataMessage = Date.now();
+        return;
       }
-      this.lastRequestTime.set(symbol, Date.now());
-    } catch (error) {
-      console.error(`Failed to send price request for ${symbol}:`, error);
+
+      if (Date.now() - this.lastMarketDataMessage > websocketConfig.settings.heartbeatTimeout) {
+        console.log('Market data heartbeat timeout, reconnecting...');
+        const ws = this.marketDataWs;
+        this.handleMarketDataDisconnect();
+        ws?.close();
+      }
+    }, websocketConfig.settings.heartbeatInterval);
+  }
+
+  private stopMarketDataHeartbeat() {
+    if (this.marketDataHeartbeatInterval) {
+      clearInterval(this.marketDataHeartbeatInterval);
+      this.marketDataHeartbeatInterval = null;
     }
   }
 
@@ -655,6 +1122,12 @@ class BinanceService {
     }
 
     this.heartbeatInterval = window.setInterval(() => {
+      // Without polling the socket can sit idle, so only a request left unanswered counts as a stall
+      if (this.requests.getInFlightCount() === 0) {
+        this.updateHeartbeat();
+        return;
+      }
+
       const now = Date.now();
       if (now - this.lastHeartbeat > websocketConfig.settings.heartbeatTimeout) {
         console.log('Heartbeat timeout, reconnecting...');
@@ -676,8 +1149,9 @@ class BinanceService {
 
   private handleDisconnect() {
     this.stopHeartbeat();
-    this.isReconnecting = false;
     this.ws = null;
+    this.sessionLoggedOn = false;
+    this.requests.rejectAll('disconnected');
 
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
@@ -690,13 +1164,13 @@ class BinanceService {
     this.reconnectTimeout = window.setTimeout(() => this.connect(), delay);
   }
 
-  private calculateReconnectDelay(): number {
+  private calculateReconnectDelay(retryCount = this.retryCount): number {
     if (!websocketConfig.settings.exponentialBackoff) {
       return websocketConfig.settings.reconnectDelay;
     }
 
     const delay = Math.min(
-      websocketConfig.settings.reconnectDelay * Math.pow(2, this.retryCount - 1),
+      websocketConfig.settings.reconnectDelay * Math.pow(2, retryCount - 1),
       websocketConfig.settings.maxReconnectDelay
     );
 
@@ -704,6 +1178,11 @@ class BinanceService {
   }
 
   connect() {
+    if (this.isPaperTrading()) {
+      this.startPaperTrading();
+      return;
+    }
+
     if (!this.hasCredentials()) {
       console.log('No credentials available, skipping connection');
       return;
@@ -725,6 +1204,7 @@ class BinanceService {
       this.updateHeartbeat();
       this.startHeartbeat();
       await this.authenticate();
+      this.reconcileUnknownOrders();
       
       // Fetch positions only once on connection
       this.fetchPositions().catch(error => {
@@ -736,15 +1216,21 @@ class BinanceService {
         console.error('Failed to fetch margin types:', error);
       });
 
-      // Set up periodic position updates
-      if (this.positionUpdateInterval) {
-        window.clearInterval(this.positionUpdateInterval);
+      this.fetchSymbolLeverages().catch(error => {
+        console.error('Failed to fetch symbol leverages:', error);
+      });
+
+      this.fetchOpenOrders().catch(error => {
+        console.error('Failed to fetch open orders:', error);
+      });
+
+      // Account changes arrive over the user data stream, polling only covers the gaps
+      if (!this.userDataStream.isRunning()) {
+        this.userDataStream.start(this.apiKey, this.getDataNetwork());
+      }
+      if (this.userDataStream.getStatus() !== 'connected') {
+        this.startFallbackPolling();
       }
-      this.positionUpdateInterval = window.setInterval(() => {
-        this.fetchPositions().catch(error => {
-          console.error('Failed to fetch positions:', error);
-        });
-      }, websocketConfig.intervals.positions);
     };
 
     this.ws.onmessage = (event) => {
@@ -765,10 +1251,9 @@ class BinanceService {
       }
       
       // Handle other message responses
-      const handler = this.messageHandlers.get(response.id);
-      if (handler) {
-        handler(response);
-        this.messageHandlers.delete(response.id);
+      if (response.id) {
+        this.rateLimiter.recordWsResponse(response);
+        this.requests.settle(response.id, response);
       }
     };
 
@@ -780,39 +1265,678 @@ class BinanceService {
     this.ws.onclose = () => {
       console.log('WebSocket connection closed');
       this.handleDisconnect();
-      if (this.positionUpdateInterval) {
-        window.clearInterval(this.positionUpdateInterval);
-        this.positionUpdateInterval = null;
-      }
+      this.stopFallbackPolling();
     };
   }
 
-  updateCredentials(apiKey: string, apiSecret: string, network: 'testnet' | 'mainnet') {
-    console.log('Updating credentials...', { hasApiKey: !!apiKey, hasApiSecret: !!apiSecret });
-    this.apiKey = apiKey;
-    this.apiSecret = apiSecret;
-    this.network = network;
-    
-    // Get authenticated information
-    if (apiKey && apiSecret) {
-      this.fetchLeverageBrackets().catch(console.error);
-      this.fetchPositionMode().catch(console.error);
-      this.fetchMarginTypes().catch(console.error);
-    }
+  private startFallbackPolling() {
+    this.stopFallbackPolling();
+    console.log('Polling positions and balance until the user data stream is available');
+
+    // Polling is the first thing dropped when the rate limit runs short
+    this.positionUpdateInterval = window.setInterval(() => {
+      this.fetchPositions('low').catch(error => {
+        console.error('Failed to fetch positions:', error);
+      });
+      this.checkPendingProtection();
+    }, websocketConfig.intervals.positions);
+
+    this.balanceUpdateInterval = window.setInterval(() => {
+      this.fetchBalance('low').catch(error => {
+        console.error('Failed to fetch balance:', error);
+      });
+    }, websocketConfig.intervals.balance);
+
+    this.openOrdersUpdateInterval = window.setInterval(() => {
+      this.fetchOpenOrders('low').catch(error => {
+        console.error('Failed to fetch open orders:', error);
+      });
+    }, websocketConfig.intervals.openOrders);
+  }
+
+  private stopFallbackPolling() {
+    if (this.positionUpdateInterval) {
+      window.clearInterval(this.positionUpdateInterval);
+      this.positionUpdateInterval = null;
+    }
+    if (this.balanceUpdateInterval) {
+      window.clearInterval(this.balanceUpdateInterval);
+      this.balanceUpdateInterval = null;
+    }
+    if (this.openOrdersUpdateInterval) {
+      window.clearInterval(this.openOrdersUpdateInterval);
+      this.openOrdersUpdateInterval = null;
+    }
+  }
+
+  private handleUserDataStreamStatus(status: UserDataStreamStatus) {
+    console.log(`User data stream status: ${status}`);
+
+    if (status === 'connected') {
+      this.stopFallbackPolling();
+      // Catch up on anything that changed while the stream was down
+      this.scheduleAccountRefresh();
+      this.checkPendingProtection();
+      this.fetchOpenOrders().catch(error => {
+        console.error('Failed to fetch open orders:', error);
+      });
+    } else if (status === 'disconnected' && this.ws?.readyState === WebSocket.OPEN && !this.positionUpdateInterval) {
+      this.startFallbackPolling();
+    }
+  }
+
+  private handleUserDataEvent(event: UserDataEvent) {
+    switch (event.e) {
+      case 'ACCOUNT_UPDATE':
+        this.applyAccountUpdate(event);
+        break;
+      case 'ORDER_TRADE_UPDATE':
+        this.applyOrderUpdate(event);
+        break;
+      case 'MARGIN_CALL':
+        this.handleMarginCall(event);
+        break;
+      default:
+        console.log('Unhandled user data event:', event);
+    }
+  }
+
+  private applyAccountUpdate(event: AccountUpdateEvent) {
+    event.a.P.forEach(p => {
+      const id = `${p.s}-${p.ps}`;
+      const size = parseFloat(p.pa);
+
+      if (size === 0) {
+        this.positionMap.delete(id);
+        return;
+      }
+
+      const existing = this.positionMap.get(id);
+      if (existing) {
+        this.positionMap.set(id, {
+          ...existing,
+          size,
+          entryPrice: parseFloat(p.ep),
+          breakEvenPrice: parseFloat(p.bep),
+          pnl: parseFloat(p.up),
+          type: size > 0 ? 'long' : 'short',
+          marginType: p.mt === 'isolated' ? 'ISOLATED' : 'CROSSED'
+        });
+      }
+    });
+
+    this.emitPositions();
+
+    // The event lacks liquidation price, leverage and available balance,
+    // so follow it with a single snapshot of positions and balances
+    this.scheduleAccountRefresh();
+  }
+
+  private applyOrderUpdate(event: OrderTradeUpdateEvent) {
+    const o = event.o;
+
+    if (o.X === 'NEW' || o.X === 'PARTIALLY_FILLED') {
+      this.openOrders.set(o.i, this.transformOrder({
+        orderId: o.i,
+        clientOrderId: o.c,
+        symbol: o.s,
+        side: o.S,
+        type: o.o,
+        status: o.X,
+        price: o.p,
+        stopPrice: o.sp,
+        origQty: o.q,
+        executedQty: o.z,
+        avgPrice: o.ap,
+        positionSide: o.ps,
+        reduceOnly: o.R,
+        updateTime: o.T || event.E
+      }));
+    } else {
+      this.openOrders.delete(o.i);
+    }
+    this.emitOpenOrders();
+
+    if (o.x === 'TRADE') {
+      this.riskManager.recordRealizedPnl(parseFloat(o.rp));
+
+      const fill: OrderFill = {
+        orderId: o.i,
+        clientOrderId: o.c,
+        symbol: o.s,
+        side: o.S,
+        positionSide: o.ps,
+        lastQty: parseFloat(o.l),
+        lastPrice: parseFloat(o.L),
+        filledQty: parseFloat(o.z),
+        avgPrice: parseFloat(o.ap),
+        realizedPnl: parseFloat(o.rp),
+        time: o.T || event.E
+      };
+      this.orderFillHandlers.forEach(handler => handler(fill));
+    }
+
+    const protection = this.pendingProtection.get(o.i);
+    if (protection) {
+      this.handleEntryOrderUpdate({
+        orderId: o.i,
+        symbol: o.s,
+        status: o.X,
+        executedQty: o.z,
+        avgPrice: o.ap
+      }, protection).catch(error => {
+        console.error(`Failed to handle protection for order ${o.i}:`, error);
+      });
+    }
+  }
+
+  private handleMarginCall(event: MarginCallEvent) {
+    event.p.forEach(p => {
+      showToast(`Margin call on ${p.s} (${p.ps}): mark ${p.mp}, maintenance margin ${parseFloat(p.mm).toFixed(2)} USDT`, 'warning');
+    });
+    this.scheduleAccountRefresh();
+  }
+
+  private scheduleAccountRefresh() {
+    if (this.accountRefreshTimeout) return;
+
+    this.accountRefreshTimeout = window.setTimeout(() => {
+      this.accountRefreshTimeout = null;
+      this.fetchPositions().catch(error => {
+        console.error('Failed to refresh positions:', error);
+      });
+      this.fetchBalance().catch(error => {
+        console.error('Failed to refresh balance:', error);
+      });
+    }, websocketConfig.intervals.accountRefreshDebounce);
+  }
+
+  private emitPositions() {
+    const positions = Array.from(this.positionMap.values());
+    this.syncPositionPriceSubscriptions();
+    this.positionHandlers.forEach(handler => handler(positions));
+    this.riskManager.evaluate();
+  }
+
+  // Keeps mark price and PnL moving between account snapshots. In paper
+  // trading resting orders need prices too, and the engine does the marking.
+  private syncPositionPriceSubscriptions() {
+    const symbols = new Set(Array.from(this.positionMap.values()).map(p => p.symbol));
+    if (this.isPaperTrading()) {
+      this.paperEngine.getSymbols().forEach(symbol => symbols.add(symbol));
+    }
+
+    this.positionPriceSubscriptions.forEach((unsubscribe, symbol) => {
+      if (!symbols.has(symbol)) {
+        unsubscribe();
+        this.positionPriceSubscriptions.delete(symbol);
+      }
+    });
+
+    symbols.forEach(symbol => {
+      if (this.positionPriceSubscriptions.has(symbol)) return;
+      const unsubscribe = this.subscribeToMarketData(symbol, (data) => {
+        if (!this.isPaperTrading()) {
+          this.markPositionsToMarket(symbol, parseFloat(data.markPrice || data.price));
+        }
+      });
+      this.positionPriceSubscriptions.set(symbol, unsubscribe);
+    });
+  }
+
+  private markPositionsToMarket(symbol: string, price: number) {
+    if (!price) return;
+
+    let changed = false;
+    this.positionMap.forEach((position, id) => {
+      if (position.symbol !== symbol) return;
+
+      const leverage = parseFloat(position.leverage) || 1;
+      const notional = position.size * price;
+      const initialMargin = Math.abs(notional) / leverage;
+      const pnl = position.size * (price - position.entryPrice);
+
+      this.positionMap.set(id, {
+        ...position,
+        markPrice: price,
+        notional,
+        pnl,
+        pnlPercentage: initialMargin ? (pnl / initialMargin) * 100 : 0
+      });
+      changed = true;
+    });
+
+    if (changed) {
+      const positions = Array.from(this.positionMap.values());
+      this.positionHandlers.forEach(handler => handler(positions));
+    }
+  }
+
+  private transformOrder(order: OrderResult): OpenOrder {
+    return {
+      orderId: order.orderId,
+      clientOrderId: order.clientOrderId,
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      status: order.status,
+      price: parseFloat(order.price),
+      stopPrice: parseFloat(order.stopPrice),
+      origQty: parseFloat(order.origQty),
+      executedQty: parseFloat(order.executedQty),
+      positionSide: order.positionSide,
+      reduceOnly: order.reduceOnly,
+      updateTime: order.updateTime
+    };
+  }
+
+  async fetchOpenOrders(priority: RequestPriority = 'normal'): Promise<void> {
+    if (!this.isPaperTrading() && !this.hasCredentials()) {
+      return;
+    }
+
+    let orders: OrderResult[];
+    try {
+      orders = this.isPaperTrading()
+        ? this.paperEngine.getOpenOrders()
+        : await this.sendSignedRequest<OrderResult[]>(websocketConfig.methods.openOrders, {}, priority);
+    } catch (error) {
+      // A skipped poll keeps the last snapshot
+      if (error instanceof RequestShedError) return;
+      throw error;
+    }
+
+    // The snapshot is authoritative, orders missing from it are gone
+    this.openOrders.clear();
+    orders.forEach(order => this.openOrders.set(order.orderId, this.transformOrder(order)));
+    this.emitOpenOrders();
+  }
+
+  async cancelOrder(symbol: string, orderId: number): Promise<void> {
+    if (this.isPaperTrading()) {
+      this.paperEngine.cancelOrder(orderId);
+    } else {
+      if (!this.hasCredentials()) {
+        throw new Error('Please configure your API credentials');
+      }
+
+      await this.sendSignedRequest<OrderResult>(websocketConfig.methods.orderCancel, {
+        symbol,
+        orderId
+      }, 'order');
+    }
+
+    console.log(`Order ${orderId} cancelled`);
+    this.openOrders.delete(orderId);
+    this.pendingProtection.delete(orderId);
+    this.emitOpenOrders();
+  }
+
+  async cancelAllOrders(symbol: string): Promise<void> {
+    if (this.isPaperTrading()) {
+      this.paperEngine.cancelAllOrders(symbol);
+      return;
+    }
+
+    if (!this.hasCredentials()) {
+      throw new Error('Please configure your API credentials');
+    }
+
+    try {
+      const response = await this.signedFetch('/fapi/v1/allOpenOrders', 'DELETE', { symbol }, 'order');
+
+      if (!response.ok) {
+        const error = await response.json();
+        console.error('Cancel all orders error response:', error);
+        throw toBinanceError(error, 'Failed to cancel orders');
+      }
+
+      console.log(`All open orders cancelled for ${symbol}`);
+    } catch (error) {
+      console.error('Failed to cancel all orders:', error);
+      throw error;
+    }
+
+    this.openOrders.forEach((order, orderId) => {
+      if (order.symbol === symbol) {
+        this.openOrders.delete(orderId);
+        this.pendingProtection.delete(orderId);
+      }
+    });
+    this.emitOpenOrders();
+  }
+
+  // Binance only allows amending price and quantity of resting LIMIT orders
+  async modifyOrder(orderId: number, price: number, quantity: number): Promise<void> {
+    if (!this.isPaperTrading() && !this.hasCredentials()) {
+      throw new Error('Please configure your API credentials');
+    }
+
+    const order = this.openOrders.get(orderId);
+    if (!order) {
+      throw new Error('Order not found. It may have already been filled or cancelled.');
+    }
+
+    if (order.type !== 'LIMIT') {
+      throw new Error('Only LIMIT orders can be amended');
+    }
+
+    const adjustedQuantity = this.adjustQuantityPrecision(order.symbol, quantity);
+    const adjustedPrice = this.adjustPricePrecision(order.symbol, price);
+
+    const result = this.isPaperTrading()
+      ? this.paperEngine.modifyOrder(orderId, adjustedPrice, adjustedQuantity)
+      : await this.sendSignedRequest<OrderResult>(websocketConfig.methods.orderModify, {
+          symbol: order.symbol,
+          orderId,
+          side: order.side,
+          quantity: adjustedQuantity,
+          price: adjustedPrice.toString()
+        }, 'order');
+
+    console.log(`Order ${orderId} amended:`, result);
+    // An amend that crosses the book can fill straight away
+    if (result.status === 'NEW' || result.status === 'PARTIALLY_FILLED') {
+      this.openOrders.set(orderId, this.transformOrder(result));
+    } else {
+      this.openOrders.delete(orderId);
+    }
+    this.emitOpenOrders();
+  }
+
+  private emitOpenOrders() {
+    const orders = Array.from(this.openOrders.values());
+    this.openOrderHandlers.forEach(handler => handler(orders));
+  }
+
+  updateCredentials(apiKey: string, apiSecret: string, network: NetworkType, keyType: ApiKeyType = 'hmac') {
+    console.log('Updating credentials...', { hasApiKey: !!apiKey, hasApiSecret: !!apiSecret, network, keyType });
+    const previousDataNetwork = this.getDataNetwork();
+    this.apiKey = apiKey;
+    this.apiSecret = apiSecret;
+    this.network = network;
+    this.keyType = keyType;
+    if (!this.isPaperTrading()) {
+      this.stopPaperReplay();
+    }
+
+    // Testnet and mainnet servers keep their own clocks
+    if (this.getDataNetwork() !== previousDataNetwork) {
+      this.startServerTimeSync();
+      this.rateLimiter.reset();
+    }
+
+    try {
+      this.signer = apiSecret ? createRequestSigner(keyType, apiSecret) : null;
+    } catch (error) {
+      console.error('Invalid API secret:', error);
+      showToast(`Invalid ${keyType === 'ed25519' ? 'Ed25519 private key' : 'API secret'}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.signer = null;
+    }
     
-    // Reconnect WebSocket with new credentials
-    if (this.ws) {
-      console.log('Closing existing WebSocket connection to reconnect with new credentials');
-      this.ws.close();
+    // Get authenticated information
+    if (this.hasCredentials() && !this.isPaperTrading()) {
+      this.fetchLeverageBrackets().catch(console.error);
+      this.fetchPositionMode().catch(console.error);
+      this.fetchMarginTypes().catch(console.error);
     }
     
+    // Reconnect WebSocket with new credentials
+    this.resetAccountState();
+    this.closeApiSocket();
+    
     // Always try to connect with new credentials
-    if (apiKey && apiSecret) {
+    if (this.isPaperTrading() || this.hasCredentials()) {
       console.log('Attempting to connect with new credentials');
       this.connect();
     }
   }
 
+  // Moves to another account profile: its risk limits, then a fresh connection
+  // with its credentials. Nothing of the previous account reaches the handlers.
+  switchProfile(profileId: string, apiKey: string, apiSecret: string, network: NetworkType, keyType: ApiKeyType) {
+    const changed = profileId !== this.profileId;
+    this.profileId = profileId;
+    this.riskManager.setProfile(profileId);
+    this.updateCredentials(apiKey, apiSecret, network, keyType);
+    if (!this.hasCredentials() && !this.isPaperTrading()) {
+      this.setStatus('disconnected');
+    }
+
+    if (changed) {
+      this.profileHandlers.forEach(handler => handler(profileId));
+    }
+  }
+
+  getProfileId(): string {
+    return this.profileId;
+  }
+
+  onProfileChange(handler: (profileId: string) => void) {
+    this.profileHandlers.push(handler);
+    return () => {
+      this.profileHandlers = this.profileHandlers.filter(h => h !== handler);
+    };
+  }
+
+  // Everything here belongs to the account being replaced, live or paper
+  private resetAccountState() {
+    this.accountGeneration++;
+
+    // The stream is tied to the API key, start over with the new one
+    this.userDataStream.stop();
+    if (this.accountRefreshTimeout) {
+      clearTimeout(this.accountRefreshTimeout);
+      this.accountRefreshTimeout = null;
+    }
+
+    this.openOrders.clear();
+    this.emitOpenOrders();
+    this.pendingProtection.clear();
+    this.symbolLeverage.clear();
+    this.isClosingAllPositions = false;
+
+    this.marginTypeMap.clear();
+    this.marginTypeHandlers.forEach(handler => handler(this.marginTypeMap));
+
+    this.positionMap.clear();
+    this.emitPositions();
+
+    this.unknownOrders.clear();
+    this.emitRequestActivity();
+    this.recentOrders.clear();
+  }
+
+  // Drops the key and secret from memory, used when the credential vault locks
+  clearCredentials() {
+    if (this.isPaperTrading()) return;
+
+    this.updateCredentials('', '', this.network, this.keyType);
+    this.setStatus('disconnected');
+  }
+
+  // Tears the WS-API socket down without triggering the reconnect logic
+  private closeApiSocket() {
+    this.stopHeartbeat();
+    this.stopFallbackPolling();
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    if (this.ws) {
+      console.log('Closing existing WebSocket connection');
+      this.ws.onopen = null;
+      this.ws.onmessage = null;
+      this.ws.onerror = null;
+      this.ws.onclose = null;
+      this.ws.close();
+      this.ws = null;
+    }
+
+    // Requests sent on the old socket will never be answered
+    this.requests.rejectAll('disconnected');
+    this.sessionLoggedOn = false;
+  }
+
+  private startPaperTrading() {
+    console.log('Paper trading enabled, orders are simulated locally');
+    this.loadCachedLeverageBrackets();
+    this.setStatus('connected');
+
+    this.fetchPositionMode().catch(error => {
+      console.error('Failed to fetch paper position mode:', error);
+    });
+    this.fetchMarginTypes().catch(error => {
+      console.error('Failed to fetch paper margin types:', error);
+    });
+    this.fetchOpenOrders().catch(error => {
+      console.error('Failed to fetch paper open orders:', error);
+    });
+    this.emitPaperAccount(true);
+  }
+
+  private emitPaperAccount(balanceChanged: boolean) {
+    if (!this.isPaperTrading()) return;
+
+    this.positionMap.clear();
+    this.paperEngine.getPositions().forEach(position => this.positionMap.set(position.id, position));
+    this.emitPositions();
+
+    if (balanceChanged) {
+      const balances = this.paperEngine.getBalances();
+      this.balanceHandlers.forEach(handler => handler(balances));
+    }
+  }
+
+  // Public klines, always from mainnet as testnet prices say nothing about the
+  // market. On testnet the limiter still counts their weight, which only makes
+  // it more careful, but mainnet's usage headers are not mixed into its windows.
+  async fetchKlines(
+    symbol: string,
+    params: { interval: string; startTime?: number; endTime?: number; limit: number },
+    priority: RequestPriority = 'normal'
+  ): Promise<Kline[]> {
+    const query = new URLSearchParams({ symbol, interval: params.interval, limit: params.limit.toString() });
+    if (params.startTime !== undefined) query.set('startTime', params.startTime.toString());
+    if (params.endTime !== undefined) query.set('endTime', params.endTime.toString());
+
+    await this.rateLimiter.acquire('GET /fapi/v1/klines', priority);
+    const response = await fetch(`${websocketConfig.baseUrls.mainnet}/fapi/v1/klines?${query}`);
+    if (this.getDataNetwork() === 'mainnet') {
+      this.rateLimiter.recordRestResponse(response);
+    }
+    if (!response.ok) {
+      throw toBinanceError(await response.json().catch(() => null), `Klines request for ${symbol} failed: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  getPaperReplay(): PaperReplay | null {
+    return this.paperReplay;
+  }
+
+  onPaperReplayChange(handler: (replay: PaperReplay | null) => void) {
+    this.paperReplayHandlers.push(handler);
+    return () => {
+      this.paperReplayHandlers = this.paperReplayHandlers.filter(h => h !== handler);
+    };
+  }
+
+  // Plays the 1m candles of a past window into the paper account in place of
+  // the symbol's live ticks. Each candle becomes four prices: open, the
+  // nearer extreme, the other one and close.
+  async startPaperReplay(symbol: string, startTime: number, endTime: number, speed: number): Promise<void> {
+    if (!this.isPaperTrading()) {
+      throw new Error('Replays only run in paper trading');
+    }
+    const end = Math.min(endTime, Date.now());
+    if (!(end > startTime)) {
+      throw new Error('The replay window must start in the past and end after it starts');
+    }
+    const maxHours = websocketConfig.paperTrading.replayMaxHours;
+    if (end - startTime > maxHours * 60 * MINUTE) {
+      throw new Error(`Replays are limited to ${maxHours} hours`);
+    }
+
+    this.stopPaperReplay();
+    const generation = this.paperReplayGeneration;
+    const candles = await this.fetchReplayCandles(symbol, startTime, end);
+    // Stopped, restarted or switched away from paper while loading
+    if (generation !== this.paperReplayGeneration || !this.isPaperTrading()) return;
+    if (candles.length === 0) {
+      throw new Error(`No ${symbol} candles in that window`);
+    }
+
+    const prices = candles.flatMap(([, open, high, low, close]) => {
+      const [o, h, l, c] = [open, high, low, close].map(parseFloat);
+      return h - o < o - l ? [o, h, l, c] : [o, l, h, c];
+    });
+    let step = 0;
+
+    this.setPaperReplay({ symbol, startTime, endTime: end, speed, time: candles[0][0], done: 0, total: candles.length });
+    this.paperReplayTimer = window.setInterval(() => {
+      const price = prices[step].toString();
+      const ticker = this.marketTickers.get(symbol) || { symbol, price, priceChangePercent: '0.00' };
+      this.publishTicker(symbol, { ...ticker, price, markPrice: price });
+      step++;
+
+      if (step === prices.length) {
+        this.stopPaperReplay();
+        showToast(`${symbol} replay finished`, 'success');
+      } else if (step % 4 === 0 && this.paperReplay) {
+        this.setPaperReplay({ ...this.paperReplay, time: candles[step / 4][0], done: step / 4 });
+      }
+    }, MINUTE / speed / 4);
+  }
+
+  // Live ticks of the symbol take over again from the next one
+  stopPaperReplay() {
+    this.paperReplayGeneration++;
+    if (this.paperReplayTimer) {
+      clearInterval(this.paperReplayTimer);
+      this.paperReplayTimer = null;
+    }
+    if (this.paperReplay) {
+      this.setPaperReplay(null);
+    }
+  }
+
+  private setPaperReplay(replay: PaperReplay | null) {
+    this.paperReplay = replay;
+    this.paperReplayHandlers.forEach(handler => handler(replay));
+  }
+
+  private async fetchReplayCandles(symbol: string, startTime: number, endTime: number): Promise<Kline[]> {
+    const candles: Kline[] = [];
+    let from = startTime;
+    while (from < endTime) {
+      const klines = await this.fetchKlines(symbol, { interval: '1m', startTime: from, endTime, limit: 1000 });
+      if (klines.length === 0) break;
+      candles.push(...klines);
+      from = klines[klines.length - 1][0] + MINUTE;
+    }
+    return candles;
+  }
+
+  // Wipes the virtual account back to its starting balance
+  resetPaperAccount() {
+    if (!this.isPaperTrading()) return;
+
+    this.pendingProtection.clear();
+    this.openOrders.clear();
+    this.emitOpenOrders();
+    this.marginTypeMap.clear();
+    this.paperEngine.reset();
+    this.fetchMarginTypes().catch(error => {
+      console.error('Failed to fetch paper margin types:', error);
+    });
+    this.fetchPositionMode().catch(error => {
+      console.error('Failed to fetch paper position mode:', error);
+    });
+  }
+
   private async authenticate(): Promise<void> {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       console.log('Cannot authenticate: WebSocket not connected');
@@ -824,156 +1948,386 @@ class BinanceService {
       throw new Error('API credentials not configured');
     }
 
-    const requestId = uuidv4();
-    const timestamp = Date.now();
+    // Ed25519 keys authenticate the socket once, HMAC keys keep signing every request
+    if (this.keyType === 'ed25519') {
+      await this.logonSession();
+    }
 
-    // Create params without signature first
-    const baseParams = {
-      apiKey: this.apiKey,
-      timestamp: timestamp.toString(),
-      recvWindow: websocketConfig.settings.recvWindow
-    };
+    try {
+      console.log('Sending balance request');
+      await this.sendSignedRequest(websocketConfig.methods.balance, {});
+      console.log('Successfully retrieved account balance');
+      this.setStatus('connected');
+    } catch (error) {
+      console.error('Balance request failed:', error);
+      this.setStatus('disconnected');
+      throw new Error(`Balance request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-    // Generate signature and add it to params
-    const signature = this.createSignature(baseParams);
+  // The session stays authenticated until the socket closes, reconnects log on again
+  private async logonSession(): Promise<void> {
+    this.sessionLoggedOn = false;
+    await this.sendSignedRequest(websocketConfig.methods.sessionLogon, {});
+    this.sessionLoggedOn = true;
+    console.log('WS-API session logged on with Ed25519 key');
+  }
 
-    const authRequest = {
-      id: requestId,
-      method: websocketConfig.methods.balance,
-      params: {
-        ...baseParams,
-        signature
-      }
-    };
+  // Throws a DuplicateOrderError when the same order was sent within the
+  // dedupe window and the repeat was not confirmed
+  checkDuplicateOrder(params: OrderParams) {
+    if (params.confirmDuplicate) return;
 
-    return new Promise((resolve, reject) => {
-      this.messageHandlers.set(requestId, (response) => {
-        if (response.status === 200) {
-          console.log('Successfully retrieved account balance');
-          this.setStatus('connected');
-          resolve();
-        } else {
-          console.error('Balance request failed:', response);
-          this.setStatus('disconnected');
-          reject(new Error(`Balance request failed: ${response.error?.msg || 'Unknown error'}`));
-        }
-      });
-
-      console.log('Sending balance request:', authRequest);
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify(authRequest));
-      } else {
-        throw new Error('WebSocket is not connected');
+    const now = Date.now();
+    this.recentOrders.forEach((sentAt, key) => {
+      if (now - sentAt > websocketConfig.settings.orderDedupeWindow) {
+        this.recentOrders.delete(key);
       }
     });
-  }
 
-  async placeOrder(params: OrderParams): Promise<void> {
-    if (!this.hasCredentials()) {
-      showToast('Please configure your API credentials in settings');
-      return;
+    const lastSentAt = this.recentOrders.get(getOrderDedupeKey(params));
+    if (lastSentAt !== undefined) {
+      throw new DuplicateOrderError(params.symbol, params.side, now - lastSentAt);
     }
+  }
 
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      showToast('WebSocket connection failed. Please try again.');
-      return;
+  // Resolves with the exchange's result, or null when the order was not sent
+  // for a reason already shown to the user
+  async placeOrder(params: OrderParams): Promise<OrderResult | null> {
+    this.checkDuplicateOrder(params);
+
+    if (!this.isPaperTrading()) {
+      if (!this.hasCredentials()) {
+        showToast('Please configure your API credentials in settings');
+        return null;
+      }
+
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+        showToast('WebSocket connection failed. Please try again.');
+        return null;
+      }
     }
     
     const currentPrice = this.marketPrices.get(params.symbol);
     if (!currentPrice) {
       showToast('Failed to get market price. Please try again.');
-      return;
+      return null;
     }
     
     if (!this.symbolInfo.has(params.symbol)) {
       showToast('Failed to get symbol information. Please try again.');
-      return;
+      return null;
     }
 
-    const timestamp = Date.now();
-    const requestId = uuidv4();
-    
-    let notionalValue = 1000;
-    if (params.leverage) {
-      // If ends with "K" (e.g.: "1K", "5K")
-      const kMatch = params.leverage.match(/(\d+)K/);
-      if (kMatch) {
-        notionalValue = parseInt(kMatch[1]) * 1000;
-      } else {
-        // If it's just a number (e.g.: "250")
-        const numberMatch = params.leverage.match(/(\d+)/);
-        if (numberMatch) {
-          notionalValue = parseInt(numberMatch[1]);
-        }
-      }
-    }
+    const notionalValue = params.leverage ? parseOrderNotional(params.leverage) : 1000;
 
-    // Calculate quantity using current price
-    const quantity = notionalValue / currentPrice;
+    // Size limit orders at their own price, market orders at the current price
+    const sizingPrice = params.type === 'LIMIT' && params.price ? parseFloat(params.price) : currentPrice;
+    const quantity = notionalValue / sizingPrice;
     const adjustedQuantity = this.adjustQuantityPrecision(params.symbol, quantity);
     
     // Validate notional value
-    if (!this.validateNotionalValue(params.symbol, adjustedQuantity, currentPrice)) {
+    if (!this.validateNotionalValue(params.symbol, adjustedQuantity, sizingPrice)) {
       throw new Error('Order size is too small. Please increase the amount.');
     }
     
     console.log(`Opening position with: notional=${notionalValue}, quantity=${quantity}`);
     
-    let baseParams: Record<string, any> = {
-      apiKey: this.apiKey,
+    const positionSide = params.positionMode === 'one-way' ? 'BOTH' : (params.side === 'BUY' ? 'LONG' : 'SHORT');
+
+    // Every entry, manual or automated, passes the risk limits
+    this.riskManager.checkEntry({
+      symbol: params.symbol,
+      side: params.side,
+      positionSide,
+      notional: notionalValue
+    });
+
+    const orderParams: Record<string, string | number> = {
       symbol: params.symbol,
       side: params.side,
       type: params.type,
       quantity: adjustedQuantity,
-      positionSide: params.positionMode === 'one-way' ? 'BOTH' : (params.side === 'BUY' ? 'LONG' : 'SHORT'),
-      timestamp: timestamp.toString(),
-      recvWindow: websocketConfig.settings.recvWindow
+      positionSide,
+      newOrderRespType: 'RESULT',
+      newClientOrderId: params.clientOrderId || createClientOrderId()
     };
 
     // Add additional parameters for LIMIT orders only
     if (params.type === 'LIMIT') {
-      baseParams = {
-        ...baseParams,
-        timeInForce: 'GTC',
-        price: this.adjustPricePrecision(params.symbol, parseFloat(params.price!)).toString() // Convert to string
-      };
+      orderParams.timeInForce = 'GTC';
+      orderParams.price = this.adjustPricePrecision(params.symbol, parseFloat(params.price!)).toString();
     }
 
-    // Generate signature and add it to params
-    const signature = this.createSignature(baseParams);
+    console.log('Sending order request:', orderParams);
+    this.riskManager.recordOrder();
+    const dedupeKey = getOrderDedupeKey(params);
+    this.recentOrders.set(dedupeKey, Date.now());
+
+    const protection: PendingProtection | undefined = params.stopLoss || params.takeProfit
+      ? {
+          symbol: params.symbol,
+          side: params.side,
+          positionSide,
+          stopLoss: params.stopLoss,
+          takeProfit: params.takeProfit
+        }
+      : undefined;
 
-    const orderRequest = {
-      id: requestId,
-      method: websocketConfig.methods.orderPlace,
-      params: {
-        ...baseParams,
-        signature
+    let result: OrderResult;
+    try {
+      if (params.newsId) latencyMonitor.markOrderSent(params.newsId);
+      result = await this.sendOrderRequest(orderParams, protection);
+      if (params.newsId) latencyMonitor.markOrderAcked(params.newsId);
+    } catch (error) {
+      console.error('Order failed:', error);
+      // A rejected order never existed, a corrected retry is no duplicate. One
+      // without an answer may have been placed and keeps blocking repeats.
+      if (!(error instanceof OrderStatusUnknownError)) {
+        this.recentOrders.delete(dedupeKey);
       }
-    };
-
-    console.log('Sending order request:', orderRequest);
+      throw error;
+    }
+    console.log('Order placed successfully:', result);
 
-    return new Promise((resolve, reject) => {
-      this.messageHandlers.set(requestId, (response) => {
-        if (response.status !== 200 || response.error) {
-          console.error('Order failed:', response);
-          reject(new Error(response.error?.msg || 'Order failed'));
-        } else {
-          console.log('Order placed successfully:', response);
-          resolve();
-        }
+    if (protection) {
+      await this.handleEntryOrderUpdate(result, protection).catch(error => {
+        console.error(`Failed to handle protection for order ${result.orderId}:`, error);
       });
+    }
+
+    return result;
+  }
+
+  // Places the protection legs once the entry is done filling, otherwise parks
+  // them until a later order status check reports the fill
+  private async handleEntryOrderUpdate(order: EntryFill, protection: PendingProtection): Promise<void> {
+    if (order.status === 'NEW' || order.status === 'PARTIALLY_FILLED') {
+      this.pendingProtection.set(order.orderId, protection);
+      return;
+    }
+
+    this.pendingProtection.delete(order.orderId);
+    // A CANCELED or EXPIRED entry may still have filled partly, that part is
+    // protected. Nothing filled means nothing to protect.
+    const executedQty = parseFloat(order.executedQty);
+    if (executedQty > 0) {
+      await this.placeProtectionOrders(protection, executedQty, parseFloat(order.avgPrice));
+    }
+  }
+
+  private checkPendingProtection() {
+    this.pendingProtection.forEach((protection, orderId) => {
+      this.sendSignedRequest<OrderResult>(websocketConfig.methods.orderStatus, {
+        symbol: protection.symbol,
+        orderId
+      })
+        .then(order => this.handleEntryOrderUpdate(order, protection))
+        .catch(error => {
+          console.error(`Failed to check entry order ${orderId}:`, error);
+        });
+    });
+  }
+
+  private resolveProtectionPrice(level: ProtectionLevel, entryPrice: number, isLong: boolean, kind: 'stop' | 'profit'): number {
+    if (level.type === 'price') {
+      return level.value;
+    }
+
+    // A stop sits below a long entry and above a short entry, a target the opposite way
+    const direction = (kind === 'stop') === isLong ? -1 : 1;
+    return entryPrice * (1 + direction * level.value / 100);
+  }
+
+  private async placeProtectionOrders(protection: PendingProtection, quantity: number, entryPrice: number): Promise<void> {
+    if (!quantity || !entryPrice) {
+      console.warn('Cannot place protection orders without a filled quantity and price');
+      return;
+    }
+
+    const isLong = protection.side === 'BUY';
+    const legs: Array<{ type: 'STOP_MARKET' | 'TAKE_PROFIT_MARKET'; level: ProtectionLevel; label: string }> = [];
+    if (protection.stopLoss) {
+      legs.push({ type: 'STOP_MARKET', level: protection.stopLoss, label: 'Stop-loss' });
+    }
+    if (protection.takeProfit) {
+      legs.push({ type: 'TAKE_PROFIT_MARKET', level: protection.takeProfit, label: 'Take-profit' });
+    }
+
+    await Promise.all(legs.map(async leg => {
+      const triggerPrice = this.resolveProtectionPrice(
+        leg.level,
+        entryPrice,
+        isLong,
+        leg.type === 'STOP_MARKET' ? 'stop' : 'profit'
+      );
+
+      const legParams: Record<string, string | number> = {
+        symbol: protection.symbol,
+        side: isLong ? 'SELL' : 'BUY',
+        type: leg.type,
+        quantity: this.adjustQuantityPrecision(protection.symbol, quantity),
+        stopPrice: this.adjustPricePrecision(protection.symbol, triggerPrice).toString(),
+        positionSide: protection.positionSide,
+        workingType: 'MARK_PRICE'
+      };
 
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify(orderRequest));
-      } else {
-        throw new Error('WebSocket is not connected');
+      // Binance rejects reduceOnly in hedge mode, where positionSide already scopes the leg
+      if (protection.positionSide === 'BOTH') {
+        legParams.reduceOnly = 'true';
       }
+
+      try {
+        await this.sendOrderRequest(legParams);
+        console.log(`${leg.label} placed for ${protection.symbol} at ${legParams.stopPrice}`);
+      } catch (error) {
+        console.error(`Failed to place ${leg.label} for ${protection.symbol}:`, error);
+        showToast(`${leg.label} could not be placed for ${protection.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'warning');
+      }
+    }));
+  }
+
+  // Orders go to the paper engine or the WS-API depending on the network. An
+  // unanswered order is remembered, with the protection it still needs, until
+  // a lookup by its client order id tells whether it reached the exchange.
+  private async sendOrderRequest(params: Record<string, string | number>, protection?: PendingProtection): Promise<OrderResult> {
+    const orderParams: Record<string, string | number> = { ...params, newClientOrderId: params.newClientOrderId || createClientOrderId() };
+    if (this.isPaperTrading()) {
+      return this.paperEngine.placeOrder(orderParams);
+    }
+
+    const generation = this.accountGeneration;
+    try {
+      return await this.sendSignedRequest<OrderResult>(websocketConfig.methods.orderPlace, orderParams, 'order');
+    } catch (error) {
+      if (!(error instanceof WsRequestError)) {
+        throw error;
+      }
+
+      const clientOrderId = String(orderParams.newClientOrderId);
+      const symbol = String(orderParams.symbol);
+      if (generation === this.accountGeneration) {
+        this.unknownOrders.set(clientOrderId, { symbol, protection });
+        this.emitRequestActivity();
+        // A timeout leaves the socket up, the lookup can go out right away
+        if (this.ws?.readyState === WebSocket.OPEN) {
+          this.reconcileUnknownOrders();
+        }
+      }
+      throw new OrderStatusUnknownError(error.reason, error.method, clientOrderId, symbol);
+    }
+  }
+
+  private reconcileUnknownOrders() {
+    const generation = this.accountGeneration;
+
+    this.unknownOrders.forEach((order, clientOrderId) => {
+      this.sendWsRequest<OrderResult>(websocketConfig.methods.orderStatus, {
+        symbol: order.symbol,
+        origClientOrderId: clientOrderId
+      }, 'order')
+        .then(response => {
+          if (generation !== this.accountGeneration || !this.unknownOrders.has(clientOrderId)) return;
+
+          if (response.error?.code === ORDER_NOT_FOUND_CODE) {
+            this.unknownOrders.delete(clientOrderId);
+            showToast(`The ${order.symbol} order ${clientOrderId} never reached the exchange`, 'warning');
+          } else if (response.status === 200 && response.result) {
+            const result = response.result;
+            this.unknownOrders.delete(clientOrderId);
+            showToast(`The ${order.symbol} order ${clientOrderId} reached the exchange after all (${result.status})`, 'warning');
+            if (order.protection) {
+              this.handleEntryOrderUpdate(result, order.protection).catch(error => {
+                console.error(`Failed to handle protection for order ${result.orderId}:`, error);
+              });
+            }
+            this.scheduleAccountRefresh();
+          } else {
+            console.error(`Failed to look up order ${clientOrderId}:`, response.error);
+            return;
+          }
+          this.emitRequestActivity();
+        })
+        .catch(error => {
+          // Still unknown, the next reconnect tries again
+          console.error(`Failed to look up order ${clientOrderId}:`, error);
+        });
     });
   }
 
+  getRequestActivity(): RequestActivity {
+    return {
+      inFlight: this.requests.getInFlightCount(),
+      unknownOrders: this.unknownOrders.size
+    };
+  }
+
+  onRequestActivityChange(handler: (activity: RequestActivity) => void) {
+    this.requestActivityHandlers.push(handler);
+    handler(this.getRequestActivity());
+    return () => {
+      this.requestActivityHandlers = this.requestActivityHandlers.filter(h => h !== handler);
+    };
+  }
+
+  getRateLimitState(): RateLimitState {
+    return this.rateLimiter.getState();
+  }
+
+  onRateLimitChange(handler: (state: RateLimitState) => void) {
+    return this.rateLimiter.onStateChange(handler);
+  }
+
+  private emitRequestActivity() {
+    const activity = this.getRequestActivity();
+    this.requestActivityHandlers.forEach(handler => handler(activity));
+  }
+
+  // Signs and sends a WS-API request, resolving with the raw response. It
+  // rejects with a WsRequestError when no response comes. A timestamp
+  // rejection means the request was not executed, so it is sent once more
+  // after resyncing the clock.
+  private async sendWsRequest<T>(method: string, params: Record<string, string | number>, priority: RequestPriority = 'normal', isRetry = false): Promise<WsApiResponse<T>> {
+    // Checked after the rate limiter, a queued request may outlive the socket
+    await this.rateLimiter.acquire(method, priority);
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      throw new Error('WebSocket is not connected');
+    }
+
+    const requestId = uuidv4();
+    const requestParams = this.buildRequestParams(params);
+    const pending = this.requests.track<WsApiResponse<T>>(requestId, method, websocketConfig.settings.requestTimeout);
+    try {
+      this.ws.send(JSON.stringify({
+        id: requestId,
+        method,
+        params: requestParams
+      }));
+    } catch (error) {
+      console.error(`Failed to send ${method}:`, error);
+      this.requests.cancel(requestId, 'disconnected');
+    }
+
+    const response = await pending;
+    if (response.error?.code === TIMESTAMP_ERROR_CODE && !isRetry) {
+      console.warn(`${method} rejected the request timestamp, resyncing server time`);
+      await this.syncServerTime();
+      return this.sendWsRequest<T>(method, params, priority, true);
+    }
+    return response;
+  }
+
+  // Resolves with the response result, an error response rejects
+  private async sendSignedRequest<T = unknown>(method: string, params: Record<string, string | number>, priority: RequestPriority = 'normal'): Promise<T> {
+    const response = await this.sendWsRequest<T>(method, params, priority);
+    if (response.status !== 200 || response.error) {
+      throw toBinanceError(response.error, `Request ${method} failed`);
+    }
+    return response.result as T;
+  }
+
   async closePosition(positionId: string, type: 'MARKET' | 'LIMIT', limitPrice?: number, size?: number): Promise<void> {
-    if (!this.hasCredentials()) {
+    if (!this.isPaperTrading() && !this.hasCredentials()) {
       showToast('Please configure your API credentials in settings');
       return;
     }
@@ -984,66 +2338,49 @@ class BinanceService {
       return;
     }
 
-    const timestamp = Date.now();
-    const requestId = uuidv4();
-
-    // Determine the side (opposite of position type)
-    const side = position.type === 'long' ? 'SELL' : 'BUY';
+    // Closing is never blocked by exposure limits or the kill switch, only by the order rate
+    this.riskManager.checkOrderRate();
 
     // Ensure quantity is positive
     const rawQuantity = size ? Math.abs(size) : Math.abs(position.size);
-    // Apply precision adjustment
-    const quantity = this.adjustQuantityPrecision(position.symbol, rawQuantity);
 
-    // Base parameters for the order
-    const baseParams: Record<string, any> = {
-      apiKey: this.apiKey,
-      symbol: position.symbol,
-      side,
-      type,
-      quantity,
-      positionSide: position.type === 'long' ? 'LONG' : 'SHORT',
-      timestamp: timestamp.toString(),
-      recvWindow: websocketConfig.settings.recvWindow
-    };
+    const orderParams = this.getCloseOrderParams(position, rawQuantity, type);
 
     // Add limit order specific parameters
     if (type === 'LIMIT' && limitPrice) {
-      baseParams.timeInForce = 'GTC';
-      baseParams.price = limitPrice.toString();
+      orderParams.timeInForce = 'GTC';
+      orderParams.price = limitPrice.toString();
     }
 
-    // Generate signature
-    const signature = this.createSignature(baseParams);
+    console.log('Sending close position order:', orderParams);
+    this.riskManager.recordOrder();
 
-    const orderRequest = {
-      id: requestId,
-      method: websocketConfig.methods.orderPlace,
-      params: {
-        ...baseParams,
-        signature
-      }
-    };
+    try {
+      const result = await this.sendOrderRequest(orderParams);
+      console.log('Position closed successfully:', result);
+    } catch (error) {
+      console.error('Close position failed:', error);
+      throw error;
+    }
+  }
 
-    console.log('Sending close position order:', orderRequest);
+  // Opposite-side order for (part of) a position. One-way positions close
+  // reduce-only so a stale size can never flip them.
+  private getCloseOrderParams(position: Position, rawQuantity: number, type: 'MARKET' | 'LIMIT'): Record<string, string | number> {
+    const positionSide = position.positionSide || (position.type === 'long' ? 'LONG' : 'SHORT');
+    const orderParams: Record<string, string | number> = {
+      symbol: position.symbol,
+      side: position.type === 'long' ? 'SELL' : 'BUY',
+      type,
+      quantity: this.adjustQuantityPrecision(position.symbol, rawQuantity),
+      positionSide
+    };
 
-    return new Promise((resolve, reject) => {
-      this.messageHandlers.set(requestId, (response) => {
-        if (response.status !== 200 || response.error) {
-          console.error('Close position failed:', response);
-          reject(new Error(response.error?.msg || 'Failed to close position'));
-        } else {
-          console.log('Position closed successfully:', response);
-          resolve();
-        }
-      });
+    if (positionSide === 'BOTH') {
+      orderParams.reduceOnly = 'true';
+    }
 
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify(orderRequest));
-      } else {
-        throw new Error('WebSocket is not connected');
-      }
-    });
+    return orderParams;
   }
 
   private transformPositions(positionData: any[]): Position[] {
@@ -1067,7 +2404,8 @@ class BinanceService {
           breakEvenPrice: parseFloat(p.breakEvenPrice),
           positionInitialMargin: parseFloat(p.positionInitialMargin),
           notional: parseFloat(p.notional),
-          marginType: marginType
+          marginType: marginType,
+          positionSide: p.positionSide
         };
       });
     
@@ -1082,7 +2420,13 @@ class BinanceService {
     return positions;
   }
 
-  async fetchBalance(): Promise<void> {
+  async fetchBalance(priority: RequestPriority = 'normal'): Promise<void> {
+    if (this.isPaperTrading()) {
+      const balances = this.paperEngine.getBalances();
+      this.balanceHandlers.forEach(handler => handler(balances));
+      return;
+    }
+
     if (!this.hasCredentials()) {
       return;
     }
@@ -1091,45 +2435,22 @@ class BinanceService {
       throw new Error('WebSocket is not connected');
     }
 
-    const requestId = uuidv4();
-    const timestamp = Date.now();
-
-    const baseParams = {
-      apiKey: this.apiKey,
-      timestamp: timestamp.toString(),
-      recvWindow: websocketConfig.settings.recvWindow
-    };
-
-    const signature = this.createSignature(baseParams);
-
-    const balanceRequest = {
-      id: requestId,
-      method: websocketConfig.methods.balance,
-      params: {
-        ...baseParams,
-        signature
-      }
-    };
-
-    return new Promise((resolve, reject) => {
-      this.messageHandlers.set(requestId, (response) => {
-        if (response.status === 200) {
-          this.balanceHandlers.forEach(handler => handler(response.result));
-          resolve();
-        } else {
-          reject(new Error(`Failed to fetch balance: ${response.error?.msg || 'Unknown error'}`));
-        }
-      });
-
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify(balanceRequest));
-      } else {
-        throw new Error('WebSocket is not connected');
-      }
-    });
+    let balances: unknown[];
+    try {
+      balances = await this.sendSignedRequest<unknown[]>(websocketConfig.methods.balance, {}, priority);
+    } catch (error) {
+      if (error instanceof RequestShedError) return;
+      throw new Error(`Failed to fetch balance: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    this.balanceHandlers.forEach(handler => handler(balances));
   }
 
-  async fetchPositions(): Promise<void> {
+  async fetchPositions(priority: RequestPriority = 'normal'): Promise<void> {
+    if (this.isPaperTrading()) {
+      this.emitPaperAccount(false);
+      return;
+    }
+
     if (!this.hasCredentials()) {
       return;
     }
@@ -1138,47 +2459,22 @@ class BinanceService {
       throw new Error('WebSocket is not connected');
     }
 
-    const requestId = uuidv4();
-    const timestamp = Date.now();
-
-    const baseParams = {
-      apiKey: this.apiKey,
-      timestamp: timestamp.toString(),
-      recvWindow: websocketConfig.settings.recvWindow
-    };
-
-    const signature = this.createSignature(baseParams);
-
-    const positionRequest = {
-      id: requestId,
-      method: websocketConfig.methods.position,
-      params: {
-        ...baseParams,
-        signature
-      }
-    };
-
-    return new Promise((resolve, reject) => {
-      this.messageHandlers.set(requestId, (response) => {
-        if (response.status === 200) {
-          const positions = this.transformPositions(response.result);
-          this.positionHandlers.forEach(handler => handler(positions));
-          resolve();
-        } else {
-          reject(new Error(`Failed to fetch positions: ${response.error?.msg || 'Unknown error'}`));
-        }
-      });
+    let result: unknown[];
+    try {
+      result = await this.sendSignedRequest<unknown[]>(websocketConfig.methods.position, {}, priority);
+    } catch (error) {
+      if (error instanceof RequestShedError) return;
+      throw new Error(`Failed to fetch positions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify(positionRequest));
-      } else {
-        throw new Error('WebSocket is not connected');
-      }
-    });
+    // The snapshot is authoritative, drop positions that have since closed
+    this.positionMap.clear();
+    this.transformPositions(result);
+    this.emitPositions();
   }
 
   async closeAllPositions(): Promise<void> {
-    if (!this.hasCredentials()) {
+    if (!this.isPaperTrading() && !this.hasCredentials()) {
       showToast('Please configure your API credentials in settings');
       return;
     }
@@ -1199,55 +2495,16 @@ class BinanceService {
 
       // Close all positions in parallel
       await Promise.all(positions.map(async (position) => {
-        const timestamp = Date.now();
-        const requestId = uuidv4();
-
-        // Determine the side (opposite of position type)
-        const side = position.type === 'long' ? 'SELL' : 'BUY';
-
-        // Ensure quantity is positive and apply precision
-        const rawQuantity = Math.abs(position.size);
-        const quantity = this.adjustQuantityPrecision(position.symbol, rawQuantity);
-
-        const baseParams = {
-          apiKey: this.apiKey,
-          symbol: position.symbol,
-          side,
-          type: 'MARKET',
-          quantity,
-          positionSide: position.type === 'long' ? 'LONG' : 'SHORT',
-          timestamp: timestamp.toString(),
-          recvWindow: websocketConfig.settings.recvWindow
-        };
-
-        const signature = this.createSignature(baseParams);
-
-        const orderRequest = {
-          id: requestId,
-          method: websocketConfig.methods.orderPlace,
-          params: {
-            ...baseParams,
-            signature
-          }
-        };
-
-        return new Promise((resolve, reject) => {
-          this.messageHandlers.set(requestId, (response) => {
-            if (response.status !== 200 || response.error) {
-              console.error(`Failed to close position ${position.symbol}:`, response);
-              reject(new Error(`Failed to close ${position.symbol}: ${response.error?.msg || 'Unknown error'}`));
-            } else {
-              console.log(`Position ${position.symbol} closed successfully:`, response);
-              resolve(response);
-            }
-          });
-
-          if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-            this.ws.send(JSON.stringify(orderRequest));
-          } else {
-            throw new Error('WebSocket is not connected');
-          }
-        });
+        const orderParams = this.getCloseOrderParams(position, Math.abs(position.size), 'MARKET');
+        this.riskManager.recordOrder();
+
+        try {
+          const result = await this.sendOrderRequest(orderParams);
+          console.log(`Position ${position.symbol} closed successfully:`, result);
+        } catch (error) {
+          console.error(`Failed to close position ${position.symbol}:`, error);
+          throw new Error(`Failed to close ${position.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
       }));
 
       console.log('All positions closed successfully');
@@ -1256,6 +2513,64 @@ class BinanceService {
     }
   }
 
+  getRiskLimits(): RiskLimits {
+    return this.riskManager.getLimits();
+  }
+
+  updateRiskLimits(limits: RiskLimits) {
+    this.riskManager.setLimits(limits);
+  }
+
+  getRiskState(): RiskState {
+    return this.riskManager.getState();
+  }
+
+  onRiskStateChange(handler: (state: RiskState) => void) {
+    return this.riskManager.onStateChange(handler);
+  }
+
+  // Blocks new entries, cancels every open order and closes every position
+  async tripKillSwitch(reason = 'Triggered manually'): Promise<void> {
+    this.riskManager.trip(reason);
+    await this.flattenAccount();
+  }
+
+  resetKillSwitch() {
+    this.riskManager.reset();
+  }
+
+  private handleKillSwitch(reason: string) {
+    showToast(`Kill switch tripped: ${reason}. Flattening all positions.`);
+    this.flattenAccount().catch(error => {
+      console.error('Failed to flatten after kill switch:', error);
+    });
+  }
+
+  private async flattenAccount(): Promise<void> {
+    // Parked SL/TP legs must not open anything once the account is flat
+    this.pendingProtection.clear();
+
+    const symbols = new Set(Array.from(this.openOrders.values()).map(order => order.symbol));
+    const failures: string[] = [];
+
+    await Promise.all(Array.from(symbols).map(symbol =>
+      this.cancelAllOrders(symbol).catch(error => {
+        failures.push(`cancel ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      })
+    ));
+
+    if (this.positionMap.size > 0) {
+      await this.closeAllPositions().catch(error => {
+        failures.push(error instanceof Error ? error.message : 'Unknown error');
+      });
+    }
+
+    if (failures.length > 0) {
+      showToast(`Kill switch could not flatten everything: ${failures.join('; ')}`);
+      throw new Error(failures.join('; '));
+    }
+  }
+
   onPositionUpdate(handler: (positions: Position[]) => void) {
     this.positionHandlers.push(handler);
     return () => {
@@ -1263,6 +2578,21 @@ class BinanceService {
     };
   }
 
+  onOrderFill(handler: (fill: OrderFill) => void) {
+    this.orderFillHandlers.push(handler);
+    return () => {
+      this.orderFillHandlers = this.orderFillHandlers.filter(h => h !== handler);
+    };
+  }
+
+  onOpenOrdersUpdate(handler: (orders: OpenOrder[]) => void) {
+    this.openOrderHandlers.push(handler);
+    handler(Array.from(this.openOrders.values()));
+    return () => {
+      this.openOrderHandlers = this.openOrderHandlers.filter(h => h !== handler);
+    };
+  }
+
   onBalanceUpdate(handler: (balances: any[]) => void) {
     this.balanceHandlers.push(handler);
     return () => {
@@ -1277,23 +2607,22 @@ class BinanceService {
     };
   }
 
-  subscribeToMarketData(symbol: string, handler: (data: any) => void) {
+  subscribeToMarketData(symbol: string, handler: (data: MarketTicker) => void) {
     // Add handler
     if (!this.marketDataHandlers.has(symbol)) {
       this.marketDataHandlers.set(symbol, new Set());
     }
     this.marketDataHandlers.get(symbol)?.add(handler);
 
-    // Add to subscribed symbols and reconnect if needed
+    // Replay the latest snapshot so late subscribers do not wait for the next push
+    const ticker = this.marketTickers.get(symbol);
+    if (ticker) {
+      handler(ticker);
+    }
+
     if (!this.subscribedSymbols.has(symbol)) {
       this.subscribedSymbols.add(symbol);
-      
-      // Start price updates for the new symbol
-      if (this.marketDataWs?.readyState === WebSocket.OPEN) {
-        this.startPriceUpdates(symbol);
-      } else if (!this.marketDataWs) {
-        this.connectToMarketData(); // Only connect if no connection exists
-      }
+      this.scheduleMarketStreamSync();
     }
 
     return () => {
@@ -1301,36 +2630,48 @@ class BinanceService {
     };
   }
 
-  unsubscribeFromMarketData(symbol: string, handler: (data: any) => void) {
+  unsubscribeFromMarketData(symbol: string, handler: (data: MarketTicker) => void) {
     const handlers = this.marketDataHandlers.get(symbol);
     if (handlers) {
       handlers.delete(handler);
       
       // If this was the last handler for this symbol
       if (handlers.size === 0) {
-        // Clear price update interval
-        if (this.priceUpdateIntervals.has(symbol)) {
-          clearInterval(this.priceUpdateIntervals.get(symbol));
-          this.priceUpdateIntervals.delete(symbol);
-        }
-        
-        // Clear any queued messages
-        if (this.messageQueue.has(symbol)) {
-          clearTimeout(this.messageQueue.get(symbol));
-          this.messageQueue.delete(symbol);
-        }
-        
-        // Remove symbol from tracking
         this.marketDataHandlers.delete(symbol);
         this.subscribedSymbols.delete(symbol);
-        this.lastRequestTime.delete(symbol);
+        this.marketTickers.delete(symbol);
         this.marketPrices.delete(symbol);
+        this.scheduleMarketStreamSync();
         
         console.log(`Unsubscribed from market data for ${symbol}`);
       }
     }
   }
 
+  // Live depth of a symbol, handlers get the book on every applied diff and
+  // whenever it loses sync
+  subscribeToOrderBook(symbol: string, handler: (book: LocalOrderBook) => void) {
+    let book = this.orderBooks.get(symbol);
+    if (!book) {
+      book = new LocalOrderBook(symbol);
+      this.orderBooks.set(symbol, book);
+      this.orderBookHandlers.set(symbol, new Set());
+      this.scheduleMarketStreamSync();
+    }
+    this.orderBookHandlers.get(symbol)?.add(handler);
+    handler(book);
+
+    return () => {
+      const handlers = this.orderBookHandlers.get(symbol);
+      handlers?.delete(handler);
+      if (handlers && handlers.size === 0) {
+        this.orderBookHandlers.delete(symbol);
+        this.orderBooks.delete(symbol);
+        this.scheduleMarketStreamSync();
+      }
+    };
+  }
+
   onLeverageBracketsUpdate(handler: (brackets: LeverageBracket[]) => void) {
     this.leverageBracketHandlers.push(handler);
     
@@ -1354,6 +2695,11 @@ class BinanceService {
     };
   }
 
+  getTickSize(symbol: string): number | null {
+    const tickSize = this.symbolInfo.get(symbol)?.filters.PRICE_FILTER?.tickSize;
+    return tickSize ? parseFloat(tickSize) : null;
+  }
+
   formatPrice(symbol: string, price: string | number): string {
     const info = this.symbolInfo.get(symbol);
     if (!info) {
@@ -0,0 +1,317 @@
+import CryptoJS from 'crypto-js';
+import { websocketConfig } from '../config/websocket';
+import type { ApiKeyType, NetworkType, VaultStatus } from '../types';
+import { DEFAULT_PROFILE_ID } from '../utils/profileStorage';
+
+const STORAGE_KEY_VAULT = 'cryptoTerminal_credentialVault';
+const STORAGE_KEY_AUTO_LOCK = 'cryptoTerminal_vaultAutoLockMinutes';
+
+// Before the vault, credentials were AES encrypted under a constant key
+const LEGACY_ENCRYPTION_KEY = 'cryptoTerminal_encKey';
+const LEGACY_STORAGE_KEYS = {
+  apiKey: 'cryptoTerminal_apiKey',
+  apiSecret: 'cryptoTerminal_apiSecret',
+  network: 'cryptoTerminal_network',
+  keyType: 'cryptoTerminal_keyType'
+};
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'touchstart', 'wheel'] as const;
+
+export interface VaultCredentials {
+  apiKey: string;
+  apiSecret: string;
+  // Only set in vaults written before profiles, the profile holds these now
+  network?: NetworkType;
+  keyType?: ApiKeyType;
+}
+
+// Saved credentials by profile id
+export type VaultEntries = Record<string, VaultCredentials>;
+
+// Everything needed to decrypt except the passphrase, stored as base64
+interface VaultRecord {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Saved API credentials of every profile, encrypted with AES-GCM under a key
+// derived from the user's passphrase. Only ciphertext touches localStorage,
+// the derived key and the decrypted entries live in memory until it locks.
+class CredentialVault {
+  private key: CryptoKey | null = null;
+  private salt: Uint8Array<ArrayBuffer> | null = null;
+  private entries: VaultEntries = {};
+  private autoLockMinutes: number;
+  private lastActivity = Date.now();
+  private idleTimer: number | null = null;
+  private statusHandlers: ((status: VaultStatus) => void)[] = [];
+
+  constructor() {
+    const saved = localStorage.getItem(STORAGE_KEY_AUTO_LOCK);
+    const minutes = saved === null ? NaN : parseFloat(saved);
+    this.autoLockMinutes = Number.isFinite(minutes) && minutes >= 0
+      ? minutes
+      : websocketConfig.vault.defaultAutoLockMinutes;
+  }
+
+  getStatus(): VaultStatus {
+    if (this.key) return 'unlocked';
+    return this.loadRecord() ? 'locked' : 'none';
+  }
+
+  getAutoLockMinutes(): number {
+    return this.autoLockMinutes;
+  }
+
+  setAutoLockMinutes(minutes: number) {
+    this.autoLockMinutes = minutes;
+    localStorage.setItem(STORAGE_KEY_AUTO_LOCK, minutes.toString());
+    this.lastActivity = Date.now();
+  }
+
+  async unlock(passphrase: string): Promise<VaultEntries> {
+    const record = this.loadRecord();
+    if (!record) {
+      throw new Error('No saved credentials to unlock');
+    }
+
+    const salt = fromBase64(record.salt);
+    const key = await deriveKey(passphrase, salt, record.iterations);
+    const entries = await this.decrypt(record, key);
+
+    this.key = key;
+    this.salt = salt;
+    this.entries = entries;
+    this.startIdleTimer();
+    this.notify();
+    return entries;
+  }
+
+  getCredentials(profileId: string): VaultCredentials | null {
+    return this.entries[profileId] || null;
+  }
+
+  // Encrypts with the unlocked key. A new vault needs a passphrase, a locked
+  // one needs its current passphrase so a stranger cannot overwrite it.
+  async save(profileId: string, credentials: VaultCredentials, passphrase?: string): Promise<void> {
+    if (!this.key) {
+      if (!passphrase) {
+        throw new Error('Enter a passphrase to save your API keys');
+      }
+      if (this.loadRecord()) {
+        await this.unlock(passphrase);
+      } else {
+        this.assertPassphraseStrength(passphrase);
+        this.salt = crypto.getRandomValues(new Uint8Array(16));
+        this.key = await deriveKey(passphrase, this.salt, websocketConfig.vault.pbkdf2Iterations);
+        this.entries = {};
+        this.startIdleTimer();
+      }
+    }
+
+    this.entries = { ...this.entries, [profileId]: { apiKey: credentials.apiKey, apiSecret: credentials.apiSecret } };
+    await this.writeRecord();
+    this.clearLegacyCredentials();
+    this.notify();
+  }
+
+  // Drops one profile's credentials, the rest need re-encrypting so the vault must be unlocked
+  async remove(profileId: string): Promise<void> {
+    if (!this.loadRecord()) return;
+    if (!this.key) {
+      throw new Error('Unlock your saved API keys first');
+    }
+    if (!this.entries[profileId]) return;
+
+    const entries = { ...this.entries };
+    delete entries[profileId];
+    this.entries = entries;
+    await this.writeRecord();
+    this.notify();
+  }
+
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    const record = this.loadRecord();
+    if (!record) {
+      throw new Error('No saved credentials to protect');
+    }
+    this.assertPassphraseStrength(newPassphrase);
+
+    const currentKey = await deriveKey(currentPassphrase, fromBase64(record.salt), record.iterations);
+    const entries = await this.decrypt(record, currentKey);
+
+    this.salt = crypto.getRandomValues(new Uint8Array(16));
+    this.key = await deriveKey(newPassphrase, this.salt, websocketConfig.vault.pbkdf2Iterations);
+    this.entries = entries;
+    await this.writeRecord();
+    this.startIdleTimer();
+    this.notify();
+  }
+
+  lock() {
+    if (!this.key) return;
+
+    this.key = null;
+    this.salt = null;
+    this.entries = {};
+    this.stopIdleTimer();
+    console.log('Credential vault locked');
+    this.notify();
+  }
+
+  // Forgets the saved credentials for good
+  destroy() {
+    this.key = null;
+    this.salt = null;
+    this.entries = {};
+    this.stopIdleTimer();
+    localStorage.removeItem(STORAGE_KEY_VAULT);
+    this.clearLegacyCredentials();
+    this.notify();
+  }
+
+  // Credentials saved by older versions, still under the constant key
+  readLegacyCredentials(): VaultCredentials | null {
+    const apiKey = localStorage.getItem(LEGACY_STORAGE_KEYS.apiKey);
+    const apiSecret = localStorage.getItem(LEGACY_STORAGE_KEYS.apiSecret);
+    if (!apiKey || !apiSecret) return null;
+
+    try {
+      const decrypt = (data: string) => CryptoJS.AES.decrypt(data, LEGACY_ENCRYPTION_KEY).toString(CryptoJS.enc.Utf8);
+      const network = localStorage.getItem(LEGACY_STORAGE_KEYS.network);
+      const credentials: VaultCredentials = {
+        apiKey: decrypt(apiKey),
+        apiSecret: decrypt(apiSecret),
+        network: network && decrypt(network) === 'testnet' ? 'testnet' : 'mainnet',
+        keyType: localStorage.getItem(LEGACY_STORAGE_KEYS.keyType) === 'ed25519' ? 'ed25519' : 'hmac'
+      };
+      return credentials.apiKey && credentials.apiSecret ? credentials : null;
+    } catch (error) {
+      console.error('Failed to read legacy credentials:', error);
+      return null;
+    }
+  }
+
+  clearLegacyCredentials() {
+    Object.values(LEGACY_STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+  }
+
+  onStatusChange(handler: (status: VaultStatus) => void) {
+    this.statusHandlers.push(handler);
+    return () => {
+      this.statusHandlers = this.statusHandlers.filter(h => h !== handler);
+    };
+  }
+
+  private assertPassphraseStrength(passphrase: string) {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+  }
+
+  private loadRecord(): VaultRecord | null {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY_VAULT);
+      return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error('Failed to load credential vault:', error);
+      return null;
+    }
+  }
+
+  private async writeRecord() {
+    if (!this.key || !this.salt) {
+      throw new Error('Credential vault is locked');
+    }
+
+    // A fresh IV for every encryption, AES-GCM must never reuse one under the same key
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.key,
+      new TextEncoder().encode(JSON.stringify(this.entries))
+    );
+
+    const record: VaultRecord = {
+      version: 1,
+      iterations: websocketConfig.vault.pbkdf2Iterations,
+      salt: toBase64(this.salt),
+      iv: toBase64(iv),
+      ciphertext: toBase64(new Uint8Array(ciphertext))
+    };
+    localStorage.setItem(STORAGE_KEY_VAULT, JSON.stringify(record));
+  }
+
+  private async decrypt(record: VaultRecord, key: CryptoKey): Promise<VaultEntries> {
+    let data: VaultEntries | VaultCredentials;
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(record.iv) },
+        key,
+        fromBase64(record.ciphertext)
+      );
+      data = JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+      // AES-GCM authentication fails on a wrong key
+      throw new Error('Wrong passphrase');
+    }
+
+    // Vaults written before profiles hold a single set of credentials
+    return typeof data.apiKey === 'string' ? { [DEFAULT_PROFILE_ID]: data as VaultCredentials } : data as VaultEntries;
+  }
+
+  private handleActivity = () => {
+    this.lastActivity = Date.now();
+  };
+
+  private startIdleTimer() {
+    this.stopIdleTimer();
+    this.lastActivity = Date.now();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.handleActivity, { passive: true }));
+
+    this.idleTimer = window.setInterval(() => {
+      if (this.autoLockMinutes > 0 && Date.now() - this.lastActivity >= this.autoLockMinutes * 60 * 1000) {
+        this.lock();
+      }
+    }, websocketConfig.vault.idleCheckInterval);
+  }
+
+  private stopIdleTimer() {
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.handleActivity));
+    if (this.idleTimer !== null) {
+      window.clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.statusHandlers.forEach(handler => handler(status));
+  }
+}
+
+export const credentialVault = new CredentialVault();
@@ -0,0 +1,127 @@
+import { websocketConfig } from '../config/websocket';
+import type { LatencySegment, LatencyStats, NewsItem, NewsLatencySample } from '../types';
+
+export const LATENCY_SEGMENTS: LatencySegment[] = ['receipt', 'render', 'reaction', 'dispatch', 'exchange', 'total'];
+
+// Splits a sample into the stages of the news-to-fill path, stages that have not happened are left out
+export const getLatencySegments = (sample: NewsLatencySample): Partial<Record<LatencySegment, number>> => {
+  const segments: Partial<Record<LatencySegment, number>> = {
+    receipt: sample.receivedAt - sample.publishedAt
+  };
+
+  if (sample.renderedAt !== undefined) {
+    segments.render = sample.renderedAt - sample.receivedAt;
+  }
+  if (sample.clickedAt !== undefined) {
+    // Auto-trading rules fire before the card renders, they react to the receipt
+    const seenAt = sample.renderedAt !== undefined && sample.renderedAt <= sample.clickedAt
+      ? sample.renderedAt
+      : sample.receivedAt;
+    segments.reaction = sample.clickedAt - seenAt;
+  }
+  if (sample.clickedAt !== undefined && sample.sentAt !== undefined) {
+    segments.dispatch = sample.sentAt - sample.clickedAt;
+  }
+  if (sample.sentAt !== undefined && sample.ackedAt !== undefined) {
+    segments.exchange = sample.ackedAt - sample.sentAt;
+  }
+  if (sample.ackedAt !== undefined) {
+    segments.total = sample.ackedAt - sample.publishedAt;
+  }
+  return segments;
+};
+
+// Nearest-rank percentile of an ascending list
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.max(Math.ceil(p * sorted.length) - 1, 0))];
+
+// Timestamps every live news item on its way from the socket to an exchange
+// acknowledgement, keeping the latest ones for rolling statistics
+class LatencyMonitor {
+  private samples: Map<string, NewsLatencySample> = new Map();
+  private changeHandlers: (() => void)[] = [];
+
+  recordReceipt(news: NewsItem, receivedAt: number) {
+    if (this.samples.has(news.id)) return;
+
+    this.samples.set(news.id, {
+      newsId: news.id,
+      title: news.title || news.description.slice(0, 200),
+      source: news.source,
+      publishedAt: news.timestamp,
+      receivedAt
+    });
+
+    // Maps iterate in insertion order, the first key is the oldest item
+    while (this.samples.size > websocketConfig.diagnostics.latencySampleSize) {
+      const oldest = this.samples.keys().next().value;
+      if (oldest === undefined) break;
+      this.samples.delete(oldest);
+    }
+    this.notify();
+  }
+
+  markRendered(newsId: string) {
+    this.mark(newsId, 'renderedAt');
+  }
+
+  markClicked(newsId: string) {
+    this.mark(newsId, 'clickedAt');
+  }
+
+  markOrderSent(newsId: string) {
+    this.mark(newsId, 'sentAt');
+  }
+
+  markOrderAcked(newsId: string) {
+    this.mark(newsId, 'ackedAt');
+  }
+
+  // Newest first
+  getSamples(): NewsLatencySample[] {
+    return Array.from(this.samples.values()).reverse();
+  }
+
+  getStats(): Record<LatencySegment, LatencyStats | null> {
+    const values: Record<LatencySegment, number[]> = {
+      receipt: [], render: [], reaction: [], dispatch: [], exchange: [], total: []
+    };
+    this.samples.forEach(sample => {
+      const segments = getLatencySegments(sample);
+      LATENCY_SEGMENTS.forEach(segment => {
+        const value = segments[segment];
+        if (value !== undefined) values[segment].push(value);
+      });
+    });
+
+    const stats = {} as Record<LatencySegment, LatencyStats | null>;
+    LATENCY_SEGMENTS.forEach(segment => {
+      const sorted = values[segment].sort((a, b) => a - b);
+      stats[segment] = sorted.length
+        ? { median: percentile(sorted, 0.5), p95: percentile(sorted, 0.95), count: sorted.length }
+        : null;
+    });
+    return stats;
+  }
+
+  onChange(handler: () => void) {
+    this.changeHandlers.push(handler);
+    return () => {
+      this.changeHandlers = this.changeHandlers.filter(h => h !== handler);
+    };
+  }
+
+  // Only the first occurrence counts, later renders and repeat orders are not reactions
+  private mark(newsId: string, field: 'renderedAt' | 'clickedAt' | 'sentAt' | 'ackedAt') {
+    const sample = this.samples.get(newsId);
+    if (!sample || sample[field] !== undefined) return;
+
+    sample[field] = Date.now();
+    this.notify();
+  }
+
+  private notify() {
+    this.changeHandlers.forEach(handler => handler());
+  }
+}
+
+export const latencyMonitor = new LatencyMonitor();
@@ -0,0 +1,262 @@
+import { websocketConfig } from '../config/websocket';
+import { binanceService } from './binanceService';
+import { BinanceApiError } from './binanceErrors';
+import { openDatabase, getAllFromStore, putInStore } from '../utils/indexedDb';
+import type { ImpactLeaderboardGrouping, ImpactLeaderboardRow, Kline, NewsImpact, NewsImpactRecord, NewsItem } from '../types';
+
+const DB_NAME = 'cryptoTerminal_newsImpact';
+const DB_VERSION = 1;
+const STORE_RECORDS = 'records';
+
+const MINUTE = 60 * 1000;
+
+// Symbol is not listed on futures
+const INVALID_SYMBOL_CODE = -1121;
+
+const getMinuteStart = (timestamp: number) => Math.floor(timestamp / MINUTE) * MINUTE;
+
+const getLastHorizon = () => Math.max(...websocketConfig.newsImpact.horizons);
+
+const toPercent = (price: number, reference: number) => ((price - reference) / reference) * 100;
+
+const getImpactKey = (newsId: string, symbol: string) => `${newsId}:${symbol}`;
+
+// Split the same way the news card does, so both share cache entries
+const getNewsSymbols = (news: NewsItem) => (news.symbol ? news.symbol.split(',').filter(Boolean) : []);
+
+// Every horizon of news published before this has passed
+const getSettledCutoff = () => Date.now() - (getLastHorizon() + 1) * MINUTE;
+
+const delay = (ms: number) => new Promise(resolve => window.setTimeout(resolve, ms));
+
+const getGroupKey = (record: NewsImpactRecord, grouping: ImpactLeaderboardGrouping) => {
+  if (grouping === 'symbol') return record.symbol;
+  if (grouping === 'sourceName') return record.sourceName || record.source;
+  return record.source;
+};
+
+// Moves are open-to-open between minute boundaries, so every horizon is
+// sampled the same way as the reference. Excursions cover the full minutes
+// after publication up to the last horizon, the publish minute's high and low
+// may predate the headline.
+export const computeNewsImpact = (symbol: string, publishedAt: number, klines: Kline[], now = Date.now()): NewsImpact | null => {
+  const start = getMinuteStart(publishedAt);
+  const lastHorizon = getLastHorizon();
+  const opens = new Map(klines.map(kline => [kline[0], parseFloat(kline[1])]));
+  const referencePrice = opens.get(start);
+  if (!referencePrice) return null;
+
+  const moves = websocketConfig.newsImpact.horizons.map(minutes => {
+    const open = opens.get(start + minutes * MINUTE);
+    return { minutes, change: open ? toPercent(open, referencePrice) : null };
+  });
+
+  const firstFullMinute = Math.ceil(publishedAt / MINUTE) * MINUTE;
+  let high = referencePrice;
+  let low = referencePrice;
+  klines
+    .filter(kline => kline[0] >= firstFullMinute && kline[0] < start + lastHorizon * MINUTE)
+    .forEach(kline => {
+      high = Math.max(high, parseFloat(kline[2]));
+      low = Math.min(low, parseFloat(kline[3]));
+    });
+
+  // The earliest horizon that moved sets the direction, no move at all counts as up
+  const direction = (moves.find(move => move.change !== null && move.change !== 0)?.change ?? 1) > 0 ? 1 : -1;
+  const up = toPercent(high, referencePrice);
+  const down = toPercent(low, referencePrice);
+
+  return {
+    symbol,
+    referencePrice,
+    moves,
+    maxFavorable: direction > 0 ? up : -down,
+    maxAdverse: direction > 0 ? down : -up,
+    complete: moves.every(move => move.change !== null) && now >= start + lastHorizon * MINUTE
+  };
+};
+
+// Absolute moves at one horizon grouped by source, account or symbol. A
+// headline naming several symbols counts once per symbol.
+export const buildImpactLeaderboard = (
+  records: NewsImpactRecord[],
+  grouping: ImpactLeaderboardGrouping,
+  minutes: number,
+  threshold: number
+): ImpactLeaderboardRow[] => {
+  const groups: Map<string, number[]> = new Map();
+  records.forEach(record => {
+    const change = record.impact?.moves.find(move => move.minutes === minutes)?.change;
+    if (change === null || change === undefined) return;
+
+    const key = getGroupKey(record, grouping);
+    const moves = groups.get(key) ?? [];
+    moves.push(Math.abs(change));
+    groups.set(key, moves);
+  });
+
+  return Array.from(groups.entries()).map(([key, moves]) => {
+    const sorted = [...moves].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return {
+      key,
+      samples: moves.length,
+      meanMove: moves.reduce((sum, move) => sum + move, 0) / moves.length,
+      medianMove: sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+      hitRate: moves.filter(move => move >= threshold).length / moves.length
+    };
+  });
+};
+
+// Kline-based reaction of each symbol to a headline. Final figures are stored
+// (IndexedDB) with the headline's source, ones still developing are refreshed
+// at most once a minute.
+class NewsImpactService {
+  private cache: Map<string, { impact: NewsImpact | null; fetchedAt: number }> = new Map();
+  private pending: Map<string, Promise<NewsImpact | null>> = new Map();
+  private records: Map<string, NewsImpactRecord> = new Map();
+  private db: Promise<IDBDatabase | null>;
+  private recordHandlers: ((records: NewsImpactRecord[]) => void)[] = [];
+  // Bumped by every start and stop, a run whose number is stale ends
+  private backfillGeneration = 0;
+
+  constructor() {
+    this.db = openDatabase(DB_NAME, DB_VERSION, db => {
+      if (!db.objectStoreNames.contains(STORE_RECORDS)) {
+        db.createObjectStore(STORE_RECORDS, { keyPath: 'key' });
+      }
+    }).catch(error => {
+      // Impacts are then measured again every session
+      console.error('Failed to open news impact database:', error);
+      return null;
+    });
+
+    this.db.then(async db => {
+      if (!db) return;
+      const saved = await getAllFromStore<NewsImpactRecord>(db, STORE_RECORDS);
+      saved.forEach(record => {
+        if (!this.records.has(record.key)) {
+          this.records.set(record.key, record);
+        }
+      });
+      this.notifyRecords();
+    }).catch(error => {
+      console.error('Failed to load news impact records:', error);
+    });
+  }
+
+  getCachedImpact(newsId: string, symbol: string): NewsImpact | null {
+    const key = getImpactKey(newsId, symbol);
+    return this.records.get(key)?.impact ?? this.cache.get(key)?.impact ?? null;
+  }
+
+  // Only the fields kept with a record are needed from the headline
+  getImpact(news: Pick<NewsItem, 'id' | 'timestamp' | 'source' | 'sourceName'>, symbol: string): Promise<NewsImpact | null> {
+    const key = getImpactKey(news.id, symbol);
+    const record = this.records.get(key);
+    if (record) {
+      return Promise.resolve(record.impact);
+    }
+
+    const cached = this.cache.get(key);
+    if (cached && (cached.impact?.complete || Date.now() - cached.fetchedAt < websocketConfig.newsImpact.refreshInterval)) {
+      return Promise.resolve(cached.impact);
+    }
+
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.fetchImpact(symbol, Number(news.timestamp))
+        .then(impact => {
+          this.cache.set(key, { impact, fetchedAt: Date.now() });
+          if (impact ? impact.complete : Number(news.timestamp) < getSettledCutoff()) {
+            this.saveRecord({
+              key,
+              newsId: news.id,
+              source: news.source,
+              sourceName: news.sourceName,
+              symbol,
+              publishedAt: Number(news.timestamp),
+              impact
+            });
+          }
+          return impact;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  getRecords(): NewsImpactRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  onRecordsChange(handler: (records: NewsImpactRecord[]) => void) {
+    this.recordHandlers.push(handler);
+    return () => {
+      this.recordHandlers = this.recordHandlers.filter(h => h !== handler);
+    };
+  }
+
+  // Measures every settled headline/symbol pair that has no record yet, one
+  // request at a time. A failed request ends the run, so a rate limit or an
+  // outage does not burn through the list. Starting a run ends the previous
+  // one. Resolves with the pairs measured.
+  async backfill(news: NewsItem[], onProgress: (done: number, total: number) => void): Promise<number> {
+    const cutoff = getSettledCutoff();
+    const pairs = news
+      .filter(item => Number(item.timestamp) < cutoff)
+      .flatMap(item => getNewsSymbols(item).map(symbol => ({ item, symbol })))
+      .filter(({ item, symbol }) => !this.records.has(getImpactKey(item.id, symbol)));
+
+    const generation = ++this.backfillGeneration;
+    onProgress(0, pairs.length);
+    for (let index = 0; index < pairs.length; index++) {
+      if (generation !== this.backfillGeneration) return index;
+      await this.getImpact(pairs[index].item, pairs[index].symbol);
+      if (generation !== this.backfillGeneration) return index + 1;
+      onProgress(index + 1, pairs.length);
+      await delay(websocketConfig.newsImpact.backfillInterval);
+    }
+    return pairs.length;
+  }
+
+  stopBackfill() {
+    this.backfillGeneration++;
+  }
+
+  private saveRecord(record: NewsImpactRecord) {
+    this.records.set(record.key, record);
+    this.notifyRecords();
+
+    this.db.then(db => db && putInStore(db, STORE_RECORDS, record)).catch(error => {
+      console.error('Failed to save news impact record:', error);
+    });
+  }
+
+  private notifyRecords() {
+    const records = this.getRecords();
+    this.recordHandlers.forEach(handler => handler(records));
+  }
+
+  private async fetchImpact(symbol: string, publishedAt: number): Promise<NewsImpact | null> {
+    // Not yet published by the server's clock, nothing to measure
+    if (publishedAt > Date.now()) return null;
+
+    // Low priority, the limiter sheds these before orders run short of weight
+    let klines: Kline[];
+    try {
+      klines = await binanceService.fetchKlines(symbol, {
+        interval: '1m',
+        startTime: getMinuteStart(publishedAt),
+        limit: getLastHorizon() + 1
+      }, 'low');
+    } catch (error) {
+      if (error instanceof BinanceApiError && error.code === INVALID_SYMBOL_CODE) return null;
+      throw error;
+    }
+    return computeNewsImpact(symbol, publishedAt, klines);
+  }
+}
+
+export const newsImpactService = new NewsImpactService();
@@ -1,5 +1,26 @@
 import { websocketConfig } from '../config/websocket';
-import type { NewsItem } from '../types';
+import { latencyMonitor } from './latencyMonitor';
+import { openDatabase, getAllFromStore, putAllInStore, deleteFromStore } from '../utils/indexedDb';
+import type { NewsBackfill, NewsItem, NewsOutage, NewsRetention } from '../types';
+
+const DB_NAME = 'cryptoTerminal_news';
+const DB_VERSION = 1;
+const STORE_ITEMS = 'items';
+const STORAGE_KEY_RETENTION = 'cryptoTerminal_newsRetention';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const loadRetention = (): NewsRetention => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_RETENTION);
+    if (saved) {
+      return { ...websocketConfig.newsHistory.defaultRetention, ...JSON.parse(saved) };
+    }
+  } catch (error) {
+    console.error('Failed to load news retention settings:', error);
+  }
+  return { ...websocketConfig.newsHistory.defaultRetention };
+};
 
 function decodeHTMLEntities(text: string): string {
   if (!text) return '';
@@ -118,13 +139,56 @@ function parseTwitterContent(description: string) {
 
 type NewsHandler = (news: NewsItem[]) => void;
 
+// A server that ignores before= answers with the newest page again
+const hasItemsBefore = (items: NewsItem[], before: number) => items.some(item => Number(item.timestamp) < before);
+
 class NewsService {
   private worker: Worker | null = null;
   private newsCache: Map<string, NewsItem> = new Map();
   private newsHandlers: NewsHandler[] = [];
+  private liveNewsHandlers: ((item: NewsItem) => void)[] = [];
   private currentPage = 1;
   private itemsPerPage = 20;
   private connectionStatus: 'disconnected' | 'connecting' | 'connected' = 'disconnected';
+  private db: Promise<IDBDatabase | null>;
+  private storeLoaded: Promise<void>;
+  private retention: NewsRetention = loadRetention();
+  private catchUp: Promise<number> | null = null;
+  // Newest item from the store or an HTTP fetch. Live socket items don't
+  // count, one arriving before the catch-up would hide the gap behind it.
+  private lastFetchedTimestamp: number | undefined;
+  private outages: NewsOutage[] = [];
+  // Start of an outage whose backfill failed, retried with the next one
+  private unfilledOutageStart: number | null = null;
+
+  constructor() {
+    this.db = openDatabase(DB_NAME, DB_VERSION, db => {
+      if (!db.objectStoreNames.contains(STORE_ITEMS)) {
+        db.createObjectStore(STORE_ITEMS, { keyPath: 'id' });
+      }
+    }).catch(error => {
+      // News is then fetched in full every session, as before
+      console.error('Failed to open news database:', error);
+      return null;
+    });
+
+    // Stored items are already processed, they go into the cache as they are
+    this.storeLoaded = this.db.then(async db => {
+      if (!db) return;
+      const saved = await getAllFromStore<NewsItem>(db, STORE_ITEMS);
+      saved.forEach(item => {
+        if (!this.newsCache.has(item.id)) {
+          this.newsCache.set(item.id, item);
+        }
+      });
+      this.updateLastFetched(saved);
+      this.applyRetention();
+      console.log(`[Main] Loaded ${this.newsCache.size} news items from IndexedDB.`);
+      this.notifyHandlers();
+    }).catch(error => {
+      console.error('Failed to load stored news:', error);
+    });
+  }
 
   connect() {
     if (this.worker) {
@@ -144,13 +208,20 @@ class NewsService {
     this.worker = new Worker(new URL('../workers/news.worker.ts', import.meta.url), { type: 'module' });
 
     this.worker.onmessage = (event: MessageEvent) => {
-      const { type, payload } = event.data;
+      const { type, payload, receivedAt } = event.data;
 
       switch (type) {
         case 'news':
           // Process raw news data from worker
           const processedItem = this.processNewsItem(payload);
-          this.newsCache.set(processedItem.id, processedItem);
+          if (!this.newsCache.has(processedItem.id)) {
+            this.newsCache.set(processedItem.id, processedItem);
+            latencyMonitor.recordReceipt(processedItem, receivedAt ?? Date.now());
+            this.notifyLiveNewsHandlers(processedItem);
+          } else {
+            this.newsCache.set(processedItem.id, processedItem);
+          }
+          this.persist([processedItem]);
           // Just trigger handlers instead of resetting page number?
           // Better to keep the user on their current page.
           // this.currentPage = 1; 
@@ -162,6 +233,9 @@ class NewsService {
           console.log(`[Main] News Worker status: ${this.connectionStatus}`);
           // Optional: Call handlers to reflect status changes in UI
           break;
+        case 'reconnected':
+          this.backfillOutage(payload.start, payload.end);
+          break;
         case 'error':
           console.error('[Main] Error message from News Worker:', payload);
           // Optional: Reflect error status in UI
@@ -285,6 +359,24 @@ class NewsService {
     };
   }
   
+  // Fires once per item pushed by the live socket, never for the HTTP backlog
+  onLiveNews(handler: (item: NewsItem) => void): () => void {
+    this.liveNewsHandlers.push(handler);
+    return () => {
+      this.liveNewsHandlers = this.liveNewsHandlers.filter(h => h !== handler);
+    };
+  }
+
+  private notifyLiveNewsHandlers(item: NewsItem) {
+    this.liveNewsHandlers.forEach(handler => {
+      try {
+        handler(item);
+      } catch (error) {
+        console.error('Error in live news handler:', error);
+      }
+    });
+  }
+
   // This method's purpose might change since worker directly manages the cache
   // Either remove it or use it to trigger initial load by sending a message to worker?
   // Commenting out for now, App.tsx's fetchInitialNews can be adjusted accordingly.
@@ -298,28 +390,162 @@ class NewsService {
       this.notifyHandlers(); 
   }
   */
-  // Function to add initial news from HTTP GET request
-  addInitialNews(newsItems: NewsItem[]) {
-    console.log(`[Main] Adding ${newsItems.length} initial news items from HTTP fetch.`);
-    let addedCount = 0;
+  // Merges stored news with whatever was published since the last stored item
+  async loadInitialNews(): Promise<void> {
+    await this.storeLoaded;
+    await this.fetchSinceLastSeen();
+  }
+
+  // Pages back from the newest item until the gap to the last stored or
+  // fetched one is closed. Resolves with the number of items added.
+  fetchSinceLastSeen(): Promise<number> {
+    if (!this.catchUp) {
+      this.catchUp = this.fetchSince(this.lastFetchedTimestamp).finally(() => {
+        this.catchUp = null;
+      });
+    }
+    return this.catchUp;
+  }
+
+  // One page older than the oldest cached item. Resolves with the number of
+  // items added, zero once the history is exhausted.
+  async loadOlderNews(): Promise<number> {
+    const allNews = this.getAllNews();
+    const before = allNews[allNews.length - 1]?.timestamp;
+    const items = await this.fetchNewsPage({ before });
+    if (before !== undefined && items.length > 0 && !hasItemsBefore(items, before)) {
+      throw new Error('The news server does not support paging back');
+    }
+    return this.addFetchedNews(items);
+  }
+
+  getRetention(): NewsRetention {
+    return this.retention;
+  }
+
+  setRetention(retention: NewsRetention) {
+    this.retention = retention;
+    localStorage.setItem(STORAGE_KEY_RETENTION, JSON.stringify(retention));
+    this.applyRetention();
+    this.notifyHandlers();
+  }
+
+  getOutages(): NewsOutage[] {
+    return this.outages;
+  }
+
+  // Fetches what was published while the socket was down. Backfilled items
+  // are flagged and never reach the live handlers, so nothing trades on them.
+  private async backfillOutage(start: number, end: number) {
+    const outageStart = Math.min(start, this.unfilledOutageStart ?? start);
+    const backfill: NewsBackfill = { outageStart, outageEnd: end, receivedAt: Date.now() };
+    console.log(`[Main] News socket was down for ${Math.round((end - outageStart) / 1000)}s, backfilling`);
+
+    try {
+      const added = await this.fetchSince(outageStart - websocketConfig.newsHistory.outageMargin, backfill);
+      this.unfilledOutageStart = null;
+      this.outages = [{ start: outageStart, end, backfilled: added }, ...this.outages]
+        .slice(0, websocketConfig.newsHistory.outageHistorySize);
+      if (added > 0) {
+        console.log(`[Main] Backfilled ${added} news items missed during the outage`);
+      }
+    } catch (error) {
+      this.unfilledOutageStart = outageStart;
+      console.error('[Main] Failed to backfill news missed while disconnected:', error);
+    }
+  }
+
+  // Pages back from the newest item until `since` is reached. Resolves with
+  // the number of items added.
+  private async fetchSince(since: number | undefined, backfill?: NewsBackfill): Promise<number> {
+    let added = 0;
+    let before: number | undefined;
+
+    for (let page = 0; page < websocketConfig.newsHistory.maxCatchUpPages; page++) {
+      const items = await this.fetchNewsPage({ since, before });
+      if (before !== undefined && items.length > 0 && !hasItemsBefore(items, before)) {
+        console.warn('[Main] The news server ignored before=, news older than one page may be missing');
+        break;
+      }
+      const pageAdded = this.addFetchedNews(items, backfill);
+      added += pageAdded;
+
+      // Done when the page is short, reaches `since` or brought nothing new.
+      // Without a starting point the first page is enough.
+      const oldest = Math.min(...items.map(item => Number(item.timestamp)));
+      if (since === undefined || pageAdded === 0 || items.length < websocketConfig.newsHistory.pageSize || oldest <= since) {
+        break;
+      }
+      before = oldest;
+    }
+    return added;
+  }
+
+  private async fetchNewsPage({ since, before }: { since?: number; before?: number }): Promise<NewsItem[]> {
+    const params = new URLSearchParams({ limit: websocketConfig.newsHistory.pageSize.toString() });
+    if (since !== undefined) params.set('since', since.toString());
+    if (before !== undefined) params.set('before', before.toString());
+
+    const response = await fetch(`${websocketConfig.baseUrls.news}/news?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch news: ${response.status}`);
+    }
+    return response.json();
+  }
+
+  // Adds news fetched over HTTP. Items already cached are skipped, the worker
+  // may have delivered a more recent version of them.
+  private addFetchedNews(newsItems: NewsItem[], backfill?: NewsBackfill): number {
+    const added: NewsItem[] = [];
+    this.updateLastFetched(newsItems);
     newsItems.forEach(item => {
-        // Only add news that aren't already in cache (ID check)
-        // Worker might have sent a more recent version, so this check is important.
         if (!this.newsCache.has(item.id)) {
             try {
                 const processedItem = this.processNewsItem(item);
+                if (backfill) {
+                    processedItem.backfill = backfill;
+                }
                 this.newsCache.set(processedItem.id, processedItem);
-                addedCount++;
+                added.push(processedItem);
             } catch (error) {
-                console.error("[Main] Error processing initial news item:", error, item);
+                console.error("[Main] Error processing fetched news item:", error, item);
             }
         }
     });
     // Only notify handlers if new news was added
-    if (addedCount > 0) {
-        console.log(`[Main] Added ${addedCount} new items to cache from HTTP fetch.`);
+    if (added.length > 0) {
+        console.log(`[Main] Added ${added.length} new items to cache from HTTP fetch.`);
+        this.persist(added);
         this.notifyHandlers();
     }
+    return added.length;
+  }
+
+  private updateLastFetched(newsItems: NewsItem[]) {
+    newsItems.forEach(item => {
+      const timestamp = Number(item.timestamp);
+      if (!isNaN(timestamp) && (this.lastFetchedTimestamp === undefined || timestamp > this.lastFetchedTimestamp)) {
+        this.lastFetchedTimestamp = timestamp;
+      }
+    });
+  }
+
+  private persist(items: NewsItem[]) {
+    this.db.then(db => db && putAllInStore(db, STORE_ITEMS, items)).catch(error => {
+      console.error('Failed to store news:', error);
+    });
+  }
+
+  // Drops news past the retention age or count, oldest first
+  private applyRetention() {
+    const cutoff = Date.now() - this.retention.maxAgeDays * DAY;
+    const expired = this.getAllNews().filter((item, index) => item.timestamp < cutoff || index >= this.retention.maxItems);
+    if (expired.length === 0) return;
+
+    expired.forEach(item => this.newsCache.delete(item.id));
+    this.db.then(db => db && deleteFromStore(db, STORE_ITEMS, expired.map(item => item.id))).catch(error => {
+      console.error('Failed to prune stored news:', error);
+    });
   }
 
   setPage(page: number) {
@@ -0,0 +1,159 @@
+import type { OrderBookLevel, OrderBookView } from '../types';
+
+// Payload of the <symbol>@depth diff stream
+export interface DepthUpdateEvent {
+  e: 'depthUpdate';
+  E: number;
+  T: number;
+  s: string;
+  U: number;  // First update id in the event
+  u: number;  // Final update id in the event
+  pu: number; // Final update id of the previous event
+  b: [string, string][];
+  a: [string, string][];
+}
+
+// Response of GET /fapi/v1/depth
+export interface DepthSnapshot {
+  lastUpdateId: number;
+  bids: [string, string][];
+  asks: [string, string][];
+}
+
+// Diffs kept while waiting for a snapshot, older ones are useless anyway
+const MAX_BUFFERED_UPDATES = 1000;
+
+// Small enough to absorb float noise, far below any tick size
+const PRICE_EPSILON = 1e-9;
+
+const applyLevels = (side: Map<number, number>, levels: [string, string][]) => {
+  levels.forEach(([price, quantity]) => {
+    const qty = parseFloat(quantity);
+    if (qty === 0) {
+      side.delete(parseFloat(price));
+    } else {
+      side.set(parseFloat(price), qty);
+    }
+  });
+};
+
+// Sums levels into price buckets of `grouping`, bids round down and asks up
+// so a bucket never shows a better price than the levels in it
+const aggregate = (levels: [number, number][], grouping: number, isBid: boolean, rows: number): OrderBookLevel[] => {
+  const result: OrderBookLevel[] = [];
+  let total = 0;
+
+  for (const [price, quantity] of levels) {
+    const bucket = grouping > 0
+      ? (isBid ? Math.floor(price / grouping + PRICE_EPSILON) : Math.ceil(price / grouping - PRICE_EPSILON)) * grouping
+      : price;
+    total += quantity;
+
+    const last = result[result.length - 1];
+    if (last && Math.abs(last.price - bucket) < PRICE_EPSILON) {
+      last.quantity += quantity;
+      last.total = total;
+    } else {
+      if (result.length === rows) break;
+      result.push({ price: bucket, quantity, total });
+    }
+  }
+  return result;
+};
+
+// Local copy of one symbol's book, kept in step with the diff depth stream
+// the way Binance documents it: buffer diffs, load a snapshot, drop the
+// diffs it already contains, then require every diff to continue the last.
+export class LocalOrderBook {
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  // Final update id applied so far, null until a snapshot is loaded
+  private lastUpdateId: number | null = null;
+  // The first diff after a snapshot has to straddle its update id
+  private awaitingFirstUpdate = false;
+  private buffer: DepthUpdateEvent[] = [];
+
+  constructor(readonly symbol: string) {}
+
+  isSynced(): boolean {
+    return this.lastUpdateId !== null;
+  }
+
+  // Returns false when a diff went missing. The book is then cleared and
+  // buffers again until a new snapshot is loaded.
+  applyUpdate(event: DepthUpdateEvent): boolean {
+    if (this.lastUpdateId === null) {
+      this.buffer.push(event);
+      if (this.buffer.length > MAX_BUFFERED_UPDATES) {
+        this.buffer.shift();
+      }
+      return true;
+    }
+
+    if (this.awaitingFirstUpdate) {
+      // Already contained in the snapshot
+      if (event.u < this.lastUpdateId) return true;
+      if (event.U > this.lastUpdateId) return this.desync(event);
+      this.awaitingFirstUpdate = false;
+    } else if (event.pu !== this.lastUpdateId) {
+      return this.desync(event);
+    }
+
+    applyLevels(this.bids, event.b);
+    applyLevels(this.asks, event.a);
+    this.lastUpdateId = event.u;
+    return true;
+  }
+
+  // Returns false when the snapshot is older than the buffered diffs
+  applySnapshot(snapshot: DepthSnapshot): boolean {
+    this.bids.clear();
+    this.asks.clear();
+    applyLevels(this.bids, snapshot.bids);
+    applyLevels(this.asks, snapshot.asks);
+    this.lastUpdateId = snapshot.lastUpdateId;
+    this.awaitingFirstUpdate = true;
+
+    const buffered = this.buffer;
+    this.buffer = [];
+    let inSync = true;
+    buffered.forEach(event => {
+      inSync = this.applyUpdate(event) && inSync;
+    });
+    return inSync;
+  }
+
+  reset() {
+    this.bids.clear();
+    this.asks.clear();
+    this.lastUpdateId = null;
+    this.awaitingFirstUpdate = false;
+    this.buffer = [];
+  }
+
+  // Best `rows` levels of each side grouped by `grouping`, 0 shows raw levels
+  getView(grouping: number, rows: number): OrderBookView {
+    const bids = Array.from(this.bids.entries()).sort((a, b) => b[0] - a[0]);
+    const asks = Array.from(this.asks.entries()).sort((a, b) => a[0] - b[0]);
+    const bestBid = bids.length ? bids[0][0] : null;
+    const bestAsk = asks.length ? asks[0][0] : null;
+
+    return {
+      symbol: this.symbol,
+      bids: aggregate(bids, grouping, true, rows),
+      asks: aggregate(asks, grouping, false, rows),
+      bestBid,
+      bestAsk,
+      spread: bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null,
+      midPrice: bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null,
+      synced: this.isSynced()
+    };
+  }
+
+  private desync(event: DepthUpdateEvent): boolean {
+    console.warn(`${this.symbol} order book missed a depth update (${this.lastUpdateId} → ${event.pu}), resyncing`);
+    this.reset();
+    this.buffer.push(event);
+    return false;
+  }
+}
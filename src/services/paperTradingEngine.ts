@@ -0,0 +1,645 @@
+import { websocketConfig } from '../config/websocket';
+import type { Position, OrderResult, AccountBalance, LeverageBracket } from '../types';
+import type { OrderTradeUpdateEvent } from './userDataStream';
+
+const STORAGE_KEY_PAPER_ACCOUNT = 'cryptoTerminal_paperAccount';
+
+// Quantities below this are treated as fully closed
+const QUANTITY_EPSILON = 1e-12;
+
+const SUPPORTED_ORDER_TYPES = ['MARKET', 'LIMIT', 'STOP_MARKET', 'TAKE_PROFIT_MARKET'];
+
+type PositionSide = 'BOTH' | 'LONG' | 'SHORT';
+type MarginType = 'ISOLATED' | 'CROSSED';
+
+interface PaperPosition {
+  symbol: string;
+  positionSide: PositionSide;
+  size: number;           // Signed, negative for shorts
+  entryPrice: number;
+  isolatedMargin: number; // Only used while the symbol is in isolated mode
+}
+
+interface PaperAccountState {
+  walletBalance: number;
+  positions: PaperPosition[];
+  orders: OrderResult[];
+  leverage: Record<string, number>;
+  marginTypes: Record<string, MarginType>;
+  positionMode: 'one-way' | 'hedge';
+  nextOrderId: number;
+}
+
+export interface PaperTradingCallbacks {
+  getLeverageBracket: (symbol: string) => LeverageBracket | undefined;
+  onOrderUpdate: (event: OrderTradeUpdateEvent) => void;
+  onAccountUpdate: (balanceChanged: boolean) => void;
+  onLiquidation: (symbol: string, positionSide: PositionSide) => void;
+}
+
+const createAccount = (): PaperAccountState => ({
+  walletBalance: websocketConfig.paperTrading.initialBalance,
+  positions: [],
+  orders: [],
+  leverage: {},
+  marginTypes: {},
+  positionMode: 'one-way',
+  nextOrderId: 1
+});
+
+// Simulated USDⓈ-M futures account. Orders fill against whatever prices are
+// pushed through updatePrice, live ticks or a kline replay (see
+// binanceService.startPaperReplay), and the account is kept in localStorage
+// so it survives reloads.
+export class PaperTradingEngine {
+  private state: PaperAccountState;
+  private prices: Map<string, number> = new Map();
+  private markPrices: Map<string, number> = new Map();
+
+  constructor(private callbacks: PaperTradingCallbacks) {
+    this.state = this.load();
+  }
+
+  reset() {
+    this.state = createAccount();
+    this.save();
+    this.callbacks.onAccountUpdate(true);
+  }
+
+  getSymbols(): string[] {
+    return Array.from(new Set([
+      ...this.state.positions.map(p => p.symbol),
+      ...this.state.orders.map(o => o.symbol)
+    ]));
+  }
+
+  getPositionMode(): 'one-way' | 'hedge' {
+    return this.state.positionMode;
+  }
+
+  setPositionMode(mode: 'one-way' | 'hedge') {
+    if (this.state.positions.length > 0 || this.state.orders.length > 0) {
+      throw new Error('Position side cannot be changed if there exists position or open orders.');
+    }
+    this.state.positionMode = mode;
+    this.save();
+  }
+
+  getMarginTypes(): Record<string, MarginType> {
+    return { ...this.state.marginTypes };
+  }
+
+  setMarginType(symbol: string, marginType: MarginType) {
+    if (this.state.positions.some(p => p.symbol === symbol)) {
+      throw new Error('Margin type cannot be changed if there exists position.');
+    }
+    if (this.state.orders.some(o => o.symbol === symbol)) {
+      throw new Error('Margin type cannot be changed if there exists open orders.');
+    }
+    this.state.marginTypes[symbol] = marginType;
+    this.save();
+  }
+
+  setLeverage(symbol: string, leverage: number) {
+    const maxLeverage = this.callbacks.getLeverageBracket(symbol)?.brackets[0]?.initialLeverage ?? 125;
+    if (!Number.isInteger(leverage) || leverage < 1 || leverage > maxLeverage) {
+      throw new Error(`Leverage ${leverage} is not valid, ${symbol} allows 1-${maxLeverage}x`);
+    }
+    this.state.leverage[symbol] = leverage;
+    this.save();
+    this.callbacks.onAccountUpdate(true);
+  }
+
+  placeOrder(params: Record<string, string | number>): OrderResult {
+    const symbol = String(params.symbol);
+    const type = String(params.type);
+    const quantity = parseFloat(String(params.quantity));
+    const price = params.price ? parseFloat(String(params.price)) : 0;
+    const stopPrice = params.stopPrice ? parseFloat(String(params.stopPrice)) : 0;
+    const positionSide = (params.positionSide || 'BOTH') as PositionSide;
+
+    if (!SUPPORTED_ORDER_TYPES.includes(type)) {
+      throw new Error(`${type} orders are not supported in paper trading`);
+    }
+    if (!(quantity > 0)) {
+      throw new Error('Quantity must be greater than zero.');
+    }
+    if ((positionSide === 'BOTH') !== (this.state.positionMode === 'one-way')) {
+      throw new Error("Order's position side does not match user's setting.");
+    }
+    if (type === 'LIMIT' && !(price > 0)) {
+      throw new Error('Limit orders need a price.');
+    }
+    if (type !== 'MARKET' && type !== 'LIMIT' && !(stopPrice > 0)) {
+      throw new Error('Stop orders need a stop price.');
+    }
+
+    const lastPrice = this.prices.get(symbol);
+    if (!lastPrice) {
+      throw new Error(`No market price for ${symbol} yet, try again in a moment`);
+    }
+
+    const orderId = this.state.nextOrderId++;
+    const order: OrderResult = {
+      orderId,
+      clientOrderId: String(params.newClientOrderId || `paper_${orderId}`),
+      symbol,
+      side: params.side as 'BUY' | 'SELL',
+      type,
+      status: 'NEW',
+      price: price.toString(),
+      stopPrice: stopPrice.toString(),
+      origQty: quantity.toString(),
+      executedQty: '0',
+      avgPrice: '0',
+      positionSide,
+      reduceOnly: String(params.reduceOnly) === 'true',
+      updateTime: Date.now()
+    };
+
+    if (type === 'STOP_MARKET' || type === 'TAKE_PROFIT_MARKET') {
+      if (this.isTriggered(order, this.markPrices.get(symbol) || lastPrice)) {
+        throw new Error('Order would immediately trigger.');
+      }
+      return this.rest(order);
+    }
+
+    if (type === 'LIMIT' && !this.isMarketable(order, lastPrice)) {
+      const { opening } = this.splitQuantity(order);
+      if (opening * price / this.getLeverage(symbol) > this.getAvailableBalance()) {
+        throw new Error('Margin is insufficient.');
+      }
+      return this.rest(order);
+    }
+
+    // Market orders and marketable limits take liquidity at the last price
+    return this.execute(order, lastPrice, websocketConfig.paperTrading.takerFee);
+  }
+
+  cancelOrder(orderId: number): OrderResult {
+    const order = this.state.orders.find(o => o.orderId === orderId);
+    if (!order) {
+      throw new Error('Unknown order sent.');
+    }
+
+    this.state.orders = this.state.orders.filter(o => o.orderId !== orderId);
+    const cancelled = { ...order, status: 'CANCELED', updateTime: Date.now() };
+    this.save();
+    this.emitOrder(cancelled, 'CANCELED');
+    this.callbacks.onAccountUpdate(true);
+    return cancelled;
+  }
+
+  cancelAllOrders(symbol: string) {
+    this.state.orders
+      .filter(o => o.symbol === symbol)
+      .forEach(o => this.cancelOrder(o.orderId));
+  }
+
+  modifyOrder(orderId: number, price: number, quantity: number): OrderResult {
+    const order = this.state.orders.find(o => o.orderId === orderId);
+    if (!order) {
+      throw new Error('Unknown order sent.');
+    }
+    if (order.type !== 'LIMIT') {
+      throw new Error('Only LIMIT orders can be amended');
+    }
+
+    const amended: OrderResult = {
+      ...order,
+      price: price.toString(),
+      origQty: quantity.toString(),
+      updateTime: Date.now()
+    };
+
+    // An amend that crosses the market fills straight away
+    const lastPrice = this.prices.get(order.symbol);
+    if (lastPrice && this.isMarketable(amended, lastPrice)) {
+      this.state.orders = this.state.orders.filter(o => o.orderId !== orderId);
+      try {
+        return this.execute(amended, lastPrice, websocketConfig.paperTrading.takerFee);
+      } catch (error) {
+        this.state.orders.push(order);
+        throw error;
+      }
+    }
+
+    this.state.orders = this.state.orders.map(o => o.orderId === orderId ? amended : o);
+    this.save();
+    this.emitOrder(amended, 'AMENDMENT');
+    this.callbacks.onAccountUpdate(true);
+    return amended;
+  }
+
+  getOpenOrders(): OrderResult[] {
+    return this.state.orders.map(o => ({ ...o }));
+  }
+
+  // Feeds a new last/mark price, fills resting orders and checks liquidation
+  updatePrice(symbol: string, price: number, markPrice: number = price) {
+    if (!price) return;
+
+    this.prices.set(symbol, price);
+    this.markPrices.set(symbol, markPrice || price);
+
+    const filled = this.processOrders(symbol, price, markPrice || price);
+    const liquidated = this.checkLiquidation(symbol);
+
+    if (filled || liquidated) {
+      this.callbacks.onAccountUpdate(true);
+    } else if (this.state.positions.some(p => p.symbol === symbol)) {
+      this.callbacks.onAccountUpdate(false);
+    }
+  }
+
+  getPositions(): Position[] {
+    return this.state.positions.map(p => {
+      const markPrice = this.getMarkPrice(p);
+      const leverage = this.getLeverage(p.symbol);
+      const marginType = this.getMarginType(p.symbol);
+      const notional = p.size * markPrice;
+      const pnl = this.getUnrealizedPnl(p);
+      const initialMargin = marginType === 'ISOLATED' ? p.isolatedMargin : Math.abs(notional) / leverage;
+      const direction = Math.sign(p.size);
+
+      return {
+        id: `${p.symbol}-${p.positionSide}`,
+        symbol: p.symbol,
+        size: p.size,
+        entryPrice: p.entryPrice,
+        markPrice,
+        pnl,
+        pnlPercentage: initialMargin ? (pnl / initialMargin) * 100 : 0,
+        type: p.size > 0 ? 'long' : 'short',
+        leverage: `${leverage}x`,
+        liquidationPrice: this.getLiquidationPrice(p),
+        // Entry and exit are both charged the taker fee
+        breakEvenPrice: p.entryPrice * (1 + direction * 2 * websocketConfig.paperTrading.takerFee),
+        positionInitialMargin: initialMargin,
+        notional,
+        marginType,
+        positionSide: p.positionSide
+      };
+    });
+  }
+
+  getBalances(): AccountBalance[] {
+    const crossWallet = this.getCrossWalletBalance();
+    const crossUnPnl = this.getCrossPositions().reduce((sum, p) => sum + this.getUnrealizedPnl(p), 0);
+    const available = Math.max(0, this.getAvailableBalance());
+
+    return [{
+      accountAlias: 'paper',
+      asset: 'USDT',
+      balance: this.state.walletBalance.toFixed(8),
+      crossWalletBalance: crossWallet.toFixed(8),
+      crossUnPnl: crossUnPnl.toFixed(8),
+      availableBalance: available.toFixed(8),
+      maxWithdrawAmount: available.toFixed(8),
+      marginAvailable: true,
+      updateTime: Date.now()
+    }];
+  }
+
+  private rest(order: OrderResult): OrderResult {
+    this.state.orders.push(order);
+    this.save();
+    this.emitOrder(order, 'NEW');
+    this.callbacks.onAccountUpdate(true);
+    return order;
+  }
+
+  private execute(order: OrderResult, fillPrice: number, feeRate: number): OrderResult {
+    const { opening, closing } = this.splitQuantity(order);
+    if (opening + closing <= QUANTITY_EPSILON) {
+      throw new Error('ReduceOnly Order is rejected.');
+    }
+
+    const fee = (opening + closing) * fillPrice * feeRate;
+    if (opening > 0) {
+      const leverage = this.getLeverage(order.symbol);
+      if (opening * fillPrice / leverage + fee > this.getAvailableBalance()) {
+        throw new Error('Margin is insufficient.');
+      }
+
+      const position = this.findPosition(order.symbol, order.positionSide);
+      const notional = (Math.abs(position?.size || 0) + opening) * fillPrice;
+      if (notional > this.getMaxNotional(order.symbol, leverage)) {
+        throw new Error('Exceeded the maximum allowable position at current leverage.');
+      }
+    }
+
+    const realizedPnl = this.applyFill(order, opening, closing, fillPrice);
+    this.state.walletBalance += realizedPnl - fee;
+
+    const filled: OrderResult = {
+      ...order,
+      status: 'FILLED',
+      executedQty: (opening + closing).toString(),
+      avgPrice: fillPrice.toString(),
+      updateTime: Date.now()
+    };
+
+    this.save();
+    this.emitOrder(filled, 'TRADE', opening + closing, fillPrice, realizedPnl);
+    this.callbacks.onAccountUpdate(true);
+    return filled;
+  }
+
+  // Splits an order into the part that reduces the current position and the part that opens new exposure
+  private splitQuantity(order: OrderResult): { opening: number; closing: number } {
+    const quantity = parseFloat(order.origQty) - parseFloat(order.executedQty);
+    const size = this.findPosition(order.symbol, order.positionSide)?.size || 0;
+
+    if (order.positionSide === 'BOTH') {
+      const direction = order.side === 'BUY' ? 1 : -1;
+      const closing = size !== 0 && Math.sign(size) !== direction ? Math.min(quantity, Math.abs(size)) : 0;
+      return { opening: order.reduceOnly ? 0 : quantity - closing, closing };
+    }
+
+    // Hedge mode: BUY opens LONG and closes SHORT, SELL the other way round
+    const isOpening = (order.positionSide === 'LONG') === (order.side === 'BUY');
+    if (isOpening) {
+      return { opening: order.reduceOnly ? 0 : quantity, closing: 0 };
+    }
+    return { opening: 0, closing: Math.min(quantity, Math.abs(size)) };
+  }
+
+  private applyFill(order: OrderResult, opening: number, closing: number, price: number): number {
+    let position = this.findPosition(order.symbol, order.positionSide);
+    let realizedPnl = 0;
+
+    if (closing > 0 && position) {
+      const direction = Math.sign(position.size);
+      const currentSize = Math.abs(position.size);
+      const remaining = currentSize - closing;
+
+      realizedPnl = closing * (price - position.entryPrice) * direction;
+
+      if (remaining <= QUANTITY_EPSILON) {
+        this.removePosition(position);
+        position = undefined;
+      } else {
+        position.isolatedMargin *= remaining / currentSize;
+        position.size = remaining * direction;
+      }
+    }
+
+    if (opening > 0) {
+      if (!position) {
+        position = {
+          symbol: order.symbol,
+          positionSide: order.positionSide,
+          size: 0,
+          entryPrice: price,
+          isolatedMargin: 0
+        };
+        this.state.positions.push(position);
+      }
+
+      const currentSize = Math.abs(position.size);
+      const newSize = currentSize + opening;
+      position.entryPrice = (currentSize * position.entryPrice + opening * price) / newSize;
+      position.size = newSize * (order.side === 'BUY' ? 1 : -1);
+
+      if (this.getMarginType(order.symbol) === 'ISOLATED') {
+        position.isolatedMargin += opening * price / this.getLeverage(order.symbol);
+      }
+    }
+
+    return realizedPnl;
+  }
+
+  private processOrders(symbol: string, price: number, markPrice: number): boolean {
+    const triggered = this.state.orders.filter(o => o.symbol === symbol && (
+      o.type === 'LIMIT' ? this.isMarketable(o, price) : this.isTriggered(o, markPrice)
+    ));
+
+    triggered.forEach(order => {
+      this.state.orders = this.state.orders.filter(o => o.orderId !== order.orderId);
+
+      // Resting limits add liquidity at their own price, triggered stops take it
+      const isMaker = order.type === 'LIMIT';
+      try {
+        this.execute(
+          order,
+          isMaker ? parseFloat(order.price) : price,
+          isMaker ? websocketConfig.paperTrading.makerFee : websocketConfig.paperTrading.takerFee
+        );
+      } catch (error) {
+        console.warn(`Paper order ${order.orderId} expired:`, error);
+        this.save();
+        this.emitOrder({ ...order, status: 'EXPIRED', updateTime: Date.now() }, 'EXPIRED');
+      }
+    });
+
+    return triggered.length > 0;
+  }
+
+  private isMarketable(order: OrderResult, price: number): boolean {
+    const limit = parseFloat(order.price);
+    return order.side === 'BUY' ? price <= limit : price >= limit;
+  }
+
+  private isTriggered(order: OrderResult, markPrice: number): boolean {
+    const stop = parseFloat(order.stopPrice);
+    const triggersAbove = (order.type === 'STOP_MARKET') === (order.side === 'BUY');
+    return triggersAbove ? markPrice >= stop : markPrice <= stop;
+  }
+
+  private checkLiquidation(symbol: string): boolean {
+    let liquidated = false;
+
+    // Isolated positions only risk their own margin
+    this.state.positions
+      .filter(p => p.symbol === symbol && this.getMarginType(p.symbol) === 'ISOLATED')
+      .forEach(p => {
+        if (p.isolatedMargin + this.getUnrealizedPnl(p) <= this.getMaintenanceMargin(p)) {
+          this.liquidate([p]);
+          liquidated = true;
+        }
+      });
+
+    // Cross positions share the cross wallet, so they go down together
+    const crossPositions = this.getCrossPositions();
+    if (crossPositions.some(p => p.symbol === symbol)) {
+      const equity = this.getCrossWalletBalance() + crossPositions.reduce((sum, p) => sum + this.getUnrealizedPnl(p), 0);
+      const maintenance = crossPositions.reduce((sum, p) => sum + this.getMaintenanceMargin(p), 0);
+      if (equity <= maintenance) {
+        this.liquidate(crossPositions);
+        liquidated = true;
+      }
+    }
+
+    return liquidated;
+  }
+
+  private liquidate(positions: PaperPosition[]) {
+    positions.forEach(p => {
+      if (this.getMarginType(p.symbol) === 'ISOLATED') {
+        this.state.walletBalance -= p.isolatedMargin;
+      } else {
+        this.state.walletBalance += this.getUnrealizedPnl(p);
+      }
+      this.removePosition(p);
+
+      this.state.orders
+        .filter(o => o.symbol === p.symbol)
+        .forEach(o => {
+          this.state.orders = this.state.orders.filter(order => order.orderId !== o.orderId);
+          this.emitOrder({ ...o, status: 'CANCELED', updateTime: Date.now() }, 'CANCELED');
+        });
+
+      this.callbacks.onLiquidation(p.symbol, p.positionSide);
+    });
+
+    // The cross wallet cannot go below zero, the insurance fund covers the rest
+    const crossWallet = this.getCrossWalletBalance();
+    if (crossWallet < 0) {
+      this.state.walletBalance -= crossWallet;
+    }
+
+    this.save();
+  }
+
+  private getLiquidationPrice(position: PaperPosition): number {
+    const notional = Math.abs(position.size) * this.getMarkPrice(position);
+    const { maintMarginRatio, cum } = this.getMaintenanceTier(position.symbol, notional);
+
+    let margin: number;
+    if (this.getMarginType(position.symbol) === 'ISOLATED') {
+      margin = position.isolatedMargin;
+    } else {
+      // Other cross positions add their PnL and consume their maintenance margin
+      margin = this.getCrossPositions()
+        .filter(p => p !== position)
+        .reduce((sum, p) => sum + this.getUnrealizedPnl(p) - this.getMaintenanceMargin(p), this.getCrossWalletBalance());
+    }
+
+    // Solves margin + size * (P - entry) = |size| * P * mmr - cum for P
+    const price = (position.size * position.entryPrice - margin - cum) /
+      (position.size - Math.abs(position.size) * maintMarginRatio);
+    return Number.isFinite(price) && price > 0 ? price : 0;
+  }
+
+  private getMaintenanceTier(symbol: string, notional: number): { maintMarginRatio: number; cum: number } {
+    const brackets = this.callbacks.getLeverageBracket(symbol)?.brackets;
+    if (!brackets || brackets.length === 0) {
+      return { maintMarginRatio: websocketConfig.paperTrading.defaultMaintMarginRatio, cum: 0 };
+    }
+
+    const tier = brackets.find(b => notional >= b.notionalFloor && notional < b.notionalCap) || brackets[brackets.length - 1];
+    return { maintMarginRatio: tier.maintMarginRatio, cum: tier.cum };
+  }
+
+  private getMaintenanceMargin(position: PaperPosition): number {
+    const notional = Math.abs(position.size) * this.getMarkPrice(position);
+    const { maintMarginRatio, cum } = this.getMaintenanceTier(position.symbol, notional);
+    return Math.max(0, notional * maintMarginRatio - cum);
+  }
+
+  // Largest position notional allowed at the given leverage
+  private getMaxNotional(symbol: string, leverage: number): number {
+    const brackets = this.callbacks.getLeverageBracket(symbol)?.brackets;
+    if (!brackets || brackets.length === 0) return Infinity;
+
+    return brackets
+      .filter(b => b.initialLeverage >= leverage)
+      .reduce((max, b) => Math.max(max, b.notionalCap), 0);
+  }
+
+  private getAvailableBalance(): number {
+    const crossPositions = this.getCrossPositions();
+    const crossUnPnl = crossPositions.reduce((sum, p) => sum + this.getUnrealizedPnl(p), 0);
+    const crossMargin = crossPositions.reduce(
+      (sum, p) => sum + Math.abs(p.size) * this.getMarkPrice(p) / this.getLeverage(p.symbol),
+      0
+    );
+    const orderMargin = this.state.orders
+      .filter(o => o.type === 'LIMIT' && !o.reduceOnly)
+      .reduce((sum, o) => sum + parseFloat(o.origQty) * parseFloat(o.price) / this.getLeverage(o.symbol), 0);
+
+    return this.getCrossWalletBalance() + crossUnPnl - crossMargin - orderMargin;
+  }
+
+  // Wallet balance minus the margin parked in isolated positions
+  private getCrossWalletBalance(): number {
+    return this.state.positions
+      .filter(p => this.getMarginType(p.symbol) === 'ISOLATED')
+      .reduce((balance, p) => balance - p.isolatedMargin, this.state.walletBalance);
+  }
+
+  private getCrossPositions(): PaperPosition[] {
+    return this.state.positions.filter(p => this.getMarginType(p.symbol) === 'CROSSED');
+  }
+
+  private getUnrealizedPnl(position: PaperPosition): number {
+    return position.size * (this.getMarkPrice(position) - position.entryPrice);
+  }
+
+  private getMarkPrice(position: PaperPosition): number {
+    return this.markPrices.get(position.symbol) || this.prices.get(position.symbol) || position.entryPrice;
+  }
+
+  getLeverage(symbol: string): number {
+    const maxLeverage = this.callbacks.getLeverageBracket(symbol)?.brackets[0]?.initialLeverage;
+    return this.state.leverage[symbol] ||
+      Math.min(websocketConfig.paperTrading.defaultLeverage, maxLeverage || websocketConfig.paperTrading.defaultLeverage);
+  }
+
+  private getMarginType(symbol: string): MarginType {
+    return this.state.marginTypes[symbol] || 'CROSSED';
+  }
+
+  private findPosition(symbol: string, positionSide: PositionSide): PaperPosition | undefined {
+    return this.state.positions.find(p => p.symbol === symbol && p.positionSide === positionSide);
+  }
+
+  private removePosition(position: PaperPosition) {
+    this.state.positions = this.state.positions.filter(p => p !== position);
+  }
+
+  private emitOrder(order: OrderResult, executionType: string, lastQty = 0, lastPrice = 0, realizedPnl = 0) {
+    this.callbacks.onOrderUpdate({
+      e: 'ORDER_TRADE_UPDATE',
+      E: Date.now(),
+      o: {
+        s: order.symbol,
+        c: order.clientOrderId,
+        S: order.side,
+        o: order.type,
+        f: 'GTC',
+        q: order.origQty,
+        p: order.price,
+        ap: order.avgPrice,
+        sp: order.stopPrice,
+        x: executionType,
+        X: order.status,
+        i: order.orderId,
+        l: lastQty.toString(),
+        z: order.executedQty,
+        L: lastPrice.toString(),
+        T: order.updateTime,
+        rp: realizedPnl.toString(),
+        R: order.reduceOnly,
+        ps: order.positionSide
+      }
+    });
+  }
+
+  private load(): PaperAccountState {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY_PAPER_ACCOUNT);
+      if (saved) {
+        return { ...createAccount(), ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      console.error('Failed to load paper account:', error);
+    }
+    return createAccount();
+  }
+
+  private save() {
+    localStorage.setItem(STORAGE_KEY_PAPER_ACCOUNT, JSON.stringify(this.state));
+  }
+}
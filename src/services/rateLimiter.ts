@@ -0,0 +1,281 @@
+import { websocketConfig } from '../config/websocket';
+import type { RateLimitState, RateLimitUsage } from '../types';
+
+// Orders always go out. Other requests wait when the weight is nearly used
+// up, low-priority ones (polling, refreshes) are skipped well before that.
+export type RequestPriority = 'order' | 'normal' | 'low';
+
+// A rateLimits entry of exchangeInfo or of a WS-API response
+export interface BinanceRateLimit {
+  rateLimitType: string;
+  interval: string;
+  intervalNum: number;
+  limit: number;
+  count?: number;
+}
+
+// A low-priority request skipped to keep weight free for orders
+export class RequestShedError extends Error {
+  constructor(readonly request: string) {
+    super(`${request} skipped to stay under the Binance rate limit`);
+    this.name = 'RequestShedError';
+  }
+}
+
+const INTERVAL_MS: Record<string, number> = {
+  SECOND: 1000,
+  MINUTE: 60 * 1000,
+  HOUR: 60 * 60 * 1000,
+  DAY: 24 * 60 * 60 * 1000
+};
+
+const HEADER_INTERVALS: Record<string, string> = { s: 'SECOND', m: 'MINUTE', h: 'HOUR', d: 'DAY' };
+
+// Weights of the requests this app sends, WS-API methods by name and REST
+// calls as "METHOD /path". Anything else weighs 1.
+const REQUEST_WEIGHTS: Record<string, number> = {
+  [websocketConfig.methods.balance]: 5,
+  [websocketConfig.methods.position]: 5,
+  [websocketConfig.methods.openOrders]: 40, // Without a symbol
+  [websocketConfig.methods.orderPlace]: 0,  // Orders count against the order limits instead
+  'GET /fapi/v1/positionSide/dual': 30,
+  'GET /fapi/v1/symbolConfig': 5,
+  'GET /fapi/v1/depth': 10, // At the configured snapshot limit
+  'GET /fapi/v1/klines': 5  // Up to 1000 candles
+};
+
+// Requests that count against the order limits
+const ORDER_REQUESTS = new Set<string>([websocketConfig.methods.orderPlace, websocketConfig.methods.orderModify]);
+
+// No Retry-After on a 429/418, back off for a full minute
+const DEFAULT_BACK_OFF = 60 * 1000;
+
+interface RateLimitWindow {
+  type: RateLimitUsage['type'];
+  label: string;
+  intervalMs: number;
+  limit: number;
+  count: number;
+  windowStart: number;
+}
+
+export interface RateLimiterCallbacks {
+  getServerTime: () => number;
+}
+
+const getWindowKey = (type: string, intervalNum: number, interval: string) => `${type}-${intervalNum}${interval}`;
+
+const delay = (ms: number) => new Promise(resolve => window.setTimeout(resolve, ms));
+
+// Tracks the exchange's weight and order limits per window. Counts come from
+// response headers and rateLimits fields, between responses every request
+// sent is added locally so a burst cannot outrun the exchange's figures.
+export class RateLimiter {
+  private windows: Map<string, RateLimitWindow> = new Map();
+  private queued = 0;
+  private shed = 0;
+  private blockedUntil: number | null = null;
+  private stateHandlers: ((state: RateLimitState) => void)[] = [];
+
+  constructor(private callbacks: RateLimiterCallbacks) {
+    this.updateWindows(websocketConfig.rateLimits.defaults);
+  }
+
+  // Limits published in exchangeInfo
+  setLimits(rateLimits: BinanceRateLimit[]) {
+    this.updateWindows(rateLimits);
+    this.notify();
+  }
+
+  // WS-API responses carry the current count of every window
+  recordWsResponse(response: { status?: number; rateLimits?: BinanceRateLimit[]; error?: { data?: { retryAfter?: number } } }) {
+    if (response.rateLimits) {
+      this.updateWindows(response.rateLimits);
+    }
+    if (response.status === 429 || response.status === 418) {
+      const retryAfter = response.error?.data?.retryAfter;
+      this.backOff(retryAfter ? retryAfter - this.callbacks.getServerTime() : DEFAULT_BACK_OFF);
+    }
+    this.notify();
+  }
+
+  // REST responses report counts in X-MBX-USED-WEIGHT-1M and X-MBX-ORDER-COUNT-*
+  // headers. Headers the browser does not expose leave the local estimate.
+  recordRestResponse(response: Response) {
+    response.headers.forEach((value, name) => {
+      const match = name.toLowerCase().match(/^x-mbx-(used-weight|order-count)-(\d+)([smhd])$/);
+      if (!match) return;
+
+      const type = match[1] === 'used-weight' ? 'REQUEST_WEIGHT' : 'ORDERS';
+      const window = this.windows.get(getWindowKey(type, Number(match[2]), HEADER_INTERVALS[match[3]]));
+      const count = Number(value);
+      if (window && Number.isFinite(count)) {
+        this.rollWindow(window);
+        window.count = count;
+      }
+    });
+
+    if (response.status === 429 || response.status === 418) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      this.backOff(retryAfter > 0 ? retryAfter * 1000 : DEFAULT_BACK_OFF);
+    }
+    this.notify();
+  }
+
+  // Resolves once the request may be sent and counts it. Low-priority
+  // requests are rejected instead of waiting, their next poll comes soon enough.
+  async acquire(request: string, priority: RequestPriority): Promise<void> {
+    const weight = REQUEST_WEIGHTS[request] ?? 1;
+
+    if (priority === 'low' && !this.hasRoom(weight, websocketConfig.rateLimits.shedThreshold)) {
+      this.shed++;
+      this.notify();
+      throw new RequestShedError(request);
+    }
+
+    if (priority === 'normal' && !this.hasRoom(weight, websocketConfig.rateLimits.queueThreshold)) {
+      console.warn(`${request} waits for the Binance rate limit window to roll over`);
+      this.queued++;
+      this.notify();
+      try {
+        while (!this.hasRoom(weight, websocketConfig.rateLimits.queueThreshold)) {
+          await delay(this.getWaitTime());
+        }
+      } finally {
+        this.queued--;
+      }
+    }
+
+    this.consume(request, weight);
+  }
+
+  getState(): RateLimitState {
+    const now = this.callbacks.getServerTime();
+    const windows = Array.from(this.windows.values()).map(window => {
+      this.rollWindow(window);
+      return {
+        type: window.type,
+        window: window.label,
+        count: window.count,
+        limit: window.limit,
+        resetsAt: window.windowStart + window.intervalMs
+      };
+    });
+
+    return {
+      windows,
+      queued: this.queued,
+      shed: this.shed,
+      blockedUntil: this.blockedUntil !== null && this.blockedUntil > now ? this.blockedUntil : null
+    };
+  }
+
+  onStateChange(handler: (state: RateLimitState) => void) {
+    this.stateHandlers.push(handler);
+    handler(this.getState());
+    return () => {
+      this.stateHandlers = this.stateHandlers.filter(h => h !== handler);
+    };
+  }
+
+  // Testnet and mainnet count separately
+  reset() {
+    this.windows.forEach(window => {
+      window.count = 0;
+    });
+    this.blockedUntil = null;
+    this.notify();
+  }
+
+  private updateWindows(rateLimits: BinanceRateLimit[]) {
+    rateLimits.forEach(rateLimit => {
+      if (rateLimit.rateLimitType !== 'REQUEST_WEIGHT' && rateLimit.rateLimitType !== 'ORDERS') return;
+
+      const intervalMs = (INTERVAL_MS[rateLimit.interval] ?? 0) * rateLimit.intervalNum;
+      if (!intervalMs) return;
+
+      const key = getWindowKey(rateLimit.rateLimitType, rateLimit.intervalNum, rateLimit.interval);
+      let window = this.windows.get(key);
+      if (!window) {
+        window = {
+          type: rateLimit.rateLimitType,
+          label: `${rateLimit.intervalNum}${rateLimit.interval[0].toLowerCase()}`,
+          intervalMs,
+          limit: rateLimit.limit,
+          count: 0,
+          windowStart: this.getWindowStart(intervalMs)
+        };
+        this.windows.set(key, window);
+      }
+
+      this.rollWindow(window);
+      window.limit = rateLimit.limit;
+      if (rateLimit.count !== undefined) {
+        window.count = rateLimit.count;
+      }
+    });
+  }
+
+  // Binance windows are aligned to the clock, a new one starts from zero
+  private rollWindow(window: RateLimitWindow) {
+    const windowStart = this.getWindowStart(window.intervalMs);
+    if (windowStart !== window.windowStart) {
+      window.windowStart = windowStart;
+      window.count = 0;
+    }
+  }
+
+  private getWindowStart(intervalMs: number) {
+    return Math.floor(this.callbacks.getServerTime() / intervalMs) * intervalMs;
+  }
+
+  private hasRoom(weight: number, threshold: number): boolean {
+    if (this.blockedUntil !== null && this.blockedUntil > this.callbacks.getServerTime()) {
+      return false;
+    }
+
+    return Array.from(this.windows.values()).every(window => {
+      if (window.type !== 'REQUEST_WEIGHT') return true;
+      this.rollWindow(window);
+      return window.count + weight <= window.limit * threshold;
+    });
+  }
+
+  // Until the back-off ends or the earliest weight window rolls over
+  private getWaitTime(): number {
+    const now = this.callbacks.getServerTime();
+    if (this.blockedUntil !== null && this.blockedUntil > now) {
+      return this.blockedUntil - now;
+    }
+
+    const resets = Array.from(this.windows.values())
+      .filter(window => window.type === 'REQUEST_WEIGHT')
+      .map(window => window.windowStart + window.intervalMs - now);
+    // A little past the boundary so the window has certainly rolled over
+    return Math.max(Math.min(...resets, DEFAULT_BACK_OFF), 0) + 50;
+  }
+
+  private consume(request: string, weight: number) {
+    const isOrder = ORDER_REQUESTS.has(request);
+    this.windows.forEach(window => {
+      this.rollWindow(window);
+      if (window.type === 'REQUEST_WEIGHT') {
+        window.count += weight;
+      } else if (isOrder) {
+        window.count += 1;
+      }
+    });
+    this.notify();
+  }
+
+  private backOff(ms: number) {
+    const until = this.callbacks.getServerTime() + Math.max(ms, 0);
+    console.warn(`Binance rate limit hit, backing off for ${Math.round(ms / 1000)}s`);
+    this.blockedUntil = Math.max(this.blockedUntil ?? 0, until);
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.stateHandlers.forEach(handler => handler(state));
+  }
+}
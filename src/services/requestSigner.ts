@@ -0,0 +1,59 @@
+import CryptoJS from 'crypto-js';
+import nacl from 'tweetnacl';
+import type { ApiKeyType } from '../types';
+
+// DER header of a PKCS#8 wrapped Ed25519 private key, followed by the 32-byte seed
+const PKCS8_ED25519_HEADER = '302e020100300506032b657004220420';
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) =>
+  new Uint8Array((hex.match(/../g) || []).map(byte => parseInt(byte, 16)));
+
+const fromBase64 = (base64: string): Uint8Array => {
+  try {
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  } catch {
+    throw new Error('Private key is not valid base64');
+  }
+};
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+// Accepts the PEM file Binance's key generator produces, or a bare 32-byte
+// seed as hex or base64. Returns the 64-byte secret key tweetnacl signs with.
+export function parseEd25519PrivateKey(input: string): Uint8Array {
+  const trimmed = input.trim();
+  let bytes: Uint8Array;
+
+  if (trimmed.startsWith('-----BEGIN')) {
+    if (trimmed.includes('ENCRYPTED')) {
+      throw new Error('Encrypted private keys are not supported, export the key without a passphrase');
+    }
+    bytes = fromBase64(trimmed.replace(/-----(BEGIN|END)[^-]*-----/g, '').replace(/\s+/g, ''));
+  } else if (/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+    bytes = fromHex(trimmed);
+  } else {
+    bytes = fromBase64(trimmed.replace(/\s+/g, ''));
+  }
+
+  if (bytes.length === 48 && toHex(bytes.slice(0, 16)) === PKCS8_ED25519_HEADER) {
+    bytes = bytes.slice(16);
+  }
+  if (bytes.length !== 32) {
+    throw new Error('Not an Ed25519 private key. Paste the PEM private key generated for your API key.');
+  }
+
+  return nacl.sign.keyPair.fromSeed(bytes).secretKey;
+}
+
+// Returns a function producing the `signature` parameter for a request payload:
+// hex HMAC-SHA256 for HMAC keys, base64 Ed25519 for Ed25519 keys
+export function createRequestSigner(keyType: ApiKeyType, secret: string): (payload: string) => string {
+  if (keyType === 'ed25519') {
+    const secretKey = parseEd25519PrivateKey(secret);
+    return payload => toBase64(nacl.sign.detached(new TextEncoder().encode(payload), secretKey));
+  }
+  return payload => CryptoJS.HmacSHA256(payload, secret).toString();
+}
@@ -0,0 +1,249 @@
+import { websocketConfig } from '../config/websocket';
+import type { Position, RiskLimits, RiskState } from '../types';
+import { DEFAULT_PROFILE_ID, PROFILE_STORAGE_KEYS, getProfileStorageKey } from '../utils/profileStorage';
+
+const STORAGE_KEY_RISK_LIMITS = PROFILE_STORAGE_KEYS.riskLimits;
+const STORAGE_KEY_RISK_STATE = PROFILE_STORAGE_KEYS.riskState;
+
+const RATE_WINDOW = 60 * 1000;
+
+// Kill switch and daily figures survive reloads so a tripped switch stays tripped
+interface PersistedRiskState {
+  killSwitchActive: boolean;
+  killSwitchReason?: string;
+  killSwitchTime?: number;
+  tradingDay: string;
+  dailyRealizedPnl: number;
+}
+
+export interface EntryOrder {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  positionSide: 'BOTH' | 'LONG' | 'SHORT';
+  notional: number;
+}
+
+export interface RiskManagerCallbacks {
+  getPositions: () => Position[];
+  onKillSwitch: (reason: string) => void;
+}
+
+// Binance resets daily figures at 00:00 UTC, so do we
+const getTradingDay = () => new Date().toISOString().slice(0, 10);
+
+const getPositionSide = (position: Position) =>
+  position.positionSide || (position.type === 'long' ? 'LONG' : 'SHORT');
+
+const getExposure = (position: Position) =>
+  Math.abs(position.size) * (position.markPrice || position.entryPrice);
+
+// Pre-trade checks shared by every order path, plus the kill switch. Entries
+// are checked against all limits, exits only against the order rate so a
+// position can always be closed.
+export class RiskManager {
+  private profileId = DEFAULT_PROFILE_ID;
+  private limits: RiskLimits;
+  private state: PersistedRiskState;
+  private orderTimes: number[] = [];
+  private stateHandlers: ((state: RiskState) => void)[] = [];
+
+  constructor(private callbacks: RiskManagerCallbacks) {
+    this.limits = this.loadLimits();
+    this.state = this.loadState();
+  }
+
+  // Limits, kill switch and daily PnL are kept per account profile
+  setProfile(profileId: string) {
+    this.profileId = profileId;
+    this.limits = this.loadLimits();
+    this.state = this.loadState();
+    this.orderTimes = [];
+    this.notify();
+  }
+
+  getLimits(): RiskLimits {
+    return this.limits;
+  }
+
+  setLimits(limits: RiskLimits) {
+    this.limits = limits;
+    localStorage.setItem(getProfileStorageKey(STORAGE_KEY_RISK_LIMITS, this.profileId), JSON.stringify(limits));
+    this.evaluate();
+  }
+
+  getState(): RiskState {
+    this.rollTradingDay();
+    const positions = this.callbacks.getPositions();
+    const now = Date.now();
+
+    return {
+      killSwitchActive: this.state.killSwitchActive,
+      killSwitchReason: this.state.killSwitchReason,
+      killSwitchTime: this.state.killSwitchTime,
+      tradingDay: this.state.tradingDay,
+      dailyRealizedPnl: this.state.dailyRealizedPnl,
+      unrealizedPnl: positions.reduce((sum, p) => sum + p.pnl, 0),
+      totalExposure: positions.reduce((sum, p) => sum + getExposure(p), 0),
+      openPositions: positions.length,
+      ordersLastMinute: this.orderTimes.filter(time => now - time < RATE_WINDOW).length
+    };
+  }
+
+  isKillSwitchActive(): boolean {
+    return this.state.killSwitchActive;
+  }
+
+  // Throws if the entry would breach a limit
+  checkEntry(order: EntryOrder) {
+    if (this.state.killSwitchActive) {
+      throw new Error(`Kill switch is active (${this.state.killSwitchReason}). Reset it in settings to trade again.`);
+    }
+
+    const state = this.getState();
+    const { maxOrderNotional, maxTotalExposure, maxOpenPositions, maxDailyLoss } = this.limits;
+
+    if (maxDailyLoss > 0 && state.dailyRealizedPnl + state.unrealizedPnl <= -maxDailyLoss) {
+      throw new Error(`Daily loss limit of ${maxDailyLoss} USDT reached`);
+    }
+
+    if (maxOrderNotional > 0 && order.notional > maxOrderNotional) {
+      throw new Error(`Order of ${order.notional} USDT exceeds the ${maxOrderNotional} USDT per-order limit`);
+    }
+
+    const positions = this.callbacks.getPositions();
+    const existing = positions.find(p => p.symbol === order.symbol && getPositionSide(p) === order.positionSide);
+
+    // In one-way mode an order against the position reduces it before adding exposure
+    let exposureChange = order.notional;
+    if (existing && order.positionSide === 'BOTH') {
+      const before = existing.size * (existing.markPrice || existing.entryPrice);
+      const after = before + (order.side === 'BUY' ? order.notional : -order.notional);
+      exposureChange = Math.abs(after) - Math.abs(before);
+    }
+
+    if (maxTotalExposure > 0 && exposureChange > 0 && state.totalExposure + exposureChange > maxTotalExposure) {
+      throw new Error(`Total exposure would reach ${(state.totalExposure + exposureChange).toFixed(0)} USDT, above the ${maxTotalExposure} USDT limit`);
+    }
+
+    if (maxOpenPositions > 0 && !existing && positions.length >= maxOpenPositions) {
+      throw new Error(`Maximum of ${maxOpenPositions} open positions reached`);
+    }
+
+    this.checkOrderRate();
+  }
+
+  // Throws once the per-minute order budget is used up
+  checkOrderRate() {
+    const { maxOrdersPerMinute } = this.limits;
+    const now = Date.now();
+    this.orderTimes = this.orderTimes.filter(time => now - time < RATE_WINDOW);
+
+    if (maxOrdersPerMinute > 0 && this.orderTimes.length >= maxOrdersPerMinute) {
+      throw new Error(`Order rate limit of ${maxOrdersPerMinute} per minute reached, try again shortly`);
+    }
+  }
+
+  recordOrder() {
+    this.orderTimes.push(Date.now());
+    this.notify();
+  }
+
+  recordRealizedPnl(realizedPnl: number) {
+    if (!realizedPnl) return;
+
+    this.rollTradingDay();
+    this.state.dailyRealizedPnl += realizedPnl;
+    this.saveState();
+    this.evaluate();
+  }
+
+  // Re-checks the daily loss limit, called whenever positions or PnL move
+  evaluate() {
+    const { maxDailyLoss } = this.limits;
+    if (!this.state.killSwitchActive && maxDailyLoss > 0) {
+      const state = this.getState();
+      if (state.dailyRealizedPnl + state.unrealizedPnl <= -maxDailyLoss) {
+        this.trip(`Daily loss limit of ${maxDailyLoss} USDT reached`);
+        this.callbacks.onKillSwitch(this.state.killSwitchReason!);
+        return;
+      }
+    }
+    this.notify();
+  }
+
+  // Blocks new entries until reset, flattening is left to the caller
+  trip(reason: string) {
+    if (this.state.killSwitchActive) return;
+
+    this.state = {
+      ...this.state,
+      killSwitchActive: true,
+      killSwitchReason: reason,
+      killSwitchTime: Date.now()
+    };
+    this.saveState();
+    console.warn(`Kill switch tripped: ${reason}`);
+    this.notify();
+  }
+
+  reset() {
+    this.state = {
+      ...this.state,
+      killSwitchActive: false,
+      killSwitchReason: undefined,
+      killSwitchTime: undefined
+    };
+    this.saveState();
+    console.log('Kill switch reset');
+    this.notify();
+  }
+
+  onStateChange(handler: (state: RiskState) => void) {
+    this.stateHandlers.push(handler);
+    return () => {
+      this.stateHandlers = this.stateHandlers.filter(h => h !== handler);
+    };
+  }
+
+  private rollTradingDay() {
+    const today = getTradingDay();
+    if (this.state.tradingDay !== today) {
+      this.state = { ...this.state, tradingDay: today, dailyRealizedPnl: 0 };
+      this.saveState();
+    }
+  }
+
+  private notify() {
+    if (this.stateHandlers.length === 0) return;
+    const state = this.getState();
+    this.stateHandlers.forEach(handler => handler(state));
+  }
+
+  private saveState() {
+    localStorage.setItem(getProfileStorageKey(STORAGE_KEY_RISK_STATE, this.profileId), JSON.stringify(this.state));
+  }
+
+  private loadLimits(): RiskLimits {
+    try {
+      const saved = localStorage.getItem(getProfileStorageKey(STORAGE_KEY_RISK_LIMITS, this.profileId));
+      if (saved) {
+        return { ...websocketConfig.riskLimits, ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      console.error('Failed to load risk limits:', error);
+    }
+    return { ...websocketConfig.riskLimits };
+  }
+
+  private loadState(): PersistedRiskState {
+    try {
+      const saved = localStorage.getItem(getProfileStorageKey(STORAGE_KEY_RISK_STATE, this.profileId));
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (error) {
+      console.error('Failed to load risk state:', error);
+    }
+    return { killSwitchActive: false, tradingDay: getTradingDay(), dailyRealizedPnl: 0 };
+  }
+}
@@ -0,0 +1,181 @@
+import { v4 as uuidv4 } from 'uuid';
+import { binanceService, parseOrderNotional, createClientOrderId, type OrderParams } from './binanceService';
+import { latencyMonitor } from './latencyMonitor';
+import { OrderStatusUnknownError } from './wsRequestManager';
+import { openDatabase, getAllFromStore, putInStore } from '../utils/indexedDb';
+import type { JournalEntry, NewsItem, OrderFill, OrderResult } from '../types';
+
+const DB_NAME = 'cryptoTerminal_tradeJournal';
+const DB_VERSION = 1;
+const STORE_ENTRIES = 'entries';
+
+// Remaining size of an entry that closing fills can still be attributed to
+const getOpenQty = (entry: JournalEntry) => Math.max(entry.filledQty - entry.closedQty, 0);
+
+// Persistent record of every news-triggered order: which headline caused it,
+// how fast it went out, where it filled and what it eventually made.
+class TradeJournal {
+  private entries: JournalEntry[] = [];
+  private db: Promise<IDBDatabase | null>;
+  private changeHandlers: ((entries: JournalEntry[]) => void)[] = [];
+
+  constructor() {
+    this.db = openDatabase(DB_NAME, DB_VERSION, db => {
+      if (!db.objectStoreNames.contains(STORE_ENTRIES)) {
+        db.createObjectStore(STORE_ENTRIES, { keyPath: 'id' });
+      }
+    }).catch(error => {
+      // The journal keeps working in memory for this session
+      console.error('Failed to open trade journal database:', error);
+      return null;
+    });
+
+    this.db.then(async db => {
+      if (!db) return;
+      const saved = await getAllFromStore<JournalEntry>(db, STORE_ENTRIES);
+      const ids = new Set(this.entries.map(e => e.id));
+      this.entries = [...this.entries, ...saved.filter(e => !ids.has(e.id))].sort((a, b) => b.sentAt - a.sentAt);
+      this.notify();
+    }).catch(error => {
+      console.error('Failed to load trade journal:', error);
+    });
+
+    binanceService.onOrderFill(fill => this.handleFill(fill));
+  }
+
+  getEntries(): JournalEntry[] {
+    return this.entries;
+  }
+
+  // Places the order through the service and journals it against the news
+  // item. Errors are recorded and rethrown for the caller to show, a rejected
+  // duplicate never was an order and is not journaled.
+  async placeOrder(news: NewsItem, params: OrderParams, origin: JournalEntry['origin']): Promise<OrderResult | null> {
+    binanceService.checkDuplicateOrder(params);
+
+    const sentAt = Date.now();
+    const clientOrderId = params.clientOrderId || createClientOrderId();
+    latencyMonitor.markClicked(news.id);
+    const entry: JournalEntry = {
+      id: uuidv4(),
+      profileId: binanceService.getProfileId(),
+      origin,
+      newsId: news.id,
+      newsTitle: news.title || news.description.slice(0, 200),
+      newsSource: news.source,
+      newsSourceName: news.sourceName,
+      newsTime: news.timestamp,
+      sentAt,
+      latencyMs: sentAt - news.timestamp,
+      symbol: params.symbol,
+      side: params.side,
+      positionSide: params.positionMode === 'one-way' ? 'BOTH' : (params.side === 'BUY' ? 'LONG' : 'SHORT'),
+      notional: parseOrderNotional(params.leverage),
+      clientOrderId,
+      status: 'sent',
+      filledQty: 0,
+      closedQty: 0,
+      realizedPnl: 0,
+      note: ''
+    };
+    this.save(entry);
+
+    try {
+      const result = await binanceService.placeOrder({ ...params, newsId: news.id, clientOrderId });
+      if (!result) {
+        this.update(entry.id, { status: 'failed', error: 'Order was not sent' });
+        return null;
+      }
+
+      this.update(entry.id, { orderId: result.orderId });
+      this.applyOrderProgress(entry.id, parseFloat(result.executedQty), parseFloat(result.avgPrice));
+      return result;
+    } catch (error) {
+      // The order may still have gone through, fills will complete the entry if so
+      if (error instanceof OrderStatusUnknownError) {
+        this.update(entry.id, { error: error.message });
+      } else {
+        this.update(entry.id, { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      throw error;
+    }
+  }
+
+  annotate(id: string, note: string) {
+    this.update(id, { note });
+  }
+
+  onChange(handler: (entries: JournalEntry[]) => void) {
+    this.changeHandlers.push(handler);
+    return () => {
+      this.changeHandlers = this.changeHandlers.filter(h => h !== handler);
+    };
+  }
+
+  private handleFill(fill: OrderFill) {
+    const profileId = binanceService.getProfileId();
+    // Orders whose response was lost only have their client id on the entry
+    const entryOrder = this.entries.find(e =>
+      e.profileId === profileId && (e.orderId === fill.orderId || (!!e.clientOrderId && e.clientOrderId === fill.clientOrderId))
+    );
+    if (entryOrder) {
+      if (entryOrder.orderId === undefined) {
+        this.update(entryOrder.id, { orderId: fill.orderId, error: undefined });
+      }
+      this.applyOrderProgress(entryOrder.id, fill.filledQty, fill.avgPrice);
+    }
+
+    // A fill against journaled positions closes them oldest first. In one-way
+    // mode that includes journaled entries reducing an earlier opposite entry.
+    let remaining = fill.lastQty;
+    const openEntries = this.entries
+      .filter(e => e.profileId === profileId && e.symbol === fill.symbol && e.positionSide === fill.positionSide && e.side !== fill.side && getOpenQty(e) > 0)
+      .sort((a, b) => a.sentAt - b.sentAt);
+
+    for (const entry of openEntries) {
+      if (remaining <= 0) break;
+      const closed = Math.min(getOpenQty(entry), remaining);
+      remaining -= closed;
+      this.update(entry.id, {
+        closedQty: entry.closedQty + closed,
+        realizedPnl: entry.realizedPnl + (fill.lastQty > 0 ? fill.realizedPnl * closed / fill.lastQty : 0)
+      });
+    }
+  }
+
+  // Both the order response and the stream report accumulated figures, so
+  // applying either one twice is harmless
+  private applyOrderProgress(id: string, filledQty: number, avgPrice: number) {
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry || !(filledQty > entry.filledQty)) return;
+
+    this.update(id, { status: 'filled', filledQty, fillPrice: avgPrice });
+  }
+
+  private update(id: string, changes: Partial<JournalEntry>) {
+    const entry = this.entries.find(e => e.id === id);
+    if (entry) {
+      this.save({ ...entry, ...changes });
+    }
+  }
+
+  private save(entry: JournalEntry) {
+    const index = this.entries.findIndex(e => e.id === entry.id);
+    if (index === -1) {
+      this.entries = [entry, ...this.entries];
+    } else {
+      this.entries = this.entries.map(e => (e.id === entry.id ? entry : e));
+    }
+    this.notify();
+
+    this.db.then(db => db && putInStore(db, STORE_ENTRIES, entry)).catch(error => {
+      console.error('Failed to save journal entry:', error);
+    });
+  }
+
+  private notify() {
+    this.changeHandlers.forEach(handler => handler(this.entries));
+  }
+}
+
+export const tradeJournal = new TradeJournal();
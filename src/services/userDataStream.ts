@@ -0,0 +1,283 @@
+import { websocketConfig } from '../config/websocket';
+import { toBinanceError } from './binanceErrors';
+
+export type UserDataStreamStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface AccountUpdateEvent {
+  e: 'ACCOUNT_UPDATE';
+  E: number;
+  a: {
+    m: string; // Event reason type (ORDER, FUNDING_FEE, ...)
+    B: Array<{
+      a: string;  // Asset
+      wb: string; // Wallet balance
+      cw: string; // Cross wallet balance
+      bc: string; // Balance change except PnL and commission
+    }>;
+    P: Array<{
+      s: string;  // Symbol
+      pa: string; // Position amount
+      ep: string; // Entry price
+      bep: string; // Break-even price
+      cr: string; // Accumulated realized
+      up: string; // Unrealized PnL
+      mt: 'isolated' | 'cross';
+      iw: string; // Isolated wallet
+      ps: 'BOTH' | 'LONG' | 'SHORT';
+    }>;
+  };
+}
+
+export interface OrderTradeUpdateEvent {
+  e: 'ORDER_TRADE_UPDATE';
+  E: number;
+  o: {
+    s: string;  // Symbol
+    c: string;  // Client order id
+    S: 'BUY' | 'SELL';
+    o: string;  // Order type
+    f: string;  // Time in force
+    q: string;  // Original quantity
+    p: string;  // Original price
+    ap: string; // Average price
+    sp: string; // Stop price
+    x: string;  // Execution type
+    X: string;  // Order status
+    i: number;  // Order id
+    l: string;  // Last filled quantity
+    z: string;  // Accumulated filled quantity
+    L: string;  // Last filled price
+    T: number;  // Trade time
+    rp: string; // Realized profit of the trade
+    R: boolean; // Reduce only
+    ps: 'BOTH' | 'LONG' | 'SHORT';
+    cp?: boolean; // Close-all conditional order
+  };
+}
+
+export interface MarginCallEvent {
+  e: 'MARGIN_CALL';
+  E: number;
+  cw?: string;
+  p: Array<{
+    s: string;
+    ps: 'BOTH' | 'LONG' | 'SHORT';
+    pa: string;
+    mt: 'ISOLATED' | 'CROSSED';
+    iw: string;
+    mp: string; // Mark price
+    up: string;
+    mm: string; // Maintenance margin required
+  }>;
+}
+
+export interface ListenKeyExpiredEvent {
+  e: 'listenKeyExpired';
+  E: number;
+}
+
+export type UserDataEvent = AccountUpdateEvent | OrderTradeUpdateEvent | MarginCallEvent | ListenKeyExpiredEvent;
+
+// Keeps a listenKey-based user data stream alive: creates the key, renews it
+// before it expires and reconnects with a fresh key whenever the socket drops.
+export class UserDataStream {
+  private apiKey = '';
+  private network: 'testnet' | 'mainnet' = 'mainnet';
+  private listenKey: string | null = null;
+  private ws: WebSocket | null = null;
+  private keepAliveInterval: number | null = null;
+  private reconnectTimeout: number | null = null;
+  private retryCount = 0;
+  private shouldRun = false;
+  private status: UserDataStreamStatus = 'disconnected';
+  // Bumped by stop(), a listenKey created for an earlier start is discarded
+  private generation = 0;
+
+  constructor(
+    private onEvent: (event: UserDataEvent) => void,
+    private onStatusChange: (status: UserDataStreamStatus) => void
+  ) {}
+
+  isRunning(): boolean {
+    return this.shouldRun;
+  }
+
+  getStatus(): UserDataStreamStatus {
+    return this.status;
+  }
+
+  start(apiKey: string, network: 'testnet' | 'mainnet') {
+    this.stop();
+    this.apiKey = apiKey;
+    this.network = network;
+    this.shouldRun = true;
+    this.open();
+  }
+
+  stop() {
+    this.generation++;
+    this.shouldRun = false;
+    this.stopKeepAlive();
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    this.closeSocket();
+
+    if (this.listenKey) {
+      // Closing the key is best effort, it expires on its own after 60 minutes
+      this.listenKeyRequest('DELETE').catch(error => {
+        console.error('Failed to close listenKey:', error);
+      });
+      this.listenKey = null;
+    }
+
+    this.setStatus('disconnected');
+  }
+
+  private setStatus(status: UserDataStreamStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.onStatusChange(status);
+  }
+
+  private async open() {
+    const generation = this.generation;
+    this.setStatus('connecting');
+
+    let listenKey: string;
+    try {
+      ({ listenKey } = await this.listenKeyRequest('POST'));
+    } catch (error) {
+      console.error('Failed to create listenKey:', error);
+      if (generation === this.generation) {
+        this.scheduleReconnect();
+      }
+      return;
+    }
+
+    // stop() may have been called while the key was being created, possibly
+    // followed by a start() for another account. The key belongs to the old one.
+    if (generation !== this.generation || !this.shouldRun) return;
+    this.listenKey = listenKey;
+
+    // Never leave an earlier socket running next to the new one
+    this.closeSocket();
+    const ws = new WebSocket(`${websocketConfig.endpoints[this.network].userData}/${this.listenKey}`);
+
+    ws.onopen = () => {
+      console.log('User data stream connected');
+      this.retryCount = 0;
+      this.setStatus('connected');
+      this.startKeepAlive();
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data) as UserDataEvent;
+        if (data.e === 'listenKeyExpired') {
+          console.log('listenKey expired, reconnecting user data stream');
+          this.reconnect();
+          return;
+        }
+        this.onEvent(data);
+      } catch (error) {
+        console.error('Failed to process user data stream message:', error);
+      }
+    };
+
+    ws.onerror = (error) => {
+      console.error('User data stream error:', error);
+    };
+
+    ws.onclose = () => {
+      console.log('User data stream closed');
+      this.handleClose();
+    };
+
+    this.ws = ws;
+  }
+
+  private handleClose() {
+    this.stopKeepAlive();
+    this.ws = null;
+    this.setStatus('disconnected');
+    this.scheduleReconnect();
+  }
+
+  private reconnect() {
+    // A fresh listenKey is requested on every reconnect
+    this.listenKey = null;
+    this.closeSocket();
+    this.handleClose();
+  }
+
+  private closeSocket() {
+    if (!this.ws) return;
+
+    this.ws.onopen = null;
+    this.ws.onmessage = null;
+    this.ws.onerror = null;
+    this.ws.onclose = null;
+    if (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING) {
+      this.ws.close();
+    }
+    this.ws = null;
+  }
+
+  private scheduleReconnect() {
+    if (!this.shouldRun) return;
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+    }
+
+    this.retryCount++;
+    const delay = websocketConfig.settings.exponentialBackoff
+      ? Math.min(
+          websocketConfig.settings.reconnectDelay * Math.pow(2, this.retryCount - 1),
+          websocketConfig.settings.maxReconnectDelay
+        )
+      : websocketConfig.settings.reconnectDelay;
+
+    console.log(`Attempting user data stream reconnect (attempt ${this.retryCount}) in ${delay}ms`);
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.open();
+    }, delay);
+  }
+
+  private startKeepAlive() {
+    this.stopKeepAlive();
+    this.keepAliveInterval = window.setInterval(() => {
+      this.listenKeyRequest('PUT').catch(error => {
+        console.error('Failed to keep listenKey alive:', error);
+        this.reconnect();
+      });
+    }, websocketConfig.intervals.listenKeyKeepAlive);
+  }
+
+  private stopKeepAlive() {
+    if (this.keepAliveInterval) {
+      clearInterval(this.keepAliveInterval);
+      this.keepAliveInterval = null;
+    }
+  }
+
+  private async listenKeyRequest(method: 'POST' | 'PUT' | 'DELETE'): Promise<{ listenKey: string }> {
+    const response = await fetch(`${websocketConfig.baseUrls[this.network]}/fapi/v1/listenKey`, {
+      method,
+      headers: {
+        'X-MBX-APIKEY': this.apiKey
+      }
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw toBinanceError(data, `listenKey ${method} failed`);
+    }
+    return data;
+  }
+}
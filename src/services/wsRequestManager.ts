@@ -0,0 +1,107 @@
+export type WsRequestFailure = 'timeout' | 'disconnected';
+
+// A WS-API request that never got an answer
+export class WsRequestError extends Error {
+  constructor(readonly reason: WsRequestFailure, readonly method: string) {
+    super(reason === 'timeout'
+      ? `Request ${method} timed out`
+      : `Connection lost before ${method} was answered`);
+    this.name = 'WsRequestError';
+  }
+}
+
+// An order request that went unanswered. The exchange may still have
+// executed it, so it is looked up by its client order id once reconnected.
+export class OrderStatusUnknownError extends WsRequestError {
+  constructor(reason: WsRequestFailure, method: string, readonly clientOrderId: string, readonly symbol: string) {
+    super(reason, method);
+    this.name = 'OrderStatusUnknownError';
+    this.message = `No answer for the ${symbol} order (${clientOrderId}), its status will be checked once reconnected`;
+  }
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (response: unknown) => void;
+  reject: (error: WsRequestError) => void;
+  timeout: number;
+}
+
+// Matches WS-API responses to their requests by id. Every request settles:
+// with its response, on its timeout, or when the socket goes away.
+export class WsRequestManager {
+  private pending: Map<string, PendingRequest> = new Map();
+  private inFlightHandlers: ((count: number) => void)[] = [];
+
+  // Registers a request before it is sent, resolving with the raw response
+  track<T>(id: string, method: string, timeoutMs: number): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timeout = window.setTimeout(() => {
+        if (this.pending.delete(id)) {
+          console.warn(`WS-API request ${method} (${id}) timed out after ${timeoutMs}ms`);
+          reject(new WsRequestError('timeout', method));
+          this.notify();
+        }
+      }, timeoutMs);
+
+      this.pending.set(id, {
+        method,
+        resolve: response => resolve(response as T),
+        reject,
+        timeout
+      });
+      this.notify();
+    });
+  }
+
+  // Settles the request a response belongs to, answers that arrive after a timeout are dropped
+  settle(id: string, response: unknown): boolean {
+    const request = this.pending.get(id);
+    if (!request) return false;
+
+    clearTimeout(request.timeout);
+    this.pending.delete(id);
+    request.resolve(response);
+    this.notify();
+    return true;
+  }
+
+  // A single request that could not be sent at all
+  cancel(id: string, reason: WsRequestFailure) {
+    const request = this.pending.get(id);
+    if (!request) return;
+
+    clearTimeout(request.timeout);
+    this.pending.delete(id);
+    request.reject(new WsRequestError(reason, request.method));
+    this.notify();
+  }
+
+  rejectAll(reason: WsRequestFailure) {
+    if (this.pending.size === 0) return;
+
+    const requests = Array.from(this.pending.values());
+    this.pending.clear();
+    requests.forEach(request => {
+      clearTimeout(request.timeout);
+      request.reject(new WsRequestError(reason, request.method));
+    });
+    this.notify();
+  }
+
+  getInFlightCount(): number {
+    return this.pending.size;
+  }
+
+  onInFlightChange(handler: (count: number) => void) {
+    this.inFlightHandlers.push(handler);
+    return () => {
+      this.inFlightHandlers = this.inFlightHandlers.filter(h => h !== handler);
+    };
+  }
+
+  private notify() {
+    const count = this.pending.size;
+    this.inFlightHandlers.forEach(handler => handler(count));
+  }
+}
@@ -1,3 +1,21 @@
+// 'paper' routes trading to the in-browser simulator and uses mainnet market data
+export type NetworkType = 'testnet' | 'mainnet' | 'paper';
+
+// HMAC keys sign every request, Ed25519 keys log the WS-API session on once
+export type ApiKeyType = 'hmac' | 'ed25519';
+
+// none: nothing saved, locked: saved keys need the passphrase, unlocked: keys are in memory
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+// A named account with its own connection, keys, trade buttons and risk limits.
+// Keys are kept in the credential vault, never here.
+export interface AccountProfile {
+  id: string;
+  name: string;
+  network: NetworkType;
+  keyType: ApiKeyType;
+}
+
 export interface NewsItem {
   id: string;
   source: string;
@@ -7,6 +25,7 @@ export interface NewsItem {
   url: string;
   symbol?: string;
   timestamp: number;
+  backfill?: NewsBackfill; // Set when the item was fetched after a socket outage instead of pushed live
   quote?: {
     author: string;
     content: string;
@@ -21,6 +40,228 @@ export interface NewsItem {
   };
 }
 
+// Price reaction to a headline, measured from the open of the minute it was
+// published in. Favorable is the direction of the earliest move.
+export interface NewsImpact {
+  symbol: string;
+  referencePrice: number;
+  moves: { minutes: number; change: number | null }[]; // %, null until that minute has started
+  maxFavorable: number; // % in the direction of the earliest move, zero or positive
+  maxAdverse: number;   // % against it, zero or negative
+  complete: boolean;    // Every horizon has passed, the figures are final
+}
+
+// Final impact of a headline on one symbol, kept for the source leaderboard.
+// Null impact marks a symbol without futures klines so it is not asked again.
+export interface NewsImpactRecord {
+  key: string; // `${newsId}:${symbol}`
+  newsId: string;
+  source: string;
+  sourceName?: string;
+  symbol: string;
+  publishedAt: number;
+  impact: NewsImpact | null;
+}
+
+export type ImpactLeaderboardGrouping = 'source' | 'sourceName' | 'symbol';
+
+// Aggregated absolute moves of one source, account or symbol at one horizon
+export interface ImpactLeaderboardRow {
+  key: string;
+  samples: number;
+  meanMove: number;   // % absolute
+  medianMove: number; // % absolute
+  hitRate: number;    // Share of samples that moved at least the threshold, 0-1
+}
+
+// News socket outage, from the drop until the connection was back
+export interface NewsOutage {
+  start: number;
+  end: number;
+  backfilled: number; // Items published meanwhile, fetched over HTTP
+}
+
+export interface NewsBackfill {
+  outageStart: number;
+  outageEnd: number;
+  receivedAt: number;
+}
+
+// Named news query selectable from the header
+export interface SavedNewsFilter {
+  id: string;
+  name: string;
+  query: string;
+}
+
+// How much news is kept in IndexedDB between sessions
+export interface NewsRetention {
+  maxAgeDays: number;
+  maxItems: number;
+}
+
+// Kind of post a news item is, derived from its quote/retweet/reply fields
+export type NewsContentType = 'post' | 'quote' | 'retweet' | 'reply';
+
+// News-triggered auto-trading rule. Empty match lists match anything.
+export interface AutoTradeRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  sources: string[];
+  sourceNames: string[];
+  symbols: string[];
+  keywords: string[];      // Any of them, case-insensitive, in title or description
+  regex?: string;          // Case-insensitive, tested against title and description
+  contentTypes: NewsContentType[];
+  side: 'BUY' | 'SELL';
+  notional: number;        // USDT per order
+  maxNotional: number;     // USDT the rule may open within 24 hours
+  cooldownSeconds: number; // Per rule and symbol
+  stopLossPercent?: number;
+  takeProfitPercent?: number;
+}
+
+export interface AutoTradeLogEntry {
+  id: string;
+  timestamp: number;
+  ruleId: string;
+  ruleName: string;
+  newsId: string;
+  newsTitle: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  notional: number;
+  status: 'placed' | 'failed' | 'skipped';
+  message?: string;
+}
+
+// Auto-trade order counted against its rule's cooldown and 24h notional cap
+export interface AutoTradeFill {
+  ruleId: string;
+  symbol: string;
+  notional: number;
+  timestamp: number;
+}
+
+// One fill of an order, as reported by the user data stream or the paper engine
+export interface OrderFill {
+  orderId: number;
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  positionSide: 'BOTH' | 'LONG' | 'SHORT';
+  lastQty: number;
+  lastPrice: number;
+  filledQty: number; // Accumulated over the order
+  avgPrice: number;
+  realizedPnl: number;
+  time: number;
+}
+
+// An order linked to the news item that triggered it. Realized PnL of later
+// closing fills is attributed to entries first in, first out.
+export interface JournalEntry {
+  id: string;
+  profileId: string;
+  origin: 'manual' | 'auto';
+  newsId: string;
+  newsTitle: string;
+  newsSource: string;
+  newsSourceName?: string;
+  newsTime: number;
+  sentAt: number;
+  latencyMs: number; // From the news timestamp to the order being sent
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  positionSide: 'BOTH' | 'LONG' | 'SHORT';
+  notional: number;
+  orderId?: number;
+  clientOrderId?: string; // Missing on entries journaled before client ids
+  status: 'sent' | 'filled' | 'failed';
+  error?: string;
+  filledQty: number;
+  fillPrice?: number;
+  closedQty: number;
+  realizedPnl: number;
+  note: string;
+}
+
+// Timeline of one live news item, from the publisher's timestamp to the
+// exchange acknowledging the first order it triggered. All local clock.
+export interface NewsLatencySample {
+  newsId: string;
+  title: string;
+  source: string;
+  publishedAt: number;
+  receivedAt: number;  // Worker got the socket message
+  renderedAt?: number; // First news card mounted
+  clickedAt?: number;  // Order requested from a card or an auto-trading rule
+  sentAt?: number;     // Order left for the exchange, after sizing and risk checks
+  ackedAt?: number;    // Exchange responded to the order
+}
+
+export type LatencySegment = 'receipt' | 'render' | 'reaction' | 'dispatch' | 'exchange' | 'total';
+
+export interface LatencyStats {
+  median: number;
+  p95: number;
+  count: number;
+}
+
+// WS-API requests awaiting a response, and orders whose response was lost
+export interface RequestActivity {
+  inFlight: number;
+  unknownOrders: number;
+}
+
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+  total: number; // Cumulative quantity from the best price to this level
+}
+
+export interface OrderBookView {
+  symbol: string;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  bestBid: number | null;
+  bestAsk: number | null;
+  spread: number | null;
+  midPrice: number | null;
+  synced: boolean; // False while waiting for a snapshot
+}
+
+// One Binance rate limit window, counts as reported by the exchange or estimated locally
+export interface RateLimitUsage {
+  type: 'REQUEST_WEIGHT' | 'ORDERS';
+  window: string;   // e.g. "1m", "10s"
+  count: number;
+  limit: number;
+  resetsAt: number; // Server time the window rolls over
+}
+
+export interface RateLimitState {
+  windows: RateLimitUsage[];
+  queued: number;             // Requests waiting for a window to roll over
+  shed: number;               // Low-priority requests skipped since the page loaded
+  blockedUntil: number | null; // Server time a 429/418 back-off ends
+}
+
+// Local clock minus Binance server time, measured at the midpoint of the request
+export interface ClockSkew {
+  offsetMs: number;
+  rttMs: number;
+  measuredAt: number;
+}
+
+// Stop-loss / take-profit level, either an absolute trigger price or a
+// percentage distance from the entry fill price
+export interface ProtectionLevel {
+  type: 'price' | 'percent';
+  value: number;
+}
+
 export interface LeverageInfo {
   symbol: string;
   leverage: string;
@@ -43,6 +284,110 @@ export interface Position {
   notional: number;
   limitClosePrice?: number;
   marginType?: 'ISOLATED' | 'CROSSED';
+  positionSide?: 'BOTH' | 'LONG' | 'SHORT';
+}
+
+// Latest market snapshot for a symbol, merged from the mark price,
+// mini ticker and book ticker streams
+export interface MarketTicker {
+  symbol: string;
+  price: string;              // Last traded price
+  priceChangePercent: string; // Rolling 24h change
+  markPrice?: string;
+  indexPrice?: string;
+  fundingRate?: string;
+  nextFundingTime?: number;
+  bidPrice?: string;
+  bidQty?: string;
+  askPrice?: string;
+  askQty?: string;
+  openPrice?: string;
+  highPrice?: string;
+  lowPrice?: string;
+  volume?: string;
+  quoteVolume?: string;
+}
+
+// [openTime, open, high, low, close, ...] as returned by /fapi/v1/klines
+export type Kline = [number, string, string, string, string, ...unknown[]];
+
+// A past window of 1m candles played into the paper account
+export interface PaperReplay {
+  symbol: string;
+  startTime: number;
+  endTime: number;
+  speed: number; // Replayed minutes per real minute
+  time: number;  // Open time of the candle being played
+  done: number;  // Candles played so far
+  total: number;
+}
+
+// Order object returned by order.place, order.status, order.modify and openOrders.status
+export interface OrderResult {
+  orderId: number;
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  status: string;
+  price: string;
+  stopPrice: string;
+  origQty: string;
+  executedQty: string;
+  avgPrice: string;
+  positionSide: 'BOTH' | 'LONG' | 'SHORT';
+  reduceOnly: boolean;
+  updateTime: number;
+}
+
+// Dry-run sizing of an entry order, null where market data or account info is missing
+export interface OrderPreview {
+  symbol: string;
+  knownSymbol: boolean;
+  price: number | null;        // Limit price, or the current price for market orders
+  quantity: number | null;     // After lot size rounding
+  notional: number | null;
+  leverage: number | null;
+  estimatedMargin: number | null;
+  minNotional: number | null;
+  meetsMinNotional: boolean;
+}
+
+export interface OpenOrder {
+  orderId: number;
+  clientOrderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  status: string;
+  price: number;
+  stopPrice: number;
+  origQty: number;
+  executedQty: number;
+  positionSide: 'BOTH' | 'LONG' | 'SHORT';
+  reduceOnly: boolean;
+  updateTime: number;
+}
+
+// Risk limits applied to every order, 0 disables a limit
+export interface RiskLimits {
+  maxOrderNotional: number;
+  maxTotalExposure: number;
+  maxOpenPositions: number;
+  maxOrdersPerMinute: number;
+  maxDailyLoss: number;
+}
+
+export interface RiskState {
+  killSwitchActive: boolean;
+  killSwitchReason?: string;
+  killSwitchTime?: number;
+  tradingDay: string;       // UTC date the daily figures belong to
+  dailyRealizedPnl: number;
+  unrealizedPnl: number;
+  totalExposure: number;
+  openPositions: number;
+  ordersLastMinute: number;
 }
 
 export interface LeverageBracket {
@@ -0,0 +1,215 @@
+import { parseNewsQuery, looksLikeNewsQuery } from './newsQuery';
+import type { ProtectionLevel } from '../types';
+
+// Commands understood by the Spotlight command palette
+export type SpotlightCommand =
+  | {
+      type: 'open';
+      side: 'BUY' | 'SELL';
+      symbol: string;
+      notional: number;
+      price?: number; // Present for limit orders
+      stopLoss?: ProtectionLevel;
+      takeProfit?: ProtectionLevel;
+    }
+  | { type: 'close'; symbol: string; percent: number }
+  | { type: 'closeAll' }
+  | { type: 'leverage'; symbol: string; leverage: number }
+  | { type: 'margin'; symbol: string; marginType: 'ISOLATED' | 'CROSSED' }
+  | { type: 'cancel'; symbol: string }
+  | { type: 'search'; symbol: string }
+  | { type: 'filter'; query: string };
+
+export type ParseResult =
+  | { ok: true; command: SpotlightCommand }
+  | { ok: false; error: string };
+
+export const COMMAND_KEYWORDS = ['LONG', 'SHORT', 'CLOSE', 'LEV', 'MARGIN', 'CANCEL'] as const;
+
+export const COMMAND_EXAMPLES = [
+  'LONG BTC 5K @ 62000',
+  'SHORT ETH 2K SL 2% TP 5%',
+  'CLOSE BTC 50%',
+  'CLOSE ALL',
+  'LEV SOL 20',
+  'MARGIN SOL ISOLATED',
+  'CANCEL BTC'
+];
+
+const SYMBOL_PATTERN = /^[A-Z0-9]{2,20}$/;
+const MAX_LEVERAGE = 125;
+
+export const normalizeSymbol = (symbol: string) =>
+  symbol.endsWith('USDT') ? symbol : `${symbol}USDT`;
+
+const fail = (error: string): ParseResult => ({ ok: false, error });
+
+const parsePositiveNumber = (token: string): number | null => {
+  if (!/^\d+(\.\d+)?$/.test(token)) return null;
+  const value = parseFloat(token);
+  return value > 0 ? value : null;
+};
+
+// 500, 5K, 1.5K or 2M USDT
+const parseNotional = (token: string): number | null => {
+  const match = token.match(/^(\d+(?:\.\d+)?)([KM])?$/);
+  if (!match) return null;
+
+  const multiplier = match[2] === 'M' ? 1_000_000 : match[2] === 'K' ? 1000 : 1;
+  const value = parseFloat(match[1]) * multiplier;
+  return value > 0 ? value : null;
+};
+
+// "2%" is a distance from the entry, a bare number an absolute trigger price
+const parseProtection = (token: string): ProtectionLevel | null => {
+  if (token.endsWith('%')) {
+    const value = parsePositiveNumber(token.slice(0, -1));
+    return value === null ? null : { type: 'percent', value };
+  }
+  const value = parsePositiveNumber(token);
+  return value === null ? null : { type: 'price', value };
+};
+
+const parseSymbol = (token: string | undefined, command: string): string | ParseResult => {
+  if (!token) return fail(`${command} needs a symbol, e.g. ${command} BTC`);
+  if (!SYMBOL_PATTERN.test(token)) return fail(`"${token}" is not a valid symbol`);
+  return normalizeSymbol(token);
+};
+
+const parseOpen = (side: 'BUY' | 'SELL', keyword: string, args: string[]): ParseResult => {
+  const symbol = parseSymbol(args[0], keyword);
+  if (typeof symbol !== 'string') return symbol;
+
+  if (!args[1]) return fail(`Missing amount, e.g. ${keyword} ${args[0]} 1K`);
+  const notional = parseNotional(args[1]);
+  if (notional === null) return fail(`"${args[1]}" is not a valid amount, use e.g. 500, 5K or 1.5K`);
+
+  const command: Extract<SpotlightCommand, { type: 'open' }> = { type: 'open', side, symbol, notional };
+
+  for (let i = 2; i < args.length; i += 2) {
+    const option = args[i];
+    const value = args[i + 1];
+
+    if (option === '@') {
+      const price = value ? parsePositiveNumber(value) : null;
+      if (price === null) return fail('Limit price is missing or invalid, e.g. @ 62000');
+      if (command.price !== undefined) return fail('Limit price is given twice');
+      command.price = price;
+    } else if (option === 'SL' || option === 'TP') {
+      const level = value ? parseProtection(value) : null;
+      if (level === null) return fail(`${option} needs a price or a percentage, e.g. ${option} 2%`);
+
+      const key = option === 'SL' ? 'stopLoss' : 'takeProfit';
+      if (command[key]) return fail(`${option} is given twice`);
+      command[key] = level;
+    } else {
+      return fail(`Unexpected "${option}", expected @ PRICE, SL or TP`);
+    }
+  }
+
+  return { ok: true, command };
+};
+
+const parseClose = (args: string[]): ParseResult => {
+  if (args[0] === 'ALL') {
+    if (args.length > 1) return fail('CLOSE ALL takes no further arguments');
+    return { ok: true, command: { type: 'closeAll' } };
+  }
+
+  const symbol = parseSymbol(args[0], 'CLOSE');
+  if (typeof symbol !== 'string') return symbol;
+
+  let percent = 100;
+  if (args[1]) {
+    const value = args[1].endsWith('%') ? parsePositiveNumber(args[1].slice(0, -1)) : null;
+    if (value === null || value > 100) return fail(`"${args[1]}" is not a valid percentage, use up to 100%`);
+    percent = value;
+  }
+  if (args.length > 2) return fail(`Unexpected "${args[2]}" after CLOSE ${args[0]} ${args[1]}`);
+
+  return { ok: true, command: { type: 'close', symbol, percent } };
+};
+
+const parseLeverage = (args: string[]): ParseResult => {
+  const symbol = parseSymbol(args[0], 'LEV');
+  if (typeof symbol !== 'string') return symbol;
+
+  const raw = (args[1] || '').replace(/X$/, '');
+  const leverage = /^\d+$/.test(raw) ? parseInt(raw, 10) : NaN;
+  if (!(leverage >= 1 && leverage <= MAX_LEVERAGE)) {
+    return fail(`Leverage must be a whole number from 1 to ${MAX_LEVERAGE}, e.g. LEV ${args[0]} 20`);
+  }
+  if (args.length > 2) return fail(`Unexpected "${args[2]}" after the leverage`);
+
+  return { ok: true, command: { type: 'leverage', symbol, leverage } };
+};
+
+const parseMargin = (args: string[]): ParseResult => {
+  const symbol = parseSymbol(args[0], 'MARGIN');
+  if (typeof symbol !== 'string') return symbol;
+
+  const mode = args[1];
+  let marginType: 'ISOLATED' | 'CROSSED';
+  if (mode === 'ISOLATED' || mode === 'ISO') {
+    marginType = 'ISOLATED';
+  } else if (mode === 'CROSSED' || mode === 'CROSS') {
+    marginType = 'CROSSED';
+  } else {
+    return fail(`Margin mode must be ISOLATED or CROSS, e.g. MARGIN ${args[0]} ISOLATED`);
+  }
+  if (args.length > 2) return fail(`Unexpected "${args[2]}" after the margin mode`);
+
+  return { ok: true, command: { type: 'margin', symbol, marginType } };
+};
+
+const parseCancel = (args: string[]): ParseResult => {
+  const symbol = parseSymbol(args[0], 'CANCEL');
+  if (typeof symbol !== 'string') return symbol;
+  if (args.length > 1) return fail(`Unexpected "${args[1]}", CANCEL takes only a symbol`);
+
+  return { ok: true, command: { type: 'cancel', symbol } };
+};
+
+// Parses a palette entry. News filters (fields, quotes or exclusions) are
+// taken as typed, anything else that does not start with a command keyword
+// must be a single symbol to search for.
+export function parseCommand(input: string): ParseResult {
+  if (looksLikeNewsQuery(input)) {
+    const result = parseNewsQuery(input);
+    return result.ok ? { ok: true, command: { type: 'filter', query: input.trim() } } : fail(result.error);
+  }
+
+  const tokens = input
+    .toUpperCase()
+    .replace(/@/g, ' @ ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  if (tokens.length === 0) return fail('Type a symbol or a command');
+
+  const [keyword, ...args] = tokens;
+  switch (keyword) {
+    case 'LONG':
+      return parseOpen('BUY', keyword, args);
+    case 'SHORT':
+      return parseOpen('SELL', keyword, args);
+    case 'CLOSE':
+      return parseClose(args);
+    case 'LEV':
+      return parseLeverage(args);
+    case 'MARGIN':
+      return parseMargin(args);
+    case 'CANCEL':
+      return parseCancel(args);
+  }
+
+  if (tokens.length > 1) {
+    return fail(`Unknown command "${keyword}". Commands: ${COMMAND_KEYWORDS.join(', ')}`);
+  }
+  if (!SYMBOL_PATTERN.test(keyword)) {
+    return fail(`"${keyword}" is not a valid symbol`);
+  }
+
+  return { ok: true, command: { type: 'search', symbol: normalizeSymbol(keyword) } };
+}
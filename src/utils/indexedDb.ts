@@ -0,0 +1,46 @@
+// Minimal promise wrappers around IndexedDB, enough for keyed object stores
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Opens a database, creating or upgrading its stores on a version change
+export const openDatabase = (name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAllFromStore = <T>(db: IDBDatabase, storeName: string): Promise<T[]> =>
+  promisifyRequest(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+
+export const putInStore = <T>(db: IDBDatabase, storeName: string, value: T): Promise<IDBValidKey> =>
+  promisifyRequest(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+
+// Writes all values in one transaction, resolving once it commits
+export const putAllInStore = <T>(db: IDBDatabase, storeName: string, values: T[]): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    values.forEach(value => store.put(value));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+export const deleteFromStore = (db: IDBDatabase, storeName: string, keys: IDBValidKey[]): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    keys.forEach(key => store.delete(key));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
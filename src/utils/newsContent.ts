@@ -0,0 +1,9 @@
+import type { NewsContentType, NewsItem } from '../types';
+
+// What kind of tweet a news item is, plain posts and non-Twitter news are 'post'
+export const getNewsContentType = (item: NewsItem): NewsContentType => {
+  if (item.reply) return 'reply';
+  if (item.retweet) return 'retweet';
+  if (item.quote) return 'quote';
+  return 'post';
+};
@@ -0,0 +1,161 @@
+import { getNewsContentType } from './newsContent';
+import type { NewsContentType, NewsItem } from '../types';
+
+// Either "2h ago" evaluated when matching, or a fixed point in time
+type TimeBound = { ago: number } | { at: number };
+
+export type NewsQueryTerm = { negated: boolean } & (
+  | { field: 'source' | 'from' | 'sym' | 'text'; values: string[] }
+  | { field: 'type'; values: NewsContentType[] }
+  | { field: 'after' | 'before'; time: TimeBound }
+);
+
+export type NewsQueryResult =
+  | { ok: true; terms: NewsQueryTerm[] }
+  | { ok: false; error: string };
+
+export const NEWS_QUERY_EXAMPLE = 'source:Twitter sym:BTC,ETH "listing" -rumor after:2h';
+
+const FIELD_ALIASES: Record<string, 'source' | 'from' | 'sym' | 'type' | 'after' | 'before'> = {
+  source: 'source',
+  src: 'source',
+  from: 'from',
+  account: 'from',
+  sym: 'sym',
+  symbol: 'sym',
+  type: 'type',
+  after: 'after',
+  since: 'after',
+  before: 'before'
+};
+
+const CONTENT_TYPES: NewsContentType[] = ['post', 'quote', 'retweet', 'reply'];
+
+const SYMBOL_PATTERN = /^[A-Z0-9]{2,20}$/;
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+// Optional "-", optional "field:", then a quoted phrase or a bare word
+const TOKEN_PATTERN = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)"|(\S+))/g;
+
+const fail = (error: string): NewsQueryResult => ({ ok: false, error });
+
+const splitValues = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+// 30m, 2h, 1.5d ago or anything Date.parse understands, e.g. 2024-05-01
+const parseTimeBound = (value: string): TimeBound | null => {
+  const match = value.toLowerCase().match(/^(\d+(?:\.\d+)?)([smhd])$/);
+  if (match) return { ago: parseFloat(match[1]) * DURATION_UNITS[match[2]] };
+
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? null : { at };
+};
+
+const getBoundTime = (bound: TimeBound, now: number) => ('ago' in bound ? now - bound.ago : bound.at);
+
+const matchesTerm = (term: NewsQueryTerm, item: NewsItem, now: number): boolean => {
+  switch (term.field) {
+    case 'source':
+      return term.values.some(value => (item.source || '').toLowerCase() === value);
+    case 'from':
+      return term.values.some(value => (item.sourceName || '').toLowerCase().includes(value));
+    case 'sym': {
+      const symbols = (item.symbol || '').split(',').map(s => s.trim().toUpperCase());
+      return term.values.some(value => symbols.includes(value) || symbols.includes(`${value}USDT`));
+    }
+    case 'type':
+      return term.values.includes(getNewsContentType(item));
+    case 'after':
+      return item.timestamp >= getBoundTime(term.time, now);
+    case 'before':
+      return item.timestamp < getBoundTime(term.time, now);
+    case 'text': {
+      const text = `${item.title || ''}\n${item.description || ''}\n${item.symbol || ''}`.toLowerCase();
+      return term.values.every(value => text.includes(value));
+    }
+  }
+};
+
+// Parses a news filter. Terms are ANDed, comma-separated values of a field
+// are ORed and a leading "-" negates a term. Bare words and quoted phrases
+// match the title, description or symbols; an empty query matches everything.
+export function parseNewsQuery(input: string): NewsQueryResult {
+  const terms: NewsQueryTerm[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, minus, rawField, quoted, bare] = match;
+    const negated = minus === '-';
+    const value = quoted ?? bare;
+
+    if (bare !== undefined && bare.includes('"')) return fail(`Unclosed quote in ${token}`);
+    if (bare === '-') return fail('Nothing to exclude after "-"');
+    // A field followed by a space is left over as a bare "field:"
+    if (!rawField && /^-?[a-zA-Z]+:$/.test(value)) return fail(`${value.replace(/^-/, '')} needs a value`);
+
+    if (!rawField) {
+      // Empty quotes filter nothing
+      if (!value.trim()) continue;
+      terms.push({ field: 'text', negated, values: [value.toLowerCase()] });
+      continue;
+    }
+
+    const field = FIELD_ALIASES[rawField.toLowerCase()];
+    if (!field) {
+      return fail(`Unknown filter "${rawField}:". Use source:, from:, sym:, type:, after: or before:`);
+    }
+
+    if (field === 'after' || field === 'before') {
+      const time = parseTimeBound(value);
+      if (!time) return fail(`${field}: needs a duration like 30m, 2h, 3d or a date, got "${value}"`);
+      terms.push({ field, negated, time });
+      continue;
+    }
+
+    const values = splitValues(value);
+    if (values.length === 0) return fail(`${rawField}: needs a value`);
+
+    if (field === 'sym') {
+      const symbols = values.map(v => v.toUpperCase());
+      const invalid = symbols.find(symbol => !SYMBOL_PATTERN.test(symbol));
+      if (invalid) return fail(`"${invalid}" is not a valid symbol`);
+      terms.push({ field, negated, values: symbols });
+    } else if (field === 'type') {
+      const types = values.map(v => v.toLowerCase());
+      const invalid = types.find(type => !CONTENT_TYPES.includes(type as NewsContentType));
+      if (invalid) return fail(`Unknown type "${invalid}", use ${CONTENT_TYPES.join(', ')}`);
+      terms.push({ field, negated, values: types as NewsContentType[] });
+    } else {
+      terms.push({ field, negated, values: values.map(v => v.toLowerCase()) });
+    }
+  }
+
+  return { ok: true, terms };
+}
+
+export const createNewsPredicate = (terms: NewsQueryTerm[]) =>
+  (item: NewsItem, now = Date.now()): boolean =>
+    terms.every(term => matchesTerm(term, item, now) !== term.negated);
+
+// Predicate for a query string, an invalid query filters nothing
+export const createNewsFilter = (query: string) => {
+  const result = parseNewsQuery(query);
+  return result.ok ? createNewsPredicate(result.terms) : () => true;
+};
+
+// Input the Spotlight should treat as a news filter rather than a command
+export const looksLikeNewsQuery = (input: string) => /"|[a-zA-Z]:|(^|\s)-\S/.test(input);
+
+// Filters are shared as ?q=<query> links
+const NEWS_QUERY_PARAM = 'q';
+
+export const getUrlNewsQuery = () => new URLSearchParams(window.location.search).get(NEWS_QUERY_PARAM) ?? '';
+
+export const getNewsQueryUrl = (query: string) => {
+  const url = new URL(window.location.href);
+  if (query) {
+    url.searchParams.set(NEWS_QUERY_PARAM, query);
+  } else {
+    url.searchParams.delete(NEWS_QUERY_PARAM);
+  }
+  return url.toString();
+};
@@ -0,0 +1,18 @@
+// The profile created on first run, it keeps the storage keys used before profiles existed
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Settings kept separately for every account profile
+export const PROFILE_STORAGE_KEYS = {
+  tradeButtons: 'cryptoTerminal_tradeButtons',
+  globalTradeButtons: 'cryptoTerminal_globalTradeButtons',
+  riskLimits: 'cryptoTerminal_riskLimits',
+  riskState: 'cryptoTerminal_riskState'
+};
+
+// Scopes a localStorage key to an account profile
+export const getProfileStorageKey = (key: string, profileId: string) =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}_${profileId}`;
+
+export const clearProfileStorage = (profileId: string) => {
+  Object.values(PROFILE_STORAGE_KEYS).forEach(key => localStorage.removeItem(getProfileStorageKey(key, profileId)));
+};
@@ -13,6 +13,8 @@ let pingInterval: ReturnType<typeof setInterval> | null = null;
 let lastPongReceived = 0;
 let shouldReconnect = true;
 let connectionStatus: 'disconnected' | 'connecting' | 'connected' = 'disconnected';
+// When the last established connection dropped, null while connected
+let disconnectedAt: number | null = null;
 
 function connect() {
   if (connectionStatus === 'connected' || connectionStatus === 'connecting') {
@@ -46,6 +48,12 @@ function connect() {
       retryCount = 0;
       clearTimeout(connectionTimeout);
       startHeartbeat();
+
+      // Live messages do not replay, the main thread fetches the outage over HTTP
+      if (disconnectedAt !== null) {
+        postMessage({ type: 'reconnected', payload: { start: disconnectedAt, end: Date.now() } });
+        disconnectedAt = null;
+      }
       
       // Subscribe to news channel (optional, depends on server needs)
       // try {
@@ -56,6 +64,8 @@ function connect() {
     };
 
     ws.onmessage = (event) => {
+      // Taken before parsing so the latency diagnostics see the socket arrival
+      const receivedAt = Date.now();
       try {
         if (event.data === 'pong') {
           lastPongReceived = Date.now();
@@ -64,7 +74,7 @@ function connect() {
         }
         // Send incoming news data to main thread
         const data = JSON.parse(event.data);
-        postMessage({ type: 'news', payload: data }); 
+        postMessage({ type: 'news', payload: data, receivedAt });
       } catch (error) {
         console.error('[Worker] Error processing WebSocket message:', error, event.data);
       }
@@ -88,6 +98,9 @@ function connect() {
 }
 
 function disconnect() {
+  if (connectionStatus === 'connected') {
+    disconnectedAt = Date.now();
+  }
   shouldReconnect = false;
   connectionStatus = 'disconnected';
   postMessage({ type: 'status', payload: connectionStatus });
@@ -116,6 +129,10 @@ function handleDisconnect() {
   stopHeartbeat();
   
   const previousStatus = connectionStatus;
+  // Failed reconnect attempts extend the same outage
+  if (previousStatus === 'connected') {
+    disconnectedAt = Date.now();
+  }
   connectionStatus = 'disconnected';
   if (previousStatus !== 'disconnected') {
     postMessage({ type: 'status', payload: connectionStatus });